@@ -0,0 +1,135 @@
+// scripts/oklink-fixtures.mjs
+// OKLink 解析器样本（src/fixtures/oklink）：Node 下离线校验 / 抓取真实页面，不需要浏览器。
+//
+//   npm run check:oklink                 逐个样本解析并与 <名>.expected.json 比对，不一致时退出码 1
+//   npm run check:oklink -- --strict     另外要求 REQUIRED 中的样本都是抓取的真实页面
+//   npm run capture:oklink -- <名> <链> <地址>
+//                                        抓取 /{链}/address/{地址} 与 token-transfer 子页，
+//                                        保存 <名>.main.html / <名>.token.html / <名>.source.json，
+//                                        并按当前解析结果写出 <名>.expected.json（提交前人工核对）
+//
+// 每个样本：<名>.main.html、<名>.token.html 与 <名>.expected.json（期望的摘要，或 { "drift": [路径…] }）；
+// 抓取的样本另有 <名>.source.json（链、地址、抓取时间），没有的视为手写样本。
+// 抓取默认直连 https://www.oklink.com，可用环境变量 OKLINK_BASE 指向自建的转发器。
+
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import { transformWithEsbuild } from "vite";
+
+const DIR = new URL("../src/fixtures/oklink/", import.meta.url);
+// 必须有真实页面的样本：交易所、合约、风险地址、新地址，以及一个 ETH 地址
+const REQUIRED = ["exchange", "contract", "risky", "fresh", "eth-exchange"];
+
+// src/oklink.ts 只用到 import.meta.env.VITE_OKLINK_BASE（请求前缀），解析函数与之无关
+async function loadParser() {
+  const src = await readFile(new URL("../src/oklink.ts", import.meta.url), "utf8");
+  const { code } = await transformWithEsbuild(src, "oklink.ts", {
+    loader: "ts",
+    format: "esm",
+    define: { "import.meta.env.VITE_OKLINK_BASE": "undefined" },
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(code).toString("base64")}`);
+}
+
+async function readText(name) {
+  return readFile(new URL(name, DIR), "utf8").catch(() => null);
+}
+
+function summarize(oklink, mainHtml, tokenHtml) {
+  try {
+    return oklink.summarizeAppState(oklink.parseAppState(mainHtml), oklink.parseAppState(tokenHtml));
+  } catch (e) {
+    return e instanceof oklink.OklinkSchemaDriftError ? { drift: e.missing } : { error: String(e instanceof Error ? e.message : e) };
+  }
+}
+
+function diffKeys(got, want) {
+  const keys = new Set([...Object.keys(got ?? {}), ...Object.keys(want ?? {})]);
+  return [...keys].filter((k) => JSON.stringify(got?.[k]) !== JSON.stringify(want?.[k]));
+}
+
+async function check(strict) {
+  const oklink = await loadParser();
+  const names = (await readdir(DIR))
+    .filter((f) => f.endsWith(".expected.json"))
+    .map((f) => f.replace(/\.expected\.json$/, ""))
+    .sort();
+  let failed = 0;
+  const synthetic = [];
+  for (const name of names) {
+    const want = JSON.parse(await readText(`${name}.expected.json`));
+    const mainHtml = await readText(`${name}.main.html`);
+    const tokenHtml = await readText(`${name}.token.html`);
+    if (mainHtml === null || tokenHtml === null) {
+      failed += 1;
+      console.log(`FAIL ${name}：缺少 ${name}.main.html 或 ${name}.token.html`);
+      continue;
+    }
+    if ((await readText(`${name}.source.json`)) === null) synthetic.push(name);
+    const got = summarize(oklink, mainHtml, tokenHtml);
+    if (JSON.stringify(got) === JSON.stringify(want)) {
+      console.log(`ok   ${name}`);
+      continue;
+    }
+    failed += 1;
+    console.log(`FAIL ${name}：${diffKeys(got, want).join(", ")}`);
+    for (const k of diffKeys(got, want)) console.log(`     ${k}: 实际 ${JSON.stringify(got?.[k])} ≠ 期望 ${JSON.stringify(want?.[k])}`);
+  }
+
+  const missing = REQUIRED.filter((n) => !names.includes(n));
+  const uncaptured = REQUIRED.filter((n) => synthetic.includes(n));
+  if (missing.length) console.log(`缺少样本：${missing.join(", ")}`);
+  if (synthetic.length) console.log(`手写样本（未抓取真实页面）：${synthetic.join(", ")}`);
+  if (strict && (missing.length || uncaptured.length)) failed += missing.length + uncaptured.length;
+
+  console.log(`${names.length} 个样本，${failed ? `${failed} 项不通过` : "全部通过"}`);
+  process.exitCode = failed ? 1 : 0;
+}
+
+async function fetchPage(base, chain, address, sub) {
+  const headers = {
+    "User-Agent": "Mozilla/5.0",
+    Referer: "https://www.oklink.com/",
+    "Accept-Language": "zh-CN,zh;q=0.9",
+  };
+  // 与 oklink.ts 相同：先取中文路径，失败回退英文路径
+  for (const path of [`/zh-hans/${chain}/address/${address}${sub}`, `/${chain}/address/${address}${sub}`]) {
+    const url = `${base}${path}`;
+    const res = await fetch(url, { headers }).catch((e) => ({ ok: false, status: String(e instanceof Error ? e.message : e) }));
+    if (res.ok) return { url, html: await res.text() };
+    console.log(`${url} → ${res.status}`);
+  }
+  throw new Error(`抓取失败：${chain}/${address}${sub}`);
+}
+
+async function capture(name, chain, address) {
+  if (!name || !chain || !address || !/^[\w-]+$/.test(name)) {
+    console.log("用法：npm run capture:oklink -- <名> <链> <地址>（名只含字母、数字、- 与 _）");
+    process.exitCode = 1;
+    return;
+  }
+  const base = (process.env.OKLINK_BASE || "https://www.oklink.com").replace(/\/$/, "");
+  const main = await fetchPage(base, chain, address, "");
+  const token = await fetchPage(base, chain, address, "/token-transfer");
+  await writeFile(new URL(`${name}.main.html`, DIR), main.html);
+  await writeFile(new URL(`${name}.token.html`, DIR), token.html);
+  const source = { chain, address, capturedAt: new Date().toISOString(), urls: [main.url, token.url] };
+  await writeFile(new URL(`${name}.source.json`, DIR), JSON.stringify(source, null, 2) + "\n");
+
+  const got = summarize(await loadParser(), main.html, token.html);
+  await writeFile(new URL(`${name}.expected.json`, DIR), JSON.stringify(got, null, 2) + "\n");
+  console.log(JSON.stringify(got, null, 2));
+  if (got.drift || got.error) {
+    console.log(`${name}：真实页面解析不通过，需先更新 oklink.ts 的 schema / 取值路径`);
+    process.exitCode = 1;
+  } else {
+    console.log(`已保存 ${name}；核对上面的摘要与页面一致后再提交`);
+  }
+}
+
+const [cmd = "check", ...args] = process.argv.slice(2);
+if (cmd === "check") await check(args.includes("--strict"));
+else if (cmd === "capture") await capture(...args);
+else {
+  console.log(`未知命令：${cmd}（check / capture）`);
+  process.exitCode = 1;
+}
@@ -5,7 +5,12 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Button } from "@/components/ui/button";
 import TronView from "./TronView";
 import EthView from "./EthView";
-import { Network, CircuitBoard, KeyRound, BookOpen, HelpCircle, X, Sparkles } from "lucide-react";
+import LabelLibraryBar from "@/components/LabelLibraryBar";
+import ScreenListsBar from "@/components/ScreenListsBar";
+import { deleteJob, isJobLive, jobProgress, listJobs, subscribeJobs, type JobRecord } from "@/shared/jobStore";
+import { formatTime } from "@/shared/utils";
+import { evmChainOf } from "@/shared/evmChains";
+import { Network, CircuitBoard, KeyRound, BookOpen, HelpCircle, X, Sparkles, History, Play, Trash2 } from "lucide-react";
 import { motion } from "framer-motion";
 
 /**
@@ -22,6 +27,31 @@ export default function AppShell() {
   const [isMobile, setIsMobile] = React.useState(false);
   const originalViewportRef = React.useRef<string | null>(null);
 
+  // —— 未完成的批量任务（IndexedDB 断点），可在刷新/崩溃后继续
+  const [jobs, setJobs] = React.useState<JobRecord[]>([]);
+  // 继续任务：以 nonce 作为视图 key 重新挂载，视图用 resumeJob 初始化地址与参数
+  const [resume, setResume] = React.useState<{ job: JobRecord; nonce: number } | null>(null);
+
+  React.useEffect(() => {
+    let alive = true;
+    const refresh = () => {
+      listJobs()
+        .then((list) => alive && setJobs(list.filter((j) => !isJobLive(j.id))))
+        .catch(() => alive && setJobs([]));
+    };
+    refresh();
+    const unsubscribe = subscribeJobs(refresh);
+    return () => {
+      alive = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const resumeJob = (job: JobRecord) => {
+    setTab(job.chain);
+    setResume({ job, nonce: Date.now() });
+  };
+
   // —— 设备检测：手机浏览器即判定为移动端
   const detectMobile = React.useCallback(() => {
     if (typeof window === "undefined") return false;
@@ -237,6 +267,49 @@ export default function AppShell() {
           </div>
         )}
 
+        {/* 未完成的批量任务 */}
+        {jobs.length > 0 && (
+          <div className="mb-4 rounded-xl border border-indigo-200/70 bg-indigo-50/60 px-3 py-2 text-xs text-indigo-900">
+            <div className="mb-1 flex items-center gap-2 font-medium">
+              <History className="h-3.5 w-3.5" />
+              <span>未完成的批量任务（已拉取的分页保存在本地，可从断点继续）</span>
+            </div>
+            <div className="space-y-1">
+              {jobs.map((j) => {
+                const p = jobProgress(j);
+                return (
+                  <div key={j.id} className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-white/70 px-2 py-1">
+                    <span>
+                      {j.chain === "tron" ? "TRON" : evmChainOf(j.params.network).name} · {formatTime(j.createdAt)} · 已完成 {p.done}/{p.total} 个地址
+                      {j.status === "running" ? "（异常中断）" : "（已暂停）"}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Button variant="outline" className="h-7 rounded-lg px-2 text-xs" onClick={() => resumeJob(j)}>
+                        <Play className="mr-1 h-3 w-3" />
+                        继续
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        className="h-7 rounded-lg px-2 text-xs"
+                        onClick={() => void deleteJob(j.id).catch(() => {})}
+                      >
+                        <Trash2 className="mr-1 h-3 w-3" />
+                        删除
+                      </Button>
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* 本地地址标签库（两个视图共用） */}
+        <LabelLibraryBar />
+
+        {/* 制裁 / 黑名单筛查名单（两个视图共用） */}
+        <ScreenListsBar />
+
         {/* 渐变描边 + 玻璃卡片容器 */}
         <div className="relative rounded-3xl p-[1.5px] bg-[conic-gradient(from_180deg_at_50%_50%,rgba(99,102,241,.35),rgba(236,72,153,.25),rgba(56,189,248,.3),rgba(99,102,241,.35))]">
           <div className="rounded-[calc(1.5rem-1.5px)] bg-white/90 shadow-xl border border-neutral-200/60 overflow-hidden">
@@ -260,7 +333,7 @@ export default function AppShell() {
                 </CardTitle>
                 <CardDescription className="text-neutral-500">
                   在下方选择 <span className="font-medium text-neutral-700">波场链</span> 或{" "}
-                  <span className="font-medium text-neutral-700">以太坊</span>，支持单地址与 Excel 批量查询、结果导出与限速控制。
+                  <span className="font-medium text-neutral-700">以太坊</span>（含 BSC / Polygon / Arbitrum / Base / Optimism 等 EVM 网络），支持单地址与 Excel 批量查询、结果导出与限速控制。
                 </CardDescription>
               </CardHeader>
 
@@ -396,11 +469,17 @@ export default function AppShell() {
 
                       {/* 内容区域与业务组件 */}
                       <TabsContent value="tron" className="pt-6">
-                        <TronView />
+                        <TronView
+                          key={resume?.job.chain === "tron" ? resume.nonce : "tron"}
+                          resumeJob={resume?.job.chain === "tron" ? resume.job : undefined}
+                        />
                       </TabsContent>
 
                       <TabsContent value="eth" className="pt-6">
-                        <EthView />
+                        <EthView
+                          key={resume?.job.chain === "eth" ? resume.nonce : "eth"}
+                          resumeJob={resume?.job.chain === "eth" ? resume.job : undefined}
+                        />
                       </TabsContent>
                     </Tabs>
                   </div>
@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
 import * as XLSX from "xlsx";
 import {
   Upload,
@@ -17,6 +17,7 @@ import {
   CheckCircle2,
   XCircle,
   Copy,
+  Wallet,
 } from "lucide-react";
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -28,6 +29,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
+import KeyHealthTable from "@/components/KeyHealthTable";
+import IntelSourcesBar from "@/components/IntelSourcesBar";
+import LabeledAddress from "@/components/LabeledAddress";
+import ExposureBadge from "@/components/ExposureBadge";
+import VirtualTable, { type VirtualColumn } from "@/components/VirtualTable";
 
 import {
   parseApiKeys,
@@ -35,13 +41,75 @@ import {
   middleEllipsis,
   formatTime,
   scaleAmount,
-  makeCompositeKey,
+  parseTimeWindow,
+  balanceDiff,
   isValidEthAddress,
+  checkEthAddress,
+  toChecksumAddress,
   generateEthCandidates,
 } from "@/shared/utils";
+import { etherscanReply, etherscanSpec, evmProviderOf, type EtherscanApi, type EtherscanReply } from "@/shared/apis";
+import {
+  createJob,
+  getJob,
+  jobProgress,
+  setJobStatus,
+  settleJob,
+  type JobRecord,
+} from "@/shared/jobStore";
+import {
+  createRowStore,
+  downloadBlob,
+  type AcctAgg,
+  type BlockRange,
+  type CrawlResult,
+  type EvmCursorKind,
+} from "@/shared/rowStore";
+import { fetchNativeUsdPrice, fetchTokenUsdPrices } from "@/shared/prices";
+import { labelMapFor, loadLabels } from "@/shared/labelStore";
+import { loadScreenLists, screenIndex, screenListInfos, subscribeScreenLists } from "@/shared/screenLists";
+import { exposureLevel, normScreenAddress, type ScreenExposure } from "@/shared/screening";
+import {
+  createIntelClient,
+  DEFAULT_INTEL_CONFIG,
+  intelSourcesText,
+  intelTagText,
+  providersOf,
+  type IntelConfig,
+  type IntelResult,
+} from "@/shared/intel";
+import {
+  EVM_CHAINS,
+  ETHERSCAN_V2_BASE,
+  apiModeSupported,
+  defaultEndpointOf,
+  evmChainOf,
+  explorerBlockUrl,
+  explorerTxUrl,
+  type EvmApiMode,
+  type EvmChain,
+} from "@/shared/evmChains";
 
 type AddrState = "pending" | "running" | "done" | "error";
-type ValidState = "unknown" | "checking" | "valid" | "invalid";
+// 各查询类型对应的 Etherscan action
+type FetchKind = "erc20" | "normal" | "internal" | "erc721" | "erc1155" | "beacon" | "mined";
+const KIND_ACTION: Record<FetchKind, string> = {
+  erc20: "tokentx",
+  normal: "txlist",
+  internal: "txlistinternal",
+  erc721: "tokennfttx",
+  erc1155: "token1155tx",
+  beacon: "txsBeaconWithdrawal",
+  mined: "getminedblocks",
+};
+// 查询范围：上述流水类型、“全部”，或持仓快照（当前余额，不走流水与断点）
+type QueryType = FetchKind | "all" | "holdings";
+// “全部”包含的类型：信标链提款只有以太坊主网有
+function allKindsOf(chain: EvmChain): FetchKind[] {
+  return chain.id === "eth" ? ["normal", "internal", "erc20", "beacon", "mined"] : ["normal", "internal", "erc20"];
+}
+
+type ValidState = "unknown" | "checking" | "valid" | "invalid" | "checksum"; // checksum = EIP-55 大小写不符
 
 /* =========================
  * 本组件内的展示工具（不改 utils.ts）
@@ -69,15 +137,189 @@ function formatHumanAmount2(raw: string | number): string {
   return `${fmt2(v)}${unit}`;
 }
 
-const DEFAULT_USDT_ON_ETH = "0xdAC17F958D2ee523a2206206994597C13D831ec7";
+/* =========================
+ * 查询结果表列（四个结果页共用；哈希窄、时间宽；时间换行居中；哈希链接到当前网络的浏览器）
+ * ========================= */
+function resultColumns(chain: EvmChain): VirtualColumn[] {
+  return [
+    { key: "地址", header: "地址", width: 200, render: (r) => <AddressHoverEllipsis address={r.地址} head={7} tail={6} /> },
+    {
+      key: "哈希",
+      header: "哈希",
+      width: 160,
+      render: (r) => (
+        <a
+          className="font-mono text-xs truncate text-indigo-700 hover:underline"
+          href={explorerTxUrl(chain, r.哈希)}
+          target="_blank"
+          rel="noreferrer"
+          title={r.哈希}
+        >
+          {r.哈希}
+        </a>
+      ),
+    },
+    {
+      key: "转入地址",
+      header: "转入地址",
+      width: 200,
+      render: (r) =>
+        r.转入地址 ? (
+          <LabeledAddress address={r.转入地址} chain={chain.id} align="left">
+            <AddressHoverEllipsis address={r.转入地址} head={7} tail={6} />
+          </LabeledAddress>
+        ) : (
+          "-"
+        ),
+    },
+    {
+      key: "转出地址",
+      header: "转出地址",
+      width: 200,
+      render: (r) =>
+        r.转出地址 ? (
+          <LabeledAddress address={r.转出地址} chain={chain.id} align="left">
+            <AddressHoverEllipsis address={r.转出地址} head={7} tail={6} />
+          </LabeledAddress>
+        ) : (
+          "-"
+        ),
+    },
+    { key: "数量", header: "数量", width: 120, render: (r) => formatHumanAmount2(r.数量) },
+    { key: "代币", header: "代币", width: 100 },
+    {
+      key: "合约",
+      header: "合约",
+      width: 160,
+      render: (r) => (r.合约 ? <AddressHoverEllipsis address={r.合约} head={7} tail={6} /> : "-"),
+    },
+    { key: "时间", header: "时间", width: 160, align: "center", render: (r) => <TimeCell value={r.时间} /> },
+    { key: "手续费", header: `手续费(${chain.nativeSymbol})`, width: 120, render: (r) => r.手续费 || "-" },
+    {
+      key: "状态",
+      header: "状态",
+      width: 110,
+      align: "center",
+      render: (r) =>
+        r.状态?.startsWith("失败") ? (
+          <span className="rounded-md bg-rose-50 px-1.5 text-xs font-medium text-rose-700 truncate" title={r.状态}>
+            {r.状态}
+          </span>
+        ) : (
+          r.状态 || "-"
+        ),
+    },
+  ];
+}
+
+/** NFT Transfers 表列 */
+function nftColumns(chain: EvmChain): VirtualColumn[] {
+  const [addrCol, hashCol, inCol, outCol, , , , timeCol] = resultColumns(chain);
+  return [
+    addrCol,
+    hashCol,
+    { key: "标准", header: "标准", width: 90 },
+    inCol,
+    outCol,
+    { key: "藏品", header: "藏品", width: 160 },
+    {
+      key: "TokenID",
+      header: "Token ID",
+      width: 140,
+      render: (r) => (
+        <span className="font-mono text-xs truncate" title={r.TokenID}>
+          {r.TokenID}
+        </span>
+      ),
+    },
+    { key: "数量", header: "数量", width: 80 },
+    timeCol,
+  ];
+}
+
+/** 信标链提款 / 出块奖励表列（区块链接到浏览器） */
+function rewardColumns(chain: EvmChain, kind: "beacon" | "mined"): VirtualColumn[] {
+  const [addrCol, , , , amountCol, tokenCol, , timeCol] = resultColumns(chain);
+  const blockCol: VirtualColumn = {
+    key: "区块",
+    header: "区块",
+    width: 120,
+    render: (r) => (
+      <a
+        className="font-mono text-xs text-indigo-700 hover:underline"
+        href={explorerBlockUrl(chain, r.区块)}
+        target="_blank"
+        rel="noreferrer"
+      >
+        {r.区块}
+      </a>
+    ),
+  };
+  if (kind === "mined") return [addrCol, blockCol, { ...amountCol, header: "出块奖励" }, tokenCol, timeCol];
+  return [
+    addrCol,
+    blockCol,
+    { key: "验证者索引", header: "验证者索引", width: 120 },
+    { key: "提款索引", header: "提款索引", width: 120 },
+    amountCol,
+    tokenCol,
+    timeCol,
+  ];
+}
+
+/** 持仓快照表列（Worker holding 映射器的行） */
+function holdingColumns(chain: EvmChain): VirtualColumn[] {
+  const [addrCol] = resultColumns(chain);
+  return [
+    addrCol,
+    {
+      key: "代币",
+      header: "代币",
+      width: 120,
+      render: (r) => (
+        <span className="truncate" title={r.代币名称}>
+          {r.代币 || "-"}
+        </span>
+      ),
+    },
+    {
+      key: "合约",
+      header: "合约",
+      width: 200,
+      render: (r) => (r.合约 ? <AddressHoverEllipsis address={r.合约} head={7} tail={6} /> : "-"),
+    },
+    { key: "数量", header: "数量", width: 140, render: (r) => formatHumanAmount2(r.数量) },
+    { key: "单价(USD)", header: "单价(USD)", width: 110, render: (r) => r["单价(USD)"] || "-" },
+    {
+      key: "价值(USD)",
+      header: "价值(USD)",
+      width: 120,
+      render: (r) => (r["价值(USD)"] ? formatHumanAmount2(r["价值(USD)"]) : "-"),
+    },
+    { key: "快照时间", header: "快照时间", width: 160, align: "center", render: (r) => <TimeCell value={r.快照时间} /> },
+  ];
+}
 
 /* =========================
- * 账户情况类型
+ * 账户情况：每个 地址 × 代币 一行（原生币 + 所选 ERC20），金额按 BigInt 原始量计算
  * ========================= */
 type AccountStat = {
   address: string;
+  /** 地址情报：实体标签（每条后标注来源；与下列情报字段一样按地址共享，只在该地址第一行展示） */
   label?: string;
-  balanceToken: string; // 余额(按选中ERC20，默认USDT)
+  riskTags?: string;
+  propertyTags?: string;
+  isContract?: string;
+  /** 地址情报：首笔入金来源地址 / 时间 / 数量（原生币） */
+  firstFunder?: string;
+  firstFundTime?: string;
+  firstFundAmount?: string;
+  /** 有结果 / 失败的情报来源 */
+  intelSources?: string;
+  symbol: string;
+  /** 代币合约（原生币为空） */
+  contract: string;
+  balance: string;
   firstTxTime?: string;
   lastTxTime?: string;
   lastOutTime?: string;
@@ -87,8 +329,94 @@ type AccountStat = {
   outAmount: string;
   outCount: number;
   outAddrCount: number;
+  /** 原生币行：其中来自信标链提款 / 出块奖励的流入 */
+  rewardIn?: string;
+  /** 原生币行：本地址发起的外部交易付出的手续费（gasUsed × gasPrice）与笔数；已从统计余额中扣除 */
+  feePaid?: string;
+  feeCount?: number;
+  /** 链上余额（Etherscan balance / tokenbalance）与差异（链上 - 统计）；未查询为 undefined */
+  chainBalance?: string;
+  balanceDiff?: string;
 };
 
+type IntelTags = Pick<
+  AccountStat,
+  "label" | "riskTags" | "propertyTags" | "isContract" | "firstFunder" | "firstFundTime" | "firstFundAmount" | "intelSources"
+>;
+
+// 地址情报 → 账户情况的情报字段（r 为 null：尚未查询，全部记 "-"）
+function intelTagsOf(r: IntelResult | null): IntelTags {
+  const funder = r?.firstFunder?.value;
+  return {
+    label: intelTagText(r, "entity"),
+    riskTags: intelTagText(r, "risk"),
+    propertyTags: intelTagText(r, "property"),
+    isContract: r?.isContract ? (r.isContract.value ? "是" : "否") : "-",
+    firstFunder: funder ? toChecksumAddress(funder.address) : "-",
+    firstFundTime: funder?.ts ? formatTime(funder.ts) : "-",
+    firstFundAmount: funder?.amount != null ? String(funder.amount) : "-",
+    intelSources: intelSourcesText(r),
+  };
+}
+
+// 账户统计涉及的表（原生币：外部 / 内部 / 提款 / 出块；ERC20：代币转账）
+const ACCT_TABLES = ["normal", "internal", "erc20", "beacon", "mined"];
+
+// 名单筛查涉及的表（All 为前三者的合并，不重复筛）；name 为“命中名单”中的来源表
+const SCREEN_TABLES = [
+  { table: "normal", name: "Transactions" },
+  { table: "internal", name: "Internal" },
+  { table: "erc20", name: "Token Transfers" },
+  { table: "nft", name: "NFT Transfers" },
+];
+
+/** chainBal：链上余额原始量（键同 AcctAgg.tokens）；compare 为 false（限定了时间窗口）时只展示不比对；tags：地址情报 */
+function acctRowsOf(
+  addr: string,
+  agg: AcctAgg | undefined,
+  chain: EvmChain,
+  tokens: string[],
+  chainBal?: Record<string, string>,
+  compare = true,
+  tags?: IntelTags
+): AccountStat[] {
+  const keys = ["native", ...tokens.map((c) => c.toLowerCase())];
+  return keys.map((k) => {
+    const t = agg?.tokens[k];
+    const preset = chain.stablecoins.find((x) => x.contract.toLowerCase() === k);
+    const decimals = t?.decimals ?? (k === "native" ? 18 : (preset?.decimals ?? 0));
+    const inRaw = BigInt(t?.inRaw || "0");
+    const outRaw = BigInt(t?.outRaw || "0");
+    const rewardRaw =
+      BigInt(agg?.parts.beacon?.native?.inRaw || "0") + BigInt(agg?.parts.mined?.native?.inRaw || "0");
+    const onchain = chainBal?.[k];
+    const feeRaw = k === "native" ? BigInt(agg?.feeRaw || "0") : 0n;
+    const balRaw = inRaw - outRaw - feeRaw;
+    return {
+      ...tags,
+      address: addr,
+      symbol: k === "native" ? chain.nativeSymbol : t?.symbol || preset?.symbol || middleEllipsis(k, 6, 4),
+      contract: k === "native" ? "" : toChecksumAddress(t?.contract || k),
+      balance: scaleAmount(balRaw.toString(), decimals),
+      firstTxTime: t?.firstTs ? formatTime(t.firstTs) : undefined,
+      lastTxTime: t?.lastTs ? formatTime(t.lastTs) : undefined,
+      lastOutTime: t?.lastOutTs ? formatTime(t.lastOutTs) : undefined,
+      inAmount: scaleAmount(inRaw.toString(), decimals),
+      inCount: t?.inCount || 0,
+      inAddrCount: t?.inAddrCount || 0,
+      outAmount: scaleAmount(outRaw.toString(), decimals),
+      outCount: t?.outCount || 0,
+      outAddrCount: t?.outAddrCount || 0,
+      rewardIn: k === "native" ? scaleAmount(rewardRaw.toString(), 18) : undefined,
+      feePaid: k === "native" ? scaleAmount(feeRaw.toString(), 18) : undefined,
+      feeCount: k === "native" ? agg?.feeCount || 0 : undefined,
+      chainBalance: onchain !== undefined ? scaleAmount(onchain, decimals) : undefined,
+      balanceDiff:
+        onchain === undefined ? undefined : compare ? balanceDiff(balRaw, BigInt(onchain), decimals) : "时间窗口内不比对",
+    };
+  });
+}
+
 /* =========================
  * 小组件：时间换行+居中
  * ========================= */
@@ -143,17 +471,29 @@ function AddressHoverEllipsis({
   );
 }
 
-export default function EthView() {
+export default function EthView({ resumeJob }: { resumeJob?: JobRecord } = {}) {
   // 队列 & 数据
-  const [addresses, setAddresses] = useState<string[]>([]);
+  const [addresses, setAddresses] = useState<string[]>(() => resumeJob?.addresses ?? []);
   // —— 查询结果拆分：All / Transactions / Internal / Token Transfers —— //
-  const [rowsAll, setRowsAll] = useState<any[]>([]);
-  const [rowsNormal, setRowsNormal] = useState<any[]>([]);
-  const [rowsInternal, setRowsInternal] = useState<any[]>([]);
-  const [rowsERC20, setRowsERC20] = useState<any[]>([]);
+  // 行本身在 Worker（rowStore）中：这里只有各表行数与版本，表格按可视区域向 Worker 取行
+  const [rowStore] = useState(createRowStore);
+  const [rowCounts, setRowCounts] = useState<Record<string, number>>({});
+  const [rowEpochs, setRowEpochs] = useState<Record<string, number>>({});
+  const [exporting, setExporting] = useState(false);
+  const anyRows = Object.values(rowCounts).some((n) => n > 0);
 
   // —— 账户情况 —— //
-  const [acctStats, setAcctStats] = useState<Record<string, AccountStat>>({});
+  // Worker 合并后的各地址聚合（原始量）；表格行由 acctRowsOf 按所选代币展开
+  const [acctStats, setAcctStats] = useState<Record<string, AcctAgg>>({});
+  // 链上余额（原始量，键同 AcctAgg.tokens）：查询结束后按地址取一次
+  const [chainBalances, setChainBalances] = useState<Record<string, Record<string, string>>>({});
+  // 地址情报（按地址）：每个地址查询结束后补全；来源与优先级见 IntelSourcesBar
+  const [intelTags, setIntelTags] = useState<Record<string, IntelTags>>({});
+  const [intel] = useState(createIntelClient);
+  const [intelConfig, setIntelConfig] = useState<IntelConfig>(DEFAULT_INTEL_CONFIG);
+  // 名单筛查（归一地址 → 直接 / 一跳命中）：名单、地址或结果行变化后在 Worker 中重算
+  const [exposure, setExposure] = useState<Record<string, ScreenExposure>>({});
+  const screenIdx = useSyncExternalStore(subscribeScreenLists, screenIndex);
 
   // 错误
   const [errors, setErrors] = useState<{ address: string; message: string }[]>([]);
@@ -161,34 +501,71 @@ export default function EthView() {
   const errorTimerRef = useRef<number | null>(null);
 
   // 参数
-  const [endpoint, setEndpoint] = useState("https://api.etherscan.io");
-  const [contract, setContract] = useState(""); // 若留空 → 结果收集不限制；账户情况用默认 USDT
+  // 网络与 API 入口（旧任务没有记录入口时按其 Endpoint 直连，视为 family）
+  const [network, setNetwork] = useState<string>(() => resumeJob?.params.network ?? "eth");
+  const [apiMode, setApiMode] = useState<EvmApiMode>(
+    () => resumeJob?.params.apiMode ?? (resumeJob?.params.endpoint ? "family" : "v2")
+  );
+  const chain = evmChainOf(network);
+  // 账户统计的 ERC20 合约（原生币总是统计）；切换网络时重置为该网络的默认稳定币
+  const [statTokens, setStatTokens] = useState<string[]>(
+    () => resumeJob?.params.statTokens ?? [evmChainOf(resumeJob?.params.network).stablecoins[0].contract]
+  );
+  const [customStatToken, setCustomStatToken] = useState("");
+  // 失败 / 回滚交易是否计入账户统计（缺省不计；入库时累计，下次查询生效）
+  const [countFailed, setCountFailed] = useState<boolean>(() => resumeJob?.params.countFailed ?? false);
+  const columns = useMemo(() => resultColumns(chain), [chain]);
+  const nftCols = useMemo(() => nftColumns(chain), [chain]);
+  const beaconCols = useMemo(() => rewardColumns(chain, "beacon"), [chain]);
+  const minedCols = useMemo(() => rewardColumns(chain, "mined"), [chain]);
+  const holdingCols = useMemo(() => holdingColumns(chain), [chain]);
+  const [endpoint, setEndpoint] = useState<string>(() => resumeJob?.params.endpoint ?? ETHERSCAN_V2_BASE);
+  const [contract, setContract] = useState<string>(() => resumeJob?.params.contract ?? ""); // 若留空 → 结果收集不限制
   const [concurrency, setConcurrency] = useState(2);
   const [timeoutMs, setTimeoutMs] = useState(15000);
   const [pauseMs, setPauseMs] = useState(220);
   const [qpsMax, setQpsMax] = useState(5);
-  const [queryType, setQueryType] = useState<"erc20" | "normal" | "internal" | "all">("all");
+  const [queryType, setQueryType] = useState<QueryType>(
+    () => (resumeJob?.params.queryType as QueryType | undefined) ?? "all"
+  );
+  // 持仓快照附带 USD 估值（CoinGecko）
+  const [holdingUsd, setHoldingUsd] = useState(false);
+  // 查询时间窗口（datetime-local，留空=不限）；运行前换算为区块号
+  const [startTime, setStartTime] = useState<string>(() => resumeJob?.params.startTime ?? "");
+  const [endTime, setEndTime] = useState<string>(() => resumeJob?.params.endTime ?? "");
 
   // API Keys
   const [apiKeysText, setApiKeysText] = useState("");
   const apiKeys = useMemo(() => parseApiKeys(apiKeysText), [apiKeysText]);
+  // Blockscout 不强制 Key：没填时用空 Key 直连
+  const keyOptional = apiMode === "blockscout";
+  // 调度器 Provider：V2 共用，family / Blockscout 按主机隔离（预算、熔断、Key 池各自独立）
+  const evmProvider = evmProviderOf(apiMode, endpoint);
   const [needApiKey, setNeedApiKey] = useState(false);
 
   // 运行状态
   const [isRunning, setIsRunning] = useState(false);
   const [addrStatus, setAddrStatus] = useState<
     Record<string, { status: AddrState; count: number; pages: number; message?: string }>
-  >({});
+  >(() => {
+    const m: Record<string, { status: AddrState; count: number; pages: number }> = {};
+    (resumeJob?.addresses ?? []).forEach((a) => (m[a] = { status: "pending", count: 0, pages: 0 }));
+    return m;
+  });
 
   // 地址格式校验状态
-  const [validMap, setValidMap] = useState<Record<string, ValidState>>({});
+  const [validMap, setValidMap] = useState<Record<string, ValidState>>(() => {
+    const m: Record<string, ValidState> = {};
+    (resumeJob?.addresses ?? []).forEach((a) => (m[a] = checkEthAddress(a)));
+    return m;
+  });
 
   // —— 单地址输入相关 —— //
   const [inputCandidates, setInputCandidates] = useState<string[]>([]);
   const [inputSuggestOpen, setInputSuggestOpen] = useState(false);
   const [inputAutoOk, setInputAutoOk] = useState(false); // “地址正确”2秒态
   const [inputValue, setInputValue] = useState(""); // 用于右侧即时校验
-  const [inputValidIcon, setInputValidIcon] = useState<"unknown" | "valid" | "invalid">("unknown");
+  const [inputValidIcon, setInputValidIcon] = useState<"unknown" | "valid" | "invalid" | "checksum">("unknown");
 
   // —— 地址列表每行 —— //
   const [rowCandidates, setRowCandidates] = useState<Record<string, string[]>>({});
@@ -213,6 +590,42 @@ export default function EthView() {
 
   const cancelRef = useRef({ cancelled: false });
 
+  // 可继续的断点任务（从任务列表载入，或本页停止后留下）
+  const [pendingJob, setPendingJob] = useState<JobRecord | null>(() => resumeJob ?? null);
+
+  // Worker 行数订阅；卸载时结束 Worker
+  useEffect(() => {
+    const off = rowStore.onCounts((counts, epochs) => {
+      setRowCounts(counts);
+      setRowEpochs(epochs);
+    });
+    return () => {
+      off();
+      rowStore.dispose();
+    };
+  }, [rowStore]);
+
+  // 名单筛查：防抖 800ms（查询进行中行数持续变化时等到停顿再算）
+  useEffect(() => {
+    let alive = true;
+    const t = setTimeout(() => {
+      void loadScreenLists()
+        .then(() => {
+          const lists = screenListInfos().map((l) => l.name);
+          if (!lists.length) return {};
+          return rowStore
+            .screen({ tables: SCREEN_TABLES, index: screenIdx, addresses, lists })
+            .then((r) => r.exposure);
+        })
+        .then((e) => alive && setExposure(e))
+        .catch(() => {});
+    }, 800);
+    return () => {
+      alive = false;
+      clearTimeout(t);
+    };
+  }, [rowStore, addresses, screenIdx, rowCounts, rowEpochs]);
+
   // 错误提示 10s 自动消失
   useEffect(() => {
     if (errors.length > 0) {
@@ -238,27 +651,22 @@ export default function EthView() {
         setInputValidIcon("unknown");
         return;
       }
-      setInputValidIcon(isValidEthAddress(inputValue) ? "valid" : "invalid");
+      setInputValidIcon(checkEthAddress(inputValue));
     }, 250);
     return () => clearTimeout(t);
   }, [inputValue]);
 
-  // —— 简单 QPS 控制 —— //
-  const rateRef = useRef<{ windowMs: number; hits: number[] }>({ windowMs: 1000, hits: [] });
-  const sleep = (ms: number) => new Promise((res) => setTimeout(res, ms));
-  async function acquireToken(): Promise<void> {
-    const now = Date.now();
-    const { windowMs } = rateRef.current;
-    rateRef.current.hits = rateRef.current.hits.filter((t) => now - t < windowMs);
-    if (rateRef.current.hits.length >= Math.max(1, qpsMax)) {
-      const wait = windowMs - (now - rateRef.current.hits[0]);
-      await sleep(Math.max(0, wait));
-      return acquireToken();
-    }
-    rateRef.current.hits.push(Date.now());
-  }
-  function pick<T>(arr: T[]): T | undefined {
-    return arr && arr.length ? arr[Math.floor(Math.random() * arr.length)] : undefined;
+  // —— Etherscan QPS 预算（按当前入口的 Provider）：调度器（重试/熔断/Key 池）在行存储 Worker 中 —— //
+  useEffect(() => {
+    void rowStore.setBudget(evmProvider, qpsMax);
+  }, [rowStore, evmProvider, qpsMax]);
+
+  // 缺少 / 无效 Key：只提示一次
+  function reportKeyMissing() {
+    setNeedApiKey(true);
+    setErrors((prev) =>
+      prev.some((e) => e.message === "请输入有效的 API Key") ? prev : [...prev, { address: "", message: "请输入有效的 API Key" }]
+    );
   }
 
   // —— Excel 模板 / 导入 / 导出 —— //
@@ -303,655 +711,403 @@ export default function EthView() {
   }
 
   function clearResultsOnly() {
-    setRowsAll([]);
-    setRowsNormal([]);
-    setRowsInternal([]);
-    setRowsERC20([]);
+    void rowStore.clear();
     setAcctStats({});
+    setChainBalances({});
+    setIntelTags({});
   }
 
-  function downloadExcel(): void {
-    const wb = XLSX.utils.book_new();
-    const wsAll = XLSX.utils.json_to_sheet(rowsAll);
-    const wsN = XLSX.utils.json_to_sheet(rowsNormal);
-    const wsI = XLSX.utils.json_to_sheet(rowsInternal);
-    const wsT = XLSX.utils.json_to_sheet(rowsERC20);
-    XLSX.utils.book_append_sheet(wb, wsAll, "All");
-    XLSX.utils.book_append_sheet(wb, wsN, "Transactions");
-    XLSX.utils.book_append_sheet(wb, wsI, "Internal");
-    XLSX.utils.book_append_sheet(wb, wsT, "Token Transfers");
-    if (errors.length) XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(errors), "错误信息");
-    XLSX.writeFile(wb, `ETH_查询结果_${new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-")}.xlsx`);
-  }
+  // —— 导出：Worker 中序列化（单表超出 Excel 上限时自动分 Sheet），逐个文件回传下载 —— //
+  const EXCEL_SAFE_ROWS = 900_000;
+  const CSV_CHUNK_ROWS = 500_000;
 
-  function downloadCSV(): void {
-    // 分别导出四个 CSV
-    const items: { name: string; data: any[] }[] = [
-      { name: "All", data: rowsAll },
-      { name: "Transactions", data: rowsNormal },
-      { name: "Internal", data: rowsInternal },
-      { name: "TokenTransfers", data: rowsERC20 },
-    ];
-    for (const it of items) {
-      const ws = XLSX.utils.json_to_sheet(it.data);
-      const csv = XLSX.utils.sheet_to_csv(ws);
-      const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
-      const a = document.createElement("a");
-      a.href = URL.createObjectURL(blob);
-      a.download = `ETH_${it.name}_${new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-")}.csv`;
-      a.click();
-      URL.revokeObjectURL(a.href);
-    }
+  // 本地标签库：导出时标注对手地址（读库失败按无标签导出）
+  async function exportLabels(): Promise<Record<string, string>> {
+    await loadLabels();
+    return labelMapFor(chain.id);
   }
 
-  // —— Etherscan 请求助手 —— //
-  async function etherscanRequest(
-    params: Record<string, string>
-  ): Promise<{ ok: boolean; status: number; message: string; result: any[]; errorText?: string }> {
-    const base = `${endpoint.replace(/\/$/, "")}/api`;
-    const url = `${base}?${new URLSearchParams(params).toString()}`;
-
-    const ctrl = new AbortController();
-    const timer = setTimeout(() => ctrl.abort(), timeoutMs);
+  // 名单筛查：没有导入名单时不输出“命中名单”
+  async function exportScreen() {
+    await loadScreenLists();
+    const lists = screenListInfos().map((l) => l.name);
+    return lists.length ? { tables: SCREEN_TABLES, index: screenIndex(), addresses, lists } : undefined;
+  }
 
-    let resp: Response | null = null;
+  async function downloadExcel(): Promise<void> {
+    setExporting(true);
     try {
-      await acquireToken();
-      resp = await fetch(url, { signal: ctrl.signal });
-    } catch {
-      clearTimeout(timer);
-      await sleep(800);
-      return { ok: false, status: 0, message: "network error", result: [] as any[] };
+      await rowStore.exportXlsx(
+        {
+          tables: [
+            { table: "all", sheetName: "All" },
+            { table: "normal", sheetName: "Transactions" },
+            { table: "internal", sheetName: "Internal" },
+            { table: "erc20", sheetName: "Token Transfers" },
+            { table: "nft", sheetName: "NFT Transfers" },
+            { table: "beacon", sheetName: "Beacon Withdrawals" },
+            { table: "mined", sheetName: "Mined Blocks" },
+            { table: "holdings", sheetName: "Holdings" },
+          ],
+          chunkRows: EXCEL_SAFE_ROWS,
+          maxSheetsPerWb: 8,
+          fileName: `${chain.short}_查询结果_${new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-")}`,
+          extraSheets: [{ name: "错误信息", rows: errors }],
+          labels: await exportLabels(),
+          screen: await exportScreen(),
+        },
+        { onFile: downloadBlob }
+      );
+    } catch (e) {
+      setErrors((es) => [...es, { address: "", message: `导出失败：${e instanceof Error ? e.message : e}` }]);
     } finally {
-      clearTimeout(timer);
-    }
-
-    if (!resp.ok) {
-      const retryAfter = Number(resp.headers.get("retry-after"));
-      if ([429, 403, 500, 502, 503, 504].includes(resp.status)) {
-        let wait = 1200;
-        if (Number.isFinite(retryAfter) && retryAfter !== 0) wait = Math.max(1000, retryAfter * 1000);
-        else if (resp.status === 403) wait = Math.max(wait, 30000);
-        await sleep(wait);
-        return { ok: false, status: resp.status, message: "retry", result: [] as any[] };
-      }
-      return { ok: false, status: resp.status, message: resp.statusText, result: [] as any[] };
+      setExporting(false);
     }
+  }
 
-    let json: any = null;
+  async function downloadCSV(): Promise<void> {
+    // 分别导出四个 CSV
+    const ts = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+    setExporting(true);
     try {
-      json = await resp.json();
-    } catch {
-      await sleep(400);
-      return { ok: false, status: 0, message: "json error", result: [] as any[] };
+      await rowStore.exportCsv(
+        {
+          tables: [
+            { table: "all", fileName: `${chain.short}_All_${ts}` },
+            { table: "normal", fileName: `${chain.short}_Transactions_${ts}` },
+            { table: "internal", fileName: `${chain.short}_Internal_${ts}` },
+            { table: "erc20", fileName: `${chain.short}_TokenTransfers_${ts}` },
+            { table: "nft", fileName: `${chain.short}_NFTTransfers_${ts}` },
+            { table: "beacon", fileName: `${chain.short}_BeaconWithdrawals_${ts}` },
+            { table: "mined", fileName: `${chain.short}_MinedBlocks_${ts}` },
+            { table: "holdings", fileName: `${chain.short}_Holdings_${ts}` },
+          ],
+          chunkRows: CSV_CHUNK_ROWS,
+          labels: await exportLabels(),
+          screen: await exportScreen().then((sp) => sp && { ...sp, fileName: `${chain.short}_命中名单_${ts}` }),
+        },
+        { onFile: downloadBlob }
+      );
+    } catch (e) {
+      setErrors((es) => [...es, { address: "", message: `导出失败：${e instanceof Error ? e.message : e}` }]);
+    } finally {
+      setExporting(false);
     }
+  }
+
+  // —— 切换网络 / 入口：Endpoint 跟随默认值（仍可手动改） —— //
+  function selectNetwork(id: string) {
+    const next = evmChainOf(id);
+    const mode = apiModeSupported(next, apiMode) ? apiMode : "v2";
+    setNetwork(next.id);
+    setApiMode(mode);
+    setEndpoint(defaultEndpointOf(next, mode));
+    if (next.id !== chain.id) setStatTokens([next.stablecoins[0].contract]);
+    // 信标链提款只有以太坊主网有
+    if (next.id !== "eth" && queryType === "beacon") setQueryType("all");
+  }
+  function selectApiMode(mode: EvmApiMode) {
+    if (!apiModeSupported(chain, mode)) return;
+    setApiMode(mode);
+    setEndpoint(defaultEndpointOf(chain, mode));
+  }
 
-    const isArr = Array.isArray(json?.result);
-    const resultArr = isArr ? json.result : [];
-    const errorText = isArr ? "" : String(json?.result ?? "");
+  // —— Etherscan 请求助手（V2 统一入口带 chainid；family / Blockscout 按各自 Endpoint） —— //
+  function etherscanApi(): EtherscanApi {
     return {
-      ok: true,
-      status: Number(json?.status ?? 0),
-      message: String(json?.message ?? ""),
-      result: resultArr,
-      errorText,
+      provider: evmProvider,
+      base: `${endpoint.replace(/\/$/, "")}/api`,
+      fixed: apiMode === "v2" ? { chainid: String(chain.chainId) } : {},
+      keys: apiKeys,
+      // Blockscout 不需要 Key：未填时不带 apikey 直接请求
+      allowNoKey: keyOptional,
+      timeoutMs,
     };
   }
+  async function etherscanRequest(params: Record<string, string>): Promise<EtherscanReply> {
+    return etherscanReply(await rowStore.request(etherscanSpec(etherscanApi(), params)));
+  }
 
-  // —— 公共：入库（覆盖式由 run* 控制；这里仍是追加到各自数组） —— //
-  function pushRowsNormal(addr: string, added: any[]) {
-    if (!added.length) return;
-    setRowsNormal((prev) => [...prev, ...added]);
-    setRowsAll((prev) => [...prev, ...added]);
-    setAddrStatus((prev) => ({
-      ...prev,
-      [addr]: { ...prev[addr], count: (prev[addr]?.count || 0) + added.length },
-    }));
+  // —— 时间窗口 → 区块范围（Etherscan getblocknobytime）；不限时为全历史 —— //
+  const FULL_RANGE: BlockRange = { startBlock: 0, endBlock: 99999999 };
+
+  async function blockAt(ms: number, closest: "before" | "after"): Promise<number> {
+    const { ok, status, message, errorText, reason } = await etherscanRequest({
+      module: "block",
+      action: "getblocknobytime",
+      timestamp: String(Math.floor(ms / 1000)),
+      closest,
+    });
+    if (!ok && (reason === "no-key" || reason === "unauthorized")) {
+      reportKeyMissing();
+      throw new Error("请输入有效的 API Key");
+    }
+    const n = Number(errorText);
+    if (!ok || String(status) !== "1" || !Number.isFinite(n)) {
+      // 结束时间晚于最新区块时没有 "before" 之后的区块可言：按不限处理
+      if (closest === "before" && ms > Date.now()) return FULL_RANGE.endBlock;
+      throw new Error(`时间换算区块失败：${errorText || message || "未知错误"}`);
+    }
+    return n;
   }
-  function pushRowsInternal(addr: string, added: any[]) {
-    if (!added.length) return;
-    setRowsInternal((prev) => [...prev, ...added]);
-    setRowsAll((prev) => [...prev, ...added]);
-    setAddrStatus((prev) => ({
-      ...prev,
-      [addr]: { ...prev[addr], count: (prev[addr]?.count || 0) + added.length },
-    }));
+
+  async function resolveBlockRange(): Promise<BlockRange> {
+    const win = parseTimeWindow(startTime, endTime);
+    if (win.error) throw new Error(win.error);
+    return {
+      startBlock: win.fromMs !== undefined ? await blockAt(win.fromMs, "after") : FULL_RANGE.startBlock,
+      endBlock: win.toMs !== undefined ? await blockAt(win.toMs, "before") : FULL_RANGE.endBlock,
+    };
   }
-  function pushRowsERC20(addr: string, added: any[]) {
-    if (!added.length) return;
-    setRowsERC20((prev) => [...prev, ...added]);
-    setRowsAll((prev) => [...prev, ...added]);
+
+  // —— 公共：行数计入地址状态（行本身在 Worker 中） —— //
+  function bumpCount(addr: string, added: number) {
+    if (!added) return;
     setAddrStatus((prev) => ({
       ...prev,
-      [addr]: { ...prev[addr], count: (prev[addr]?.count || 0) + added.length },
+      [addr]: { ...prev[addr], count: (prev[addr]?.count || 0) + added },
     }));
   }
 
-  // —— 账户情况：基于选中ERC20（默认USDT）统计 —— //
-  function mergeAcctStat(addr: string, patch: Partial<AccountStat>) {
-    setAcctStats((prev) => {
-      const old = prev[addr] || {
-        address: addr,
-        balanceToken: "0",
-        firstTxTime: undefined,
-        lastTxTime: undefined,
-        lastOutTime: undefined,
-        inAmount: "0",
-        inCount: 0,
-        inAddrCount: 0,
-        outAmount: "0",
-        outCount: 0,
-        outAddrCount: 0,
-      };
-      const next: AccountStat = { ...old, ...patch, address: addr };
-      return { ...prev, [addr]: next };
-    });
+  // —— 账户情况：流入/流出笔数、金额与对手地址在 Worker 入库时累计，这里只取合并结果 —— //
+  // 所选 ERC20 + 结果过滤合约（若填写）
+  const accTokens = useMemo(() => {
+    const c = contract.trim();
+    return c && !statTokens.some((x) => x.toLowerCase() === c.toLowerCase()) ? [...statTokens, c] : statTokens;
+  }, [statTokens, contract]);
+  // 限定了时间窗口：流水推不出当前余额，链上余额只展示不比对
+  const timeWindowSet = !!(startTime || endTime);
+
+  async function refreshAcctStats(addr: string) {
+    const r = await rowStore.acctStats({ tables: ACCT_TABLES, addr }).catch(() => null);
+    if (!r) return;
+    setAcctStats((prev) => ({ ...prev, [addr]: r[addr] }));
   }
 
-  // —— ERC20：按“区块游标”分页 —— //
-  async function fetchErc20ForAddress(addr: string): Promise<any[]> {
-    const rowsOut: any[] = [];
-    const seen = new Set<string>();
-    const offset = 10000;
-    let startBlock = 0;
-    const endBlock = 99999999;
-    let safetyNoProgress = 0;
-
-    const updateStatus = (patch: any) => setAddrStatus((prev) => ({ ...prev, [addr]: { ...prev[addr], ...patch } }));
-    updateStatus({ status: "running", pages: 0, count: 0 });
-
-    // 账户统计合约选择（若未填合约 → 默认 USDT）
-    const accTokenContract = (contract && contract.trim()) || DEFAULT_USDT_ON_ETH;
-    let inSum = 0;
-    let outSum = 0;
-    const inAddr = new Set<string>();
-    const outAddr = new Set<string>();
-    let firstTs: number | undefined;
-    let lastTs: number | undefined;
-    let lastOutTs: number | undefined;
-
-    while (!cancelRef.current.cancelled) {
-      const key = pick(apiKeys) || "";
-      if (!key) {
-        setNeedApiKey(true);
-        setErrors((prev) =>
-          prev.some((e) => e.message === "请输入有效的 API Key") ? prev : [...prev, { address: "", message: "请输入有效的 API Key" }]
-        );
-        updateStatus({ status: "error", message: "" });
-        break;
-      }
-
-      const params: Record<string, string> = {
+  // 链上余额：原生币 balance + 所选 ERC20 tokenbalance（当前值，不受时间窗口影响）；失败只记错误，不影响该地址状态
+  async function fetchChainBalances(addr: string): Promise<void> {
+    const out: Record<string, string> = {};
+    const one = async (key: string, label: string, params: Record<string, string>) => {
+      const { ok, status, message, errorText, reason } = await etherscanRequest({
         module: "account",
-        action: "tokentx",
         address: addr,
-        startblock: String(startBlock),
-        endblock: String(endBlock),
-        sort: "asc",
-        page: "1",
-        offset: String(offset),
-        apikey: key,
-      };
-      // 结果收集：若你在“参数”里填了合约，则只取该合约；否则取全部ERC-20（便于 All/TokenTransfers 展示更完整）
-      if (contract.trim()) params["contractaddress"] = contract.trim();
-
-      const { ok, status, message, result, errorText } = await etherscanRequest(params);
-      const combo = `${message} ${errorText || ""}`;
-
-      if (!ok) {
-        if (message === "retry") {
-          continue;
-        }
-        setErrors((es) => [...es, { address: addr, message: `${status || ""} ${message}`.trim() }]);
-        updateStatus({ status: "error", message });
-        break;
-      }
-      if (String(status) === "0") {
-        if (/No transactions found/i.test(message)) {
-          updateStatus({ status: "done" });
-          break;
-        }
-        if (/Max rate|rate limit|limit reached|busy|throttle/i.test(combo)) {
-          await sleep(1500);
-          continue;
-        }
-        setErrors((es) => [...es, { address: addr, message: message || "查询失败" }]);
-        updateStatus({ status: "error", message });
-        break;
-      }
-
-      if (!Array.isArray(result) || result.length === 0) {
-        updateStatus({ status: "done" });
-        break;
-      }
-
-      let newAdded = 0;
-      for (const it of result) {
-        const id = String(it?.hash || "");
-        const from = String(it?.from || "");
-        const to = String(it?.to || "");
-        const rawVal = String(it?.value ?? "0");
-        const dec = Number(it?.tokenDecimal || 0) || 0;
-        const symbol = String(it?.tokenSymbol || "");
-        const ts = Number(it?.timeStamp ? Number(it.timeStamp) * 1000 : 0);
-        const tokenAddr = String(it?.contractAddress || "");
-        const compKey = makeCompositeKey({
-          transaction_id: id,
-          from,
-          to,
-          value: rawVal,
-          decimals: dec,
-          symbol,
-          block_timestamp: ts,
-          token_address: tokenAddr,
-        });
-        if (!seen.has(compKey)) {
-          seen.add(compKey);
-          const scaled = scaleAmount(rawVal, dec);
-          rowsOut.push({
-            地址: addr,
-            哈希: id,
-            转入地址: from,
-            转出地址: to,
-            数量: scaled,
-            代币: symbol,
-            时间: formatTime(ts),
-          });
-          newAdded++;
-
-          // —— 账户情况（仅统计 accTokenContract） —— //
-          if (tokenAddr.toLowerCase() === accTokenContract.toLowerCase()) {
-            // 基础时间
-            if (firstTs === undefined || ts < firstTs) firstTs = ts;
-            if (lastTs === undefined || ts > lastTs) lastTs = ts;
-
-            const valNum = Number(scaleAmount(rawVal, dec) || 0);
-            if (to.toLowerCase() === addr.toLowerCase()) {
-              inSum += valNum;
-              if (from) inAddr.add(from.toLowerCase());
-            } else if (from.toLowerCase() === addr.toLowerCase()) {
-              outSum += valNum;
-              if (to) outAddr.add(to.toLowerCase());
-              if (lastOutTs === undefined || ts > lastOutTs) lastOutTs = ts;
-            }
-          }
-        }
-      }
-      pushRowsERC20(addr, rowsOut.slice(-newAdded));
-      updateStatus((prev => ({ pages: (prev as any).pages ? (prev as any).pages + 1 : 1 })) as any);
-
-      // 推进游标
-      const maxBlock = Number(result[result.length - 1]?.blockNumber || 0);
-      if (result.length < offset) {
-        updateStatus({ status: "done" });
-        break;
-      }
-      if (newAdded === 0) {
-        safetyNoProgress++;
-        if (safetyNoProgress >= 2) {
-          startBlock = maxBlock + 1;
-          safetyNoProgress = 0;
-        }
-      } else {
-        safetyNoProgress = 0;
-        startBlock = maxBlock;
+        tag: "latest",
+        ...params,
+      });
+      if (ok && String(status) === "1" && /^\d+$/.test(errorText || "")) {
+        out[key] = errorText as string;
+        return;
       }
-
-      const tiny = result.length <= 1;
-      await sleep(tiny ? Math.max(pauseMs * 5, 2000) : pauseMs);
+      if (reason === "aborted") return;
+      if (reason === "no-key" || reason === "unauthorized") reportKeyMissing();
+      setErrors((es) => [...es, { address: addr, message: `链上余额查询失败（${label}）：${errorText || message || "未知错误"}` }]);
+    };
+    await one("native", chain.nativeSymbol, { action: "balance" });
+    for (const c of accTokens) {
+      if (cancelRef.current.cancelled) break;
+      await one(c.toLowerCase(), middleEllipsis(c, 6, 4), { action: "tokenbalance", contractaddress: c });
     }
-
-    // 汇总账户情况
-    const balance = (inSum - outSum).toString();
-    mergeAcctStat(addr, {
-      balanceToken: balance,
-      firstTxTime: firstTs ? formatTime(firstTs) : undefined,
-      lastTxTime: lastTs ? formatTime(lastTs) : undefined,
-      lastOutTime: lastOutTs ? formatTime(lastOutTs) : undefined,
-      inAmount: inSum.toString(),
-      outAmount: outSum.toString(),
-      inCount: inAddr.size ? undefined as any : undefined, // 用下方真正的计数
-      outCount: outAddr.size ? undefined as any : undefined,
-      inAddrCount: inAddr.size,
-      outAddrCount: outAddr.size,
-    });
-
-    return rowsOut;
+    setChainBalances((prev) => ({ ...prev, [addr]: out }));
   }
 
-  // —— 外部交易（ETH）：按区块游标 —— //
-  async function fetchNormalForAddress(addr: string): Promise<any[]> {
-    const rowsOut: any[] = [];
-    const seen = new Set<string>();
-    const offset = 10000;
-    let startBlock = 0;
-    const endBlock = 99999999;
-    let safetyNoProgress = 0;
+  // 地址情报：排队 / 软超时 / 缓存在 shared/intel 中；来源失败只记在“情报来源”列，页面结构变化才报错
+  async function enrichIntel(addr: string): Promise<void> {
+    const r = await intel.lookup(addr, chain.id, providersOf(intelConfig), () => cancelRef.current.cancelled);
+    if (cancelRef.current.cancelled) return;
+    for (const f of r.failed) {
+      if (!f.drift) continue;
+      const message = `${f.source}：${f.message}`;
+      setErrors((es) => (es.some((x) => x.message === message) ? es : [...es, { address: addr, message }]));
+    }
+    setIntelTags((prev) => ({ ...prev, [addr]: intelTagsOf(r) }));
+  }
 
-    const updateStatus = (patch: any) => setAddrStatus((prev) => ({ ...prev, [addr]: { ...prev[addr], ...patch } }));
+  // —— 翻页抓取（Worker 中）：每页进度计入地址状态并刷新账户情况；结束时按结束方式更新状态 —— //
+  async function crawlForAddress(addr: string, run: (onPage: (p: { added: number; pages: number }) => void) => Promise<CrawlResult>) {
+    const updateStatus = (patch: Partial<{ status: AddrState; count: number; pages: number; message?: string }>) =>
+      setAddrStatus((prev) => ({ ...prev, [addr]: { ...prev[addr], ...patch } }));
     updateStatus({ status: "running", pages: 0, count: 0 });
-
-    while (!cancelRef.current.cancelled) {
-      const key = pick(apiKeys) || "";
-      if (!key) {
-        setNeedApiKey(true);
-        setErrors((prev) =>
-          prev.some((e) => e.message === "请输入有效的 API Key") ? prev : [...prev, { address: "", message: "请输入有效的 API Key" }]
-        );
-        updateStatus({ status: "error", message: "" });
-        break;
-      }
-      const params: Record<string, string> = {
-        module: "account",
-        action: "txlist",
-        address: addr,
-        startblock: String(startBlock),
-        endblock: String(endBlock),
-        sort: "asc",
-        page: "1",
-        offset: String(offset),
-        apikey: key,
-      };
-
-      const { ok, status, message, result, errorText } = await etherscanRequest(params);
-      const combo = `${message} ${errorText || ""}`;
-
-      if (!ok) {
-        if (message === "retry") {
-          continue;
-        }
-        setErrors((es) => [...es, { address: addr, message: `${status || ""} ${message}`.trim() }]);
-        updateStatus({ status: "error", message });
-        break;
-      }
-      if (String(status) === "0") {
-        if (/No transactions found/i.test(message)) {
-          updateStatus({ status: "done" });
-          break;
-        }
-        if (/Max rate|rate limit|limit reached|busy|throttle/i.test(combo)) {
-          await sleep(1500);
-          continue;
-        }
-        setErrors((es) => [...es, { address: addr, message: message || "查询失败" }]);
-        updateStatus({ status: "error", message });
-        break;
-      }
-
-      if (!Array.isArray(result) || result.length === 0) {
-        updateStatus({ status: "done" });
-        break;
-      }
-
-      let newAdded = 0;
-      for (const it of result) {
-        const id = String(it?.hash || "");
-        const from = String(it?.from || "");
-        const to = String(it?.to || "");
-        const rawVal = String(it?.value ?? "0");
-        const dec = 18;
-        const symbol = "ETH";
-        const ts = Number(it?.timeStamp ? Number(it.timeStamp) * 1000 : 0);
-        const compKey = makeCompositeKey({
-          transaction_id: id,
-          from,
-          to,
-          value: rawVal,
-          decimals: dec,
-          symbol,
-          block_timestamp: ts,
-          token_address: "",
-        });
-        if (!seen.has(compKey)) {
-          seen.add(compKey);
-          rowsOut.push({
-            地址: addr,
-            哈希: id,
-            转入地址: from,
-            转出地址: to,
-            数量: scaleAmount(rawVal, dec),
-            代币: symbol,
-            时间: formatTime(ts),
-          });
-          newAdded++;
-
-          // 账户情况的 first/last 也可以参考所有交易的时间（更全面）
-          const cur = ts;
-          setAcctStats((prev) => {
-            const old = prev[addr];
-            const f = old?.firstTxTime ? new Date(old.firstTxTime).getTime() : undefined;
-            const l = old?.lastTxTime ? new Date(old.lastTxTime).getTime() : undefined;
-            const lo = old?.lastOutTime ? new Date(old.lastOutTime).getTime() : undefined;
-            const nextFirst = f === undefined || cur < f ? formatTime(cur) : old?.firstTxTime;
-            const nextLast = l === undefined || cur > l ? formatTime(cur) : old?.lastTxTime;
-            const nextOut =
-              from.toLowerCase() === addr.toLowerCase()
-                ? (lo === undefined || cur > lo ? formatTime(cur) : old?.lastOutTime)
-                : old?.lastOutTime;
-            return {
-              ...prev,
-              [addr]: {
-                address: addr,
-                balanceToken: old?.balanceToken || "0",
-                firstTxTime: nextFirst,
-                lastTxTime: nextLast,
-                lastOutTime: nextOut,
-                inAmount: old?.inAmount || "0",
-                outAmount: old?.outAmount || "0",
-                inCount: old?.inCount || 0,
-                outCount: old?.outCount || 0,
-                inAddrCount: old?.inAddrCount || 0,
-                outAddrCount: old?.outAddrCount || 0,
-                label: old?.label,
-              },
-            };
-          });
-        }
-      }
-      pushRowsNormal(addr, rowsOut.slice(-newAdded));
-      updateStatus((prev => ({ pages: (prev as any).pages ? (prev as any).pages + 1 : 1 })) as any);
-
-      const maxBlock = Number(result[result.length - 1]?.blockNumber || 0);
-      if (result.length < offset) {
-        updateStatus({ status: "done" });
-        break;
-      }
-      if (newAdded === 0) {
-        safetyNoProgress++;
-        if (safetyNoProgress >= 2) {
-          startBlock = maxBlock + 1;
-          safetyNoProgress = 0;
-        }
-      } else {
-        safetyNoProgress = 0;
-        startBlock = maxBlock;
-      }
-
-      const tiny = result.length <= 1;
-      await sleep(tiny ? Math.max(pauseMs * 5, 2000) : pauseMs);
+    const r = await run(({ added, pages }) => {
+      bumpCount(addr, added);
+      updateStatus({ pages });
+      void refreshAcctStats(addr);
+    });
+    for (const message of r.notes) setErrors((es) => [...es, { address: addr, message }]);
+    if (r.end === "done") updateStatus({ status: "done" });
+    else if (r.end === "key") {
+      reportKeyMissing();
+      updateStatus({ status: "error", message: "" });
+    } else if (r.end === "error") {
+      setErrors((es) => [...es, { address: addr, message: r.message }]);
+      updateStatus({ status: "error", message: r.message });
     }
-    return rowsOut;
+    return r.count;
   }
 
-  // —— 内部交易：按区块游标 —— //
-  async function fetchInternalForAddress(addr: string): Promise<any[]> {
-    const rowsOut: any[] = [];
-    const seen = new Set<string>();
-    const offset = 10000;
-    let startBlock = 0;
-    const endBlock = 99999999;
-    let safetyNoProgress = 0;
+  // —— 区块游标分页（ERC20 / 外部 / 内部 / NFT / 信标链提款 共用） —— //
+  // 翻页、行映射、去重、账户聚合与断点都在 Worker 中完成；NFT 写入独立的 nft 表，NFT 与信标链提款都不进入 All
+  function fetchByBlockCursor(addr: string, kind: EvmCursorKind, range: BlockRange, jobId?: string): Promise<number> {
+    return crawlForAddress(addr, (onPage) =>
+      rowStore.crawl(
+        {
+          kind: "evm-cursor",
+          api: etherscanApi(),
+          addr,
+          fetch: kind,
+          action: KIND_ACTION[kind],
+          range,
+          contract,
+          accTokens,
+          countFailed,
+          nativeSymbol: chain.nativeSymbol,
+          pauseMs,
+          jobId,
+        },
+        { onPage }
+      )
+    );
+  }
 
-    const updateStatus = (patch: any) => setAddrStatus((prev) => ({ ...prev, [addr]: { ...prev[addr], ...patch } }));
-    updateStatus({ status: "running", pages: 0, count: 0 });
+  // —— 出块奖励（getminedblocks）：不支持区块范围参数，按页码翻页，Worker 中按区块范围过滤 —— //
+  function fetchMinedForAddress(addr: string, range: BlockRange, jobId?: string): Promise<number> {
+    return crawlForAddress(addr, (onPage) =>
+      rowStore.crawl(
+        {
+          kind: "evm-mined",
+          api: etherscanApi(),
+          addr,
+          action: KIND_ACTION.mined,
+          range,
+          nativeSymbol: chain.nativeSymbol,
+          pauseMs,
+          jobId,
+        },
+        { onPage }
+      )
+    );
+  }
 
-    while (!cancelRef.current.cancelled) {
-      const key = pick(apiKeys) || "";
-      if (!key) {
-        setNeedApiKey(true);
-        setErrors((prev) =>
-          prev.some((e) => e.message === "请输入有效的 API Key") ? prev : [...prev, { address: "", message: "请输入有效的 API Key" }]
+  const fetchErc20ForAddress = (addr: string, range: BlockRange, jobId?: string) =>
+    fetchByBlockCursor(addr, "erc20", range, jobId);
+  const fetchNormalForAddress = (addr: string, range: BlockRange, jobId?: string) =>
+    fetchByBlockCursor(addr, "normal", range, jobId);
+  const fetchInternalForAddress = (addr: string, range: BlockRange, jobId?: string) =>
+    fetchByBlockCursor(addr, "internal", range, jobId);
+  const fetchErc721ForAddress = (addr: string, range: BlockRange, jobId?: string) =>
+    fetchByBlockCursor(addr, "erc721", range, jobId);
+  const fetchErc1155ForAddress = (addr: string, range: BlockRange, jobId?: string) =>
+    fetchByBlockCursor(addr, "erc1155", range, jobId);
+  const fetchBeaconForAddress = (addr: string, range: BlockRange, jobId?: string) =>
+    fetchByBlockCursor(addr, "beacon", range, jobId);
+
+  // —— 持仓快照：原生币 balance + 代币列表（Worker 中查询：addresstokenbalance，不支持时回退为 tokentx 中出现过的代币逐个 tokenbalance） —— //
+  async function fetchHoldingsForAddress(addr: string): Promise<void> {
+    const updateStatus = (patch: Partial<{ status: AddrState; count: number; message?: string }>) =>
+      setAddrStatus((prev) => ({ ...prev, [addr]: { ...prev[addr], ...patch } }));
+    updateStatus({ status: "running" });
+
+    const r = await rowStore.evmHoldings({ api: etherscanApi(), addr, nativeSymbol: chain.nativeSymbol, nativeName: chain.name });
+    if (r.end === "key") reportKeyMissing();
+    if (r.end === "key" || r.end === "error") throw new Error(r.message);
+    if (r.end === "aborted" || cancelRef.current.cancelled) return;
+    const items = r.items;
+
+    if (holdingUsd) {
+      try {
+        const nativeUsd = await fetchNativeUsdPrice(chain.coingeckoNativeId);
+        const prices = await fetchTokenUsdPrices(
+          chain.coingeckoPlatform,
+          items.slice(1).map((it) => it.contract)
         );
-        updateStatus({ status: "error", message: "" });
-        break;
+        for (const it of items) it.usd = it.contract ? prices[it.contract] : nativeUsd;
+      } catch (e) {
+        setErrors((es) => [...es, { address: addr, message: `USD 估值失败：${e instanceof Error ? e.message : e}` }]);
       }
-      const params: Record<string, string> = {
-        module: "account",
-        action: "txlistinternal",
-        address: addr,
-        startblock: String(startBlock),
-        endblock: String(endBlock),
-        sort: "asc",
-        page: "1",
-        offset: String(offset),
-        apikey: key,
-      };
-
-      const { ok, status, message, result, errorText } = await etherscanRequest(params);
-      const combo = `${message} ${errorText || ""}`;
-
-      if (!ok) {
-        if (message === "retry") {
-          continue;
-        }
-        setErrors((es) => [...es, { address: addr, message: `${status || ""} ${message}`.trim() }]);
-        updateStatus({ status: "error", message });
-        break;
-      }
-      if (String(status) === "0") {
-        if (/No transactions found/i.test(message)) {
-          updateStatus({ status: "done" });
-          break;
-        }
-        if (/Max rate|rate limit|limit reached|busy|throttle/i.test(combo)) {
-          await sleep(1500);
-          continue;
-        }
-        setErrors((es) => [...es, { address: addr, message: message || "查询失败" }]);
-        updateStatus({ status: "error", message });
-        break;
-      }
-
-      if (!Array.isArray(result) || result.length === 0) {
-        updateStatus({ status: "done" });
-        break;
-      }
-
-      let newAdded = 0;
-      for (const it of result) {
-        const id = String(it?.hash || "");
-        const from = String(it?.from || "");
-        const to = String(it?.to || "");
-        const rawVal = String(it?.value ?? "0");
-        const dec = 18;
-        const symbol = "ETH";
-        const ts = Number(it?.timeStamp ? Number(it.timeStamp) * 1000 : 0);
-        const compKey = makeCompositeKey({
-          transaction_id: id,
-          from,
-          to,
-          value: rawVal,
-          decimals: dec,
-          symbol,
-          block_timestamp: ts,
-          token_address: "",
-        });
-        if (!seen.has(compKey)) {
-          seen.add(compKey);
-          rowsOut.push({
-            地址: addr,
-            哈希: id,
-            转入地址: from,
-            转出地址: to,
-            数量: scaleAmount(rawVal, dec),
-            代币: symbol,
-            时间: formatTime(ts),
-          });
-          newAdded++;
-
-          // 时间信息同样用于补全账户时间
-          const cur = ts;
-          setAcctStats((prev) => {
-            const old = prev[addr];
-            const f = old?.firstTxTime ? new Date(old.firstTxTime).getTime() : undefined;
-            const l = old?.lastTxTime ? new Date(old.lastTxTime).getTime() : undefined;
-            const lo = old?.lastOutTime ? new Date(old.lastOutTime).getTime() : undefined;
-            const nextFirst = f === undefined || cur < f ? formatTime(cur) : old?.firstTxTime;
-            const nextLast = l === undefined || cur > l ? formatTime(cur) : old?.lastTxTime;
-            const nextOut =
-              from.toLowerCase() === addr.toLowerCase()
-                ? (lo === undefined || cur > lo ? formatTime(cur) : old?.lastOutTime)
-                : old?.lastOutTime;
-            return {
-              ...prev,
-              [addr]: {
-                address: addr,
-                balanceToken: old?.balanceToken || "0",
-                firstTxTime: nextFirst,
-                lastTxTime: nextLast,
-                lastOutTime: nextOut,
-                inAmount: old?.inAmount || "0",
-                outAmount: old?.outAmount || "0",
-                inCount: old?.inCount || 0,
-                outCount: old?.outCount || 0,
-                inAddrCount: old?.inAddrCount || 0,
-                outAddrCount: old?.outAddrCount || 0,
-                label: old?.label,
-              },
-            };
-          });
-        }
-      }
-      pushRowsInternal(addr, rowsOut.slice(-newAdded));
-      updateStatus((prev => ({ pages: (prev as any).pages ? (prev as any).pages + 1 : 1 })) as any);
-
-      const maxBlock = Number(result[result.length - 1]?.blockNumber || 0);
-      if (result.length < offset) {
-        updateStatus({ status: "done" });
-        break;
-      }
-      if (newAdded === 0) {
-        safetyNoProgress++;
-        if (safetyNoProgress >= 2) {
-          startBlock = maxBlock + 1;
-          safetyNoProgress = 0;
-        }
-      } else {
-        safetyNoProgress = 0;
-        startBlock = maxBlock;
-      }
-
-      const tiny = result.length <= 1;
-      await sleep(tiny ? Math.max(pauseMs * 5, 2000) : pauseMs);
     }
-    return rowsOut;
+
+    // 快照：先清掉该地址上一次的持仓行
+    await rowStore.clear({ tables: ["holdings"], addr });
+    const { added } = await rowStore.ingest({ table: "holdings", addr, mapper: "holding", items });
+    updateStatus({ count: added });
   }
 
-  async function fetchAllForAddress(addr: string): Promise<void> {
+  async function fetchAllForAddress(addr: string, range: BlockRange, jobId?: string): Promise<void> {
     // 根据 queryType 决定拉取范围
+    if (queryType === "holdings") {
+      await fetchHoldingsForAddress(addr);
+      return;
+    }
     if (queryType === "normal") {
-      await fetchNormalForAddress(addr);
+      await fetchNormalForAddress(addr, range, jobId);
       return;
     }
     if (queryType === "internal") {
-      await fetchInternalForAddress(addr);
+      await fetchInternalForAddress(addr, range, jobId);
       return;
     }
     if (queryType === "erc20") {
-      await fetchErc20ForAddress(addr);
+      await fetchErc20ForAddress(addr, range, jobId);
+      return;
+    }
+    if (queryType === "erc721") {
+      await fetchErc721ForAddress(addr, range, jobId);
+      return;
+    }
+    if (queryType === "erc1155") {
+      await fetchErc1155ForAddress(addr, range, jobId);
+      return;
+    }
+    if (queryType === "beacon") {
+      await fetchBeaconForAddress(addr, range, jobId);
+      return;
+    }
+    if (queryType === "mined") {
+      await fetchMinedForAddress(addr, range, jobId);
       return;
     }
     // all
-    await fetchNormalForAddress(addr);
+    await fetchNormalForAddress(addr, range, jobId);
+    if (cancelRef.current.cancelled) return;
+    await fetchInternalForAddress(addr, range, jobId);
     if (cancelRef.current.cancelled) return;
-    await fetchInternalForAddress(addr);
+    await fetchErc20ForAddress(addr, range, jobId);
+    if (chain.id !== "eth" || cancelRef.current.cancelled) return;
+    await fetchBeaconForAddress(addr, range, jobId);
     if (cancelRef.current.cancelled) return;
-    await fetchErc20ForAddress(addr);
+    await fetchMinedForAddress(addr, range, jobId);
   }
 
   // —— 批量 / 单地址 控制（覆盖式） —— //
-  async function runAll(): Promise<void> {
+  async function runAll(resume?: JobRecord): Promise<void> {
     if (!addresses.length) return;
+    setIsRunning(true);
+    cancelRef.current.cancelled = false;
+    void rowStore.reset();
+
+    // 先校验输入：时间窗口 → 区块范围（每次运行重新换算，结果相同）；失败时保留旧结果与可继续的断点
+    let range: BlockRange;
+    try {
+      range = await resolveBlockRange();
+    } catch (e) {
+      setErrors((es) => [...es, { address: "", message: (e instanceof Error && e.message) || "时间换算区块失败" }]);
+      setIsRunning(false);
+      return;
+    }
+
+    setPendingJob(null);
+    // 地址列表或查询参数被改动过则不再沿用旧断点
+    const reuse =
+      resume &&
+      resume.addresses.length === addresses.length &&
+      resume.addresses.every((a, i) => a === addresses[i]) &&
+      (resume.params.network ?? "eth") === network &&
+      String(resume.params.endpoint ?? "").replace(/\/$/, "") === endpoint.replace(/\/$/, "") &&
+      resume.params.contract === contract &&
+      (resume.params.statTokens ?? []).join(",") === statTokens.join(",") &&
+      (resume.params.countFailed ?? false) === countFailed &&
+      resume.params.queryType === queryType &&
+      (resume.params.startTime ?? "") === startTime &&
+      (resume.params.endTime ?? "") === endTime;
 
     // 覆盖：清空旧数据
     clearResultsOnly();
@@ -961,8 +1117,22 @@ export default function EthView() {
     addresses.forEach((a) => (resetSt[a] = { status: "pending", count: 0, pages: 0 }));
     setAddrStatus(resetSt);
 
-    setIsRunning(true);
-    cancelRef.current.cancelled = false;
+    // 断点任务：新建或沿用；IndexedDB 不可用时照常查询，只是无法恢复（持仓快照是当前值，不建断点任务）
+    let jobId: string | undefined = reuse ? resume.id : undefined;
+    if (queryType !== "holdings") {
+      try {
+        const kinds = queryType === "all" ? allKindsOf(chain) : [queryType];
+        if (jobId) await setJobStatus(jobId, "running");
+        else jobId = await createJob(
+            "eth",
+            addresses,
+            { network, apiMode, endpoint, contract, statTokens, countFailed, queryType, startTime, endTime },
+            kinds
+          );
+      } catch {
+        jobId = undefined;
+      }
+    }
 
     let cursor = 0;
     const worker = async () => {
@@ -971,7 +1141,11 @@ export default function EthView() {
         if (i >= addresses.length) return;
         const addr = addresses[i];
         try {
-          await fetchAllForAddress(addr);
+          await fetchAllForAddress(addr, range, jobId);
+          if (!cancelRef.current.cancelled && queryType !== "holdings") {
+            await fetchChainBalances(addr);
+            void enrichIntel(addr);
+          }
           setAddrStatus((prev) => ({ ...prev, [addr]: { ...prev[addr], status: "done" } }));
         } catch (e: any) {
           setErrors((es) => [...es, { address: addr, message: e?.message || "未知错误" }]);
@@ -981,9 +1155,13 @@ export default function EthView() {
     };
     const workers = Array.from({ length: Math.max(1, concurrency) }, () => worker());
     await Promise.all(workers);
-    // 最后把 in/out 笔数修正为真正统计
-    finalizeCounts();
     setIsRunning(false);
+
+    // 全部完成则删除断点；否则保留为可继续
+    if (jobId) {
+      const complete = await settleJob(jobId).catch(() => true);
+      if (!complete) setPendingJob(await getJob(jobId).catch(() => null));
+    }
   }
 
   async function runOne(): Promise<void> {
@@ -992,65 +1170,45 @@ export default function EthView() {
     if (!addr) return;
 
     // 未填 Key：只提示
-    if (apiKeys.length === 0) {
-      setNeedApiKey(true);
-      setErrors((prev) =>
-        prev.some((e) => e.message === "请输入有效的 API Key") ? prev : [...prev, { address: "", message: "请输入有效的 API Key" }]
-      );
+    if (apiKeys.length === 0 && !keyOptional) {
+      reportKeyMissing();
+      return;
+    }
+
+    setIsRunning(true);
+    cancelRef.current.cancelled = false;
+    void rowStore.reset();
+    let range: BlockRange;
+    try {
+      range = await resolveBlockRange();
+    } catch (e) {
+      setErrors((es) => [...es, { address: "", message: (e instanceof Error && e.message) || "时间换算区块失败" }]);
+      setIsRunning(false);
       return;
     }
 
     // 覆盖：清空旧数据，仅查询该地址
     setAddresses([addr]);
     setAddrStatus({ [addr]: { status: "pending", count: 0, pages: 0 } });
-    setValidMap({ [addr]: isValidEthAddress(addr) ? "valid" : "invalid" });
+    setValidMap({ [addr]: checkEthAddress(addr) });
     clearResultsOnly();
     setErrors([]);
 
-    setIsRunning(true);
-    cancelRef.current.cancelled = false;
     try {
-      await fetchAllForAddress(addr);
+      await fetchAllForAddress(addr, range);
+      if (!cancelRef.current.cancelled && queryType !== "holdings") {
+        await fetchChainBalances(addr);
+        void enrichIntel(addr);
+      }
       setAddrStatus((prev) => ({ ...prev, [addr]: { ...prev[addr], status: "done" } }));
     } catch (e: any) {
       setErrors((es) => [...es, { address: addr, message: e?.message || "未知错误" }]);
       setAddrStatus((prev) => ({ ...prev, [addr]: { ...prev[addr], status: "error", message: String(e || "") } }));
     } finally {
-      finalizeCounts();
       setIsRunning(false);
     }
   }
 
-  // 修正账户笔数（在所有拉取完之后按地址聚合ERC20该合约的 in/out 笔数）
-  function finalizeCounts() {
-    const accToken = (contract && contract.trim()) || DEFAULT_USDT_ON_ETH;
-    const byAddr: Record<string, { inCnt: number; outCnt: number }> = {};
-    for (const r of rowsERC20) {
-      const a = r.地址 as string;
-      // rowsERC20 可能是多种代币（当参数留空）——只统计默认USDT或选中合约的
-      // 这里无法直接用 tokenAddress；Etherscan tokentx 返回中我们没保留合约列在最终行
-      // 采用近似：如果你在“参数”中填了合约，则 rowsERC20 已被该合约过滤；否则 rowsERC20 包含全部代币，我们仅统计符号为 USDT 的记录
-      const symbol: string = String(r.代币 || "");
-      const accept =
-        contract.trim()
-          ? true
-          : symbol.toUpperCase() === "USDT"; // 参数没填 → 仅统计 USDT
-      if (!accept) continue;
-
-      if (!byAddr[a]) byAddr[a] = { inCnt: 0, outCnt: 0 };
-      if ((r.转入地址 || "").toLowerCase() === a.toLowerCase()) byAddr[a].inCnt++;
-      if ((r.转出地址 || "").toLowerCase() === a.toLowerCase()) byAddr[a].outCnt++;
-    }
-    setAcctStats((prev) => {
-      const next: Record<string, AccountStat> = { ...prev };
-      for (const a of Object.keys(next)) {
-        const io = byAddr[a] || { inCnt: 0, outCnt: 0 };
-        next[a] = { ...next[a], inCount: io.inCnt, outCount: io.outCnt };
-      }
-      return next;
-    });
-  }
-
   function addSingleToList(): void {
     const input = document.getElementById("eth-single") as HTMLInputElement;
     const a = input?.value?.trim();
@@ -1059,7 +1217,7 @@ export default function EthView() {
       const next = [...addresses, a];
       setAddresses(next);
       setAddrStatus((prev) => ({ ...prev, [a]: { status: "pending", count: 0, pages: 0 } }));
-      setValidMap((prev) => ({ ...prev, [a]: isValidEthAddress(a) ? "valid" : "invalid" }));
+      setValidMap((prev) => ({ ...prev, [a]: checkEthAddress(a) }));
     }
     input.value = "";
     setInputValue("");
@@ -1068,6 +1226,7 @@ export default function EthView() {
 
   function stopAll(): void {
     cancelRef.current.cancelled = true;
+    void rowStore.abort();
     setIsRunning(false);
   }
 
@@ -1087,6 +1246,7 @@ export default function EthView() {
     setErrorAlertVisible(false);
     clearResultsOnly();
     setErrors([]);
+    setPendingJob(null);
     if (errorTimerRef.current) {
       clearTimeout(errorTimerRef.current);
       errorTimerRef.current = null;
@@ -1116,6 +1276,11 @@ export default function EthView() {
       delete n[addr];
       return n;
     });
+    setChainBalances((prev) => {
+      const n = { ...prev };
+      delete n[addr];
+      return n;
+    });
   }
 
   function replaceAddress(oldAddr: string, newAddr: string): void {
@@ -1132,7 +1297,7 @@ export default function EthView() {
       const { [oldAddr]: oldState, ...rest } = prev as any;
       return { ...rest, [newAddr]: oldState || { status: "pending", count: 0, pages: 0 } } as any;
     });
-    setValidMap((prev) => ({ ...prev, [newAddr]: isValidEthAddress(newAddr) ? "valid" : "invalid" }));
+    setValidMap((prev) => ({ ...prev, [newAddr]: checkEthAddress(newAddr) }));
     setRowCandidates((prev) => {
       const n = { ...prev };
       delete n[oldAddr];
@@ -1149,7 +1314,14 @@ export default function EthView() {
       const n = { ...prev };
       const old = n[oldAddr];
       delete n[oldAddr];
-      if (old && !n[newAddr]) n[newAddr] = { ...old, address: newAddr };
+      if (old && !n[newAddr]) n[newAddr] = old;
+      return n;
+    });
+    setChainBalances((prev) => {
+      const n = { ...prev };
+      const old = n[oldAddr];
+      delete n[oldAddr];
+      if (old && !n[newAddr]) n[newAddr] = old;
       return n;
     });
   }
@@ -1157,7 +1329,7 @@ export default function EthView() {
   async function validateMany(addrs: string[]) {
     const vm: Record<string, ValidState> = {};
     for (const a of addrs) {
-      vm[a] = isValidEthAddress(a) ? "valid" : "invalid";
+      vm[a] = checkEthAddress(a);
     }
     setValidMap((prev) => ({ ...prev, ...vm }));
   }
@@ -1184,7 +1356,7 @@ export default function EthView() {
     const input = document.getElementById("eth-single") as HTMLInputElement;
     if (input) input.value = c;
     setInputValue(c);
-    setInputValidIcon(isValidEthAddress(c) ? "valid" : "invalid");
+    setInputValidIcon(checkEthAddress(c));
     setInputSuggestOpen(false);
   }
 
@@ -1235,6 +1407,15 @@ export default function EthView() {
     const base = "rounded-full px-2 h-6 inline-flex items-center text-xs";
     if (v === "valid") return <span className={`${base} bg-emerald-500/10 text-emerald-700 border border-emerald-200`}>正确</span>;
     if (v === "invalid") return <span className={`${base} bg-rose-500/10 text-rose-700 border border-rose-200`}>错误</span>;
+    if (v === "checksum")
+      return (
+        <span
+          className={`${base} bg-amber-500/10 text-amber-700 border border-amber-200`}
+          title="大小写与 EIP-55 校验和不符，可能有字符输错"
+        >
+          校验和不符
+        </span>
+      );
     if (v === "checking") return <span className={`${base} bg-neutral-200 text-neutral-700`}>校验中…</span>;
     return <span className={`${base} bg-neutral-100 text-neutral-600`}>未知</span>;
   };
@@ -1244,7 +1425,9 @@ export default function EthView() {
     <div className="p-4 md:p-6">
       <Card className="rounded-2xl shadow-lg border border-neutral-200/70 bg-white/90">
         <CardHeader className="pb-2">
-          <CardTitle className="text-2xl font-bold">以太坊 Ethereum · 交易 & ERC20</CardTitle>
+          <CardTitle className="text-2xl font-bold">
+            {chain.id === "eth" ? "以太坊 Ethereum" : `EVM · ${chain.name}`} · 交易 & ERC20
+          </CardTitle>
           <CardDescription className="text-muted-foreground">
             Transactions · Internal · Token Transfers (ERC-20) · Excel 批量 / 单地址 · 并发 & 限速 · 导出
           </CardDescription>
@@ -1266,6 +1449,11 @@ export default function EthView() {
               {inputValidIcon === "invalid" && (
                 <XCircle className="absolute right-2 top-1/2 -translate-y-1/2 h-5 w-5 text-rose-600" />
               )}
+              {inputValidIcon === "checksum" && (
+                <AlertTriangle className="absolute right-2 top-1/2 -translate-y-1/2 h-5 w-5 text-amber-500">
+                  <title>大小写与 EIP-55 校验和不符</title>
+                </AlertTriangle>
+              )}
             </div>
 
             <Button variant="outline" className="rounded-2xl hover:ring-1 hover:ring-neutral-300" onClick={addSingleToList}>
@@ -1380,6 +1568,53 @@ export default function EthView() {
 
                 <TabsContent value="params" className="pt-4">
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="sm:col-span-2">
+                      <Label className="text-sm text-muted-foreground">网络</Label>
+                      <div className="mt-2 flex flex-wrap gap-2">
+                        {EVM_CHAINS.map((c) => (
+                          <Button
+                            key={c.id}
+                            variant={network === c.id ? "default" : "outline"}
+                            disabled={isRunning}
+                            className={`rounded-xl ${network === c.id ? "bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white hover:from-indigo-500 hover:to-fuchsia-500" : ""}`}
+                            onClick={() => selectNetwork(c.id)}
+                          >
+                            {c.name}
+                          </Button>
+                        ))}
+                      </div>
+                      <div className="mt-1 text-xs text-neutral-500">
+                        chainid {chain.chainId} · 原生币 {chain.nativeSymbol} · 默认稳定币{" "}
+                        {chain.stablecoins.map((t) => t.symbol).join(" / ")} ·{" "}
+                        <a className="underline" href={chain.explorer} target="_blank" rel="noreferrer">
+                          {new URL(chain.explorer).host}
+                        </a>
+                      </div>
+                    </div>
+
+                    <div className="sm:col-span-2">
+                      <Label className="text-sm text-muted-foreground">API 入口</Label>
+                      <div className="mt-2 flex flex-wrap gap-2">
+                        {(
+                          [
+                            { mode: "v2", label: "Etherscan V2（chainid）" },
+                            { mode: "family", label: "链上浏览器 API" },
+                            { mode: "blockscout", label: "Blockscout" },
+                          ] as const
+                        ).map(({ mode, label }) => (
+                          <Button
+                            key={mode}
+                            variant={apiMode === mode ? "default" : "outline"}
+                            disabled={isRunning || !apiModeSupported(chain, mode)}
+                            className={`rounded-xl ${apiMode === mode ? "bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white hover:from-indigo-500 hover:to-fuchsia-500" : ""}`}
+                            onClick={() => selectApiMode(mode)}
+                          >
+                            {label}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+
                     <div>
                       <Label className="text-sm text-muted-foreground">Endpoint</Label>
                       <Input
@@ -1394,10 +1629,44 @@ export default function EthView() {
                         className="mt-2 rounded-2xl focus-visible:ring-2 focus-visible:ring-indigo-500/60 focus-visible:ring-offset-2"
                         value={contract}
                         onChange={(e) => setContract(e.target.value)}
-                        placeholder={`不填则账户情况按 USDT(${DEFAULT_USDT_ON_ETH.slice(0, 6)}...${DEFAULT_USDT_ON_ETH.slice(-4)}) 统计`}
+                        placeholder="不填则收集全部 ERC20 代币"
                       />
                     </div>
 
+                    <div className="sm:col-span-2">
+                      <Label className="text-sm text-muted-foreground">时间范围（可选，本地时间）</Label>
+                      <div className="mt-2 flex flex-wrap items-center gap-2">
+                        <Input
+                          type="datetime-local"
+                          className="w-56 rounded-2xl focus-visible:ring-2 focus-visible:ring-indigo-500/60 focus-visible:ring-offset-2"
+                          value={startTime}
+                          max={endTime || undefined}
+                          onChange={(e) => setStartTime(e.target.value)}
+                        />
+                        <span className="text-neutral-400">至</span>
+                        <Input
+                          type="datetime-local"
+                          className="w-56 rounded-2xl focus-visible:ring-2 focus-visible:ring-indigo-500/60 focus-visible:ring-offset-2"
+                          value={endTime}
+                          min={startTime || undefined}
+                          onChange={(e) => setEndTime(e.target.value)}
+                        />
+                        {(startTime || endTime) && (
+                          <Button
+                            variant="outline"
+                            className="rounded-xl"
+                            onClick={() => {
+                              setStartTime("");
+                              setEndTime("");
+                            }}
+                          >
+                            不限
+                          </Button>
+                        )}
+                      </div>
+                      <div className="mt-1 text-xs text-neutral-500">按区块号换算后查询；账户统计仅计算该时间段内的记录</div>
+                    </div>
+
                     <div>
                       <Label className="text-sm text-muted-foreground">并发数量（建议 1–3）</Label>
                       <div className="mt-2 flex items-center gap-2">
@@ -1472,11 +1741,17 @@ export default function EthView() {
                         { k: "normal", cn: "外部交易", en: "Transactions" },
                         { k: "internal", cn: "内部交易", en: "Internal Transactions" },
                         { k: "erc20", cn: "代币转账", en: "Token Transfers (ERC-20)" },
+                        { k: "erc721", cn: "NFT 转移", en: "NFT Transfers (ERC-721)" },
+                        { k: "erc1155", cn: "多重 NFT 转移", en: "NFT Transfers (ERC-1155)" },
+                        { k: "beacon", cn: "信标链提款", en: "Beacon Withdrawals" },
+                        { k: "mined", cn: "出块奖励", en: "Mined Blocks" },
+                        { k: "holdings", cn: "持仓快照", en: "Holdings" },
                       ] as const).map((opt) => {
                         const active = queryType === opt.k;
                         return (
                           <Button
                             key={opt.k}
+                            disabled={opt.k === "beacon" && chain.id !== "eth"}
                             variant={active ? "default" : "outline"}
                             className={`rounded-xl ${active ? "bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white hover:from-indigo-500 hover:to-fuchsia-500" : ""}`}
                             onClick={() => setQueryType(opt.k)}
@@ -1489,6 +1764,21 @@ export default function EthView() {
                         );
                       })}
                     </div>
+                    {queryType === "holdings" && (
+                      <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                        <Wallet className="h-4 w-4" />
+                        查询各地址当前持有的 {chain.nativeSymbol} 与全部 ERC20（不受时间窗口影响）
+                        <Button
+                          variant={holdingUsd ? "default" : "outline"}
+                          className={`h-8 rounded-xl ${holdingUsd ? "bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white" : ""}`}
+                          disabled={isRunning}
+                          onClick={() => setHoldingUsd((v) => !v)}
+                          title="附带 USD 单价与价值（CoinGecko 公共接口，查不到的代币不估值）"
+                        >
+                          USD 估值：{holdingUsd ? "开" : "关"}
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 </TabsContent>
 
@@ -1509,9 +1799,18 @@ export default function EthView() {
                     />
                     <div className="text-xs text-muted-foreground inline-flex items-center gap-2">
                       <LinkIcon className="h-3.5 w-3.5" />
-                      <a className="underline" href="https://etherscan.io/apis" target="_blank" rel="noreferrer">
-                        没有 Key？点击申请（Etherscan）
-                      </a>
+                      {apiMode === "blockscout" ? (
+                        <span>Blockscout 可不填 Key（填写后按 Key 计配额）</span>
+                      ) : (
+                        <a
+                          className="underline"
+                          href={apiMode === "v2" ? "https://etherscan.io/apis" : `${chain.explorer}/apis`}
+                          target="_blank"
+                          rel="noreferrer"
+                        >
+                          没有 Key？点击申请（{apiMode === "v2" ? "Etherscan V2，多链通用" : new URL(chain.explorer).host}）
+                        </a>
+                      )}
                     </div>
                     {needApiKey && (
                       <Alert variant="destructive" className="rounded-2xl">
@@ -1520,22 +1819,44 @@ export default function EthView() {
                         <AlertDescription>请输入有效的 API Key</AlertDescription>
                       </Alert>
                     )}
+                    <KeyHealthTable provider={evmProvider} keys={apiKeys} />
                   </div>
                 </TabsContent>
               </Tabs>
 
               <Separator className="my-4" />
 
+              {pendingJob && !isRunning && (
+                <Alert className="mb-3 rounded-2xl">
+                  <AlertTitle>有未完成的批量任务</AlertTitle>
+                  <AlertDescription>
+                    已完成 {jobProgress(pendingJob).done}/{jobProgress(pendingJob).total} 个地址，
+                    已拉取的分页保存在本地浏览器中。确认 API Key 后点击「继续任务」从断点接着查询。
+                  </AlertDescription>
+                </Alert>
+              )}
+
               <div className="flex flex-wrap gap-3">
                 {!isRunning ? (
-                  <Button
-                    className="rounded-2xl bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white hover:from-indigo-500 hover:to-fuchsia-500"
-                    disabled={!addresses.length}
-                    onClick={() => void runAll()}
-                  >
-                    <Play className="mr-2 h-4 w-4" />
-                    开始批量查询
-                  </Button>
+                  pendingJob ? (
+                    <Button
+                      className="rounded-2xl bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white hover:from-indigo-500 hover:to-fuchsia-500"
+                      disabled={!addresses.length}
+                      onClick={() => void runAll(pendingJob)}
+                    >
+                      <Play className="mr-2 h-4 w-4" />
+                      继续任务
+                    </Button>
+                  ) : (
+                    <Button
+                      className="rounded-2xl bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white hover:from-indigo-500 hover:to-fuchsia-500"
+                      disabled={!addresses.length}
+                      onClick={() => void runAll()}
+                    >
+                      <Play className="mr-2 h-4 w-4" />
+                      开始批量查询
+                    </Button>
+                  )
                 ) : (
                   <Button
                     variant="secondary"
@@ -1553,8 +1874,8 @@ export default function EthView() {
                 <Button
                   variant="outline"
                   className="rounded-2xl hover:ring-1 hover:ring-neutral-300"
-                  disabled={!(allDone && rowsAll.length > 0)}
-                  onClick={downloadExcel}
+                  disabled={exporting || !(allDone && anyRows)}
+                  onClick={() => void downloadExcel()}
                 >
                   <Download className="mr-2 h-4 w-4" />
                   导出 Excel
@@ -1562,8 +1883,8 @@ export default function EthView() {
                 <Button
                   variant="outline"
                   className="rounded-2xl hover:ring-1 hover:ring-neutral-300"
-                  disabled={!(allDone && rowsAll.length > 0)}
-                  onClick={downloadCSV}
+                  disabled={exporting || !(allDone && anyRows)}
+                  onClick={() => void downloadCSV()}
                 >
                   <Download className="mr-2 h-4 w-4" />
                   导出 CSV
@@ -1719,17 +2040,97 @@ export default function EthView() {
           {/* —— 账户情况 —— */}
           <Card className="rounded-2xl shadow-md border border-neutral-200/60 bg-white/80 mt-6">
             <CardHeader className="pb-3 flex flex-row items-center gap-2">
-              <CardTitle className="text-base font-semibold">账户情况（按 {contract.trim() ? "所选合约" : "USDT(ERC-20)"} 统计）</CardTitle>
+              <CardTitle className="text-base font-semibold">
+                账户情况（{chain.nativeSymbol} + {statTokens.length} 个 ERC20，按合约统计）
+              </CardTitle>
             </CardHeader>
-            <CardContent className="pt-0 pb-4">
+            <CardContent className="pt-0 pb-4 space-y-3">
+              {/* 统计代币：该网络的稳定币切换 + 自定义合约（下次查询生效） */}
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-muted-foreground">统计代币</span>
+                {chain.stablecoins.map((t) => {
+                  const on = statTokens.includes(t.contract);
+                  return (
+                    <Button
+                      key={t.contract}
+                      variant={on ? "default" : "outline"}
+                      className={`h-8 rounded-xl ${on ? "bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white" : ""}`}
+                      disabled={isRunning}
+                      title={t.contract}
+                      onClick={() =>
+                        setStatTokens((prev) => (on ? prev.filter((c) => c !== t.contract) : [...prev, t.contract]))
+                      }
+                    >
+                      {t.symbol}
+                    </Button>
+                  );
+                })}
+                {statTokens
+                  .filter((c) => !chain.stablecoins.some((t) => t.contract === c))
+                  .map((c) => (
+                    <span key={c} className="inline-flex items-center gap-1 rounded-xl border px-2 h-8 text-xs font-mono" title={c}>
+                      {middleEllipsis(c, 6, 4)}
+                      <button
+                        className="text-neutral-500 hover:text-rose-600 disabled:opacity-40"
+                        disabled={isRunning}
+                        onClick={() => setStatTokens((prev) => prev.filter((x) => x !== c))}
+                        title="移除"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                <Input
+                  className="h-8 w-80 rounded-xl"
+                  value={customStatToken}
+                  onChange={(e) => setCustomStatToken(e.target.value)}
+                  placeholder="自定义 ERC20 合约（0x...）"
+                />
+                <Button
+                  variant="outline"
+                  className="h-8 rounded-xl"
+                  disabled={isRunning || checkEthAddress(customStatToken.trim()) !== "valid"}
+                  onClick={() => {
+                    const c = toChecksumAddress(customStatToken.trim());
+                    setStatTokens((prev) => (prev.some((x) => x.toLowerCase() === c.toLowerCase()) ? prev : [...prev, c]));
+                    setCustomStatToken("");
+                  }}
+                >
+                  <PlusCircle className="mr-1 h-4 w-4" />
+                  添加
+                </Button>
+                <Button
+                  variant={countFailed ? "default" : "outline"}
+                  className={`ml-2 h-8 rounded-xl ${countFailed ? "bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white" : ""}`}
+                  disabled={isRunning}
+                  onClick={() => setCountFailed((v) => !v)}
+                  title="失败 / 回滚的交易金额并未转移，缺省不计入流入流出（手续费照常计入）；下次查询生效"
+                >
+                  失败交易计入统计：{countFailed ? "开" : "关"}
+                </Button>
+              </div>
+
+              <IntelSourcesBar config={intelConfig} onChange={setIntelConfig} disabled={isRunning} family="evm" />
+
               <div className="overflow-auto rounded-2xl border">
                 <table className="min-w-full text-sm table-fixed">
                   <thead className="sticky top-0 bg-neutral-50 backdrop-blur">
                     <tr>
                       {[
                         "地址",
-                        "标签",
-                        "当前余额(代币)",
+                        "名单命中",
+                        "实体标签",
+                        "风险标签",
+                        "属性标签",
+                        "是否合约",
+                        "首笔入金来源",
+                        "首笔入金时间",
+                        `首笔入金(${chain.nativeSymbol})`,
+                        "情报来源",
+                        "代币",
+                        "余额(统计)",
+                        "余额(链上)",
+                        "差异",
                         "首次交易时间",
                         "最近交易时间",
                         "最近流出时间",
@@ -1739,6 +2140,8 @@ export default function EthView() {
                         "流出金额",
                         "流出笔数",
                         "流出地址数",
+                        "其中 提款/出块",
+                        "已付手续费",
                       ].map((h) => (
                         <th key={h} className="text-left p-2 whitespace-nowrap">
                           {h}
@@ -1749,44 +2152,73 @@ export default function EthView() {
                   <tbody>
                     {addresses.length === 0 ? (
                       <tr>
-                        <td className="p-4 text-center text-neutral-500" colSpan={12}>
+                        <td className="p-4 text-center text-neutral-500" colSpan={25}>
                           暂无数据
                         </td>
                       </tr>
                     ) : (
-                      addresses.map((a) => {
-                        const st = acctStats[a] || {
-                          address: a,
-                          label: "",
-                          balanceToken: "0",
-                          firstTxTime: "",
-                          lastTxTime: "",
-                          lastOutTime: "",
-                          inAmount: "0",
-                          inCount: 0,
-                          inAddrCount: 0,
-                          outAmount: "0",
-                          outCount: 0,
-                          outAddrCount: 0,
-                        };
-                        return (
-                          <tr key={a} className="border-b last:border-none">
+                      addresses.flatMap((a) => {
+                        const ex = exposure[normScreenAddress(a)];
+                        const level = exposureLevel(ex);
+                        const tone = level === "direct" ? "bg-rose-50" : level === "hop" ? "bg-amber-50" : "";
+                        return acctRowsOf(a, acctStats[a], chain, accTokens, chainBalances[a], !timeWindowSet, intelTags[a]).map((st, i) => (
+                          <tr key={`${a}:${st.contract}`} className={`${i === accTokens.length ? "border-b" : ""} ${tone}`}>
                             <td className="p-2 font-mono text-xs break-all">
-                              <AddressHoverEllipsis address={a} head={7} tail={6} />
+                              {i === 0 ? <AddressHoverEllipsis address={a} head={7} tail={6} /> : null}
+                            </td>
+                            <td className="p-2">{i === 0 ? <ExposureBadge exposure={ex} /> : null}</td>
+                            <td className="p-2">{i === 0 ? st.label || "-" : ""}</td>
+                            <td className={`p-2 ${st.riskTags && st.riskTags !== "-" ? "text-rose-600 font-medium" : ""}`}>
+                              {i === 0 ? st.riskTags || "-" : ""}
+                            </td>
+                            <td className="p-2">{i === 0 ? st.propertyTags || "-" : ""}</td>
+                            <td className="p-2">{i === 0 ? st.isContract || "-" : ""}</td>
+                            <td className="p-2 font-mono text-xs">
+                              {i === 0 ? (
+                                st.firstFunder && st.firstFunder !== "-" ? (
+                                  <AddressHoverEllipsis address={st.firstFunder} head={7} tail={6} />
+                                ) : (
+                                  st.firstFunder || "-"
+                                )
+                              ) : null}
+                            </td>
+                            <td className="p-2">{i === 0 ? <TimeCell value={st.firstFundTime || "-"} /> : null}</td>
+                            <td className="p-2">{i === 0 ? st.firstFundAmount || "-" : ""}</td>
+                            <td className={`p-2 whitespace-nowrap ${st.intelSources?.includes("（失败）") ? "text-amber-600" : ""}`}>
+                              {i === 0 ? st.intelSources || "-" : ""}
+                            </td>
+                            <td className="p-2 whitespace-nowrap" title={st.contract || "原生币"}>
+                              {st.symbol}
+                            </td>
+                            <td className="p-2">{formatHumanAmount2(st.balance)}</td>
+                            <td className="p-2">{st.chainBalance !== undefined ? formatHumanAmount2(st.chainBalance) : "-"}</td>
+                            <td
+                              className={`p-2 whitespace-nowrap ${st.balanceDiff?.startsWith("差") ? "text-rose-600 font-medium" : ""}`}
+                              title={
+                                st.balanceDiff?.startsWith("差")
+                                  ? st.contract
+                                    ? "链上余额与统计余额不符：流水可能未拉全，或有铸造 / 销毁等"
+                                    : "链上余额与统计余额不符：流水可能未拉全（手续费按外部交易扣除，L2 的 L1 数据费未计入）"
+                                  : undefined
+                              }
+                            >
+                              {st.balanceDiff || "-"}
                             </td>
-                            <td className="p-2">{st.label || "-"}</td>
-                            <td className="p-2">{formatHumanAmount2(st.balanceToken)}</td>
                             <td className="p-2"><TimeCell value={st.firstTxTime || "-"} /></td>
                             <td className="p-2"><TimeCell value={st.lastTxTime || "-"} /></td>
                             <td className="p-2"><TimeCell value={st.lastOutTime || "-"} /></td>
                             <td className="p-2">{formatHumanAmount2(st.inAmount)}</td>
-                            <td className="p-2">{st.inCount ?? 0}</td>
-                            <td className="p-2">{st.inAddrCount ?? 0}</td>
+                            <td className="p-2">{st.inCount}</td>
+                            <td className="p-2">{st.inAddrCount}</td>
                             <td className="p-2">{formatHumanAmount2(st.outAmount)}</td>
-                            <td className="p-2">{st.outCount ?? 0}</td>
-                            <td className="p-2">{st.outAddrCount ?? 0}</td>
+                            <td className="p-2">{st.outCount}</td>
+                            <td className="p-2">{st.outAddrCount}</td>
+                            <td className="p-2">{st.rewardIn !== undefined ? formatHumanAmount2(st.rewardIn) : "-"}</td>
+                            <td className="p-2 whitespace-nowrap">
+                              {st.feePaid !== undefined ? `${formatHumanAmount2(st.feePaid)}（${st.feeCount} 笔）` : "-"}
+                            </td>
                           </tr>
-                        );
+                        ));
                       })
                     )}
                   </tbody>
@@ -1813,63 +2245,54 @@ export default function EthView() {
                   <TabsTrigger value="normal" className="rounded-xl border bg-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-600 data-[state=active]:to-fuchsia-600 data-[state=active]:text-white data-[state=active]:border-transparent">Transactions</TabsTrigger>
                   <TabsTrigger value="internal" className="rounded-xl border bg-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-600 data-[state=active]:to-fuchsia-600 data-[state=active]:text-white data-[state=active]:border-transparent">Internal</TabsTrigger>
                   <TabsTrigger value="erc20" className="rounded-xl border bg-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-600 data-[state=active]:to-fuchsia-600 data-[state=active]:text-white data-[state=active]:border-transparent">Token Transfers</TabsTrigger>
+                  <TabsTrigger value="nft" className="rounded-xl border bg-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-600 data-[state=active]:to-fuchsia-600 data-[state=active]:text-white data-[state=active]:border-transparent">NFT Transfers</TabsTrigger>
+                  <TabsTrigger value="beacon" className="rounded-xl border bg-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-600 data-[state=active]:to-fuchsia-600 data-[state=active]:text-white data-[state=active]:border-transparent">Beacon Withdrawals</TabsTrigger>
+                  <TabsTrigger value="mined" className="rounded-xl border bg-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-600 data-[state=active]:to-fuchsia-600 data-[state=active]:text-white data-[state=active]:border-transparent">Mined Blocks</TabsTrigger>
+                  <TabsTrigger value="holdings" className="rounded-xl border bg-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-600 data-[state=active]:to-fuchsia-600 data-[state=active]:text-white data-[state=active]:border-transparent">Holdings</TabsTrigger>
                 </TabsList>
 
-                {/* 通用表头渲染器（哈希窄、时间宽；时间换行居中） */}
-                {(
-                  [
-                    { key: "all", data: rowsAll },
-                    { key: "normal", data: rowsNormal },
-                    { key: "internal", data: rowsInternal },
-                    { key: "erc20", data: rowsERC20 },
-                  ] as const
-                ).map(({ key, data }) => (
+                {(["all", "normal", "internal", "erc20"] as const).map((key) => (
                   <TabsContent key={key} value={key}>
-                    <div className="overflow-auto max-h-[520px] rounded-2xl border">
-                      <table className="min-w-full text-sm table-fixed">
-                        <thead className="sticky top-0 bg-neutral-50 backdrop-blur">
-                          <tr>
-                            <th className="text-left p-2 whitespace-nowrap w-[220px]">地址</th>
-                            <th className="text-left p-2 whitespace-nowrap w-[140px]">哈希</th>
-                            <th className="text-left p-2 whitespace-nowrap w-[220px]">转入地址</th>
-                            <th className="text-left p-2 whitespace-nowrap w-[220px]">转出地址</th>
-                            <th className="text-left p-2 whitespace-nowrap w-[120px]">数量</th>
-                            <th className="text-left p-2 whitespace-nowrap w-[100px]">代币</th>
-                            <th className="text-left p-2 whitespace-nowrap w-[200px]">时间</th>
-                          </tr>
-                        </thead>
-                        <tbody>
-                          {data.slice(0, 1000).map((r, i) => (
-                            <tr key={i} className="border-b last:border-none">
-                              <td className="p-2 font-mono text-xs break-all w-[220px]">
-                                <AddressHoverEllipsis address={r.地址} head={7} tail={6} />
-                              </td>
-                              <td className="p-2 font-mono text-xs break-all w-[140px]">{r.哈希}</td>
-                              <td className="p-2 font-mono text-xs break-all w-[220px]">
-                                {r.转入地址 ? <AddressHoverEllipsis address={r.转入地址} head={7} tail={6} /> : "-"}
-                              </td>
-                              <td className="p-2 font-mono text-xs break-all w-[220px]">
-                                {r.转出地址 ? <AddressHoverEllipsis address={r.转出地址} head={7} tail={6} /> : "-"}
-                              </td>
-                              <td className="p-2 w-[120px]">{formatHumanAmount2(r.数量)}</td>
-                              <td className="p-2 w-[100px]">{r.代币}</td>
-                              <td className="p-2 w-[200px]">
-                                <TimeCell value={r.时间} />
-                              </td>
-                            </tr>
-                          ))}
-                          {data.length === 0 && (
-                            <tr>
-                              <td className="p-4 text-center text-neutral-500" colSpan={7}>
-                                暂无数据
-                              </td>
-                            </tr>
-                          )}
-                        </tbody>
-                      </table>
-                    </div>
+                    <VirtualTable
+                      columns={columns}
+                      rowCount={rowCounts[key] || 0}
+                      epoch={rowEpochs[key] || 0}
+                      fetchRows={rowStore.reader(key)}
+                    />
                   </TabsContent>
                 ))}
+                <TabsContent value="nft">
+                  <VirtualTable
+                    columns={nftCols}
+                    rowCount={rowCounts.nft || 0}
+                    epoch={rowEpochs.nft || 0}
+                    fetchRows={rowStore.reader("nft")}
+                  />
+                </TabsContent>
+                <TabsContent value="beacon">
+                  <VirtualTable
+                    columns={beaconCols}
+                    rowCount={rowCounts.beacon || 0}
+                    epoch={rowEpochs.beacon || 0}
+                    fetchRows={rowStore.reader("beacon")}
+                  />
+                </TabsContent>
+                <TabsContent value="mined">
+                  <VirtualTable
+                    columns={minedCols}
+                    rowCount={rowCounts.mined || 0}
+                    epoch={rowEpochs.mined || 0}
+                    fetchRows={rowStore.reader("mined")}
+                  />
+                </TabsContent>
+                <TabsContent value="holdings">
+                  <VirtualTable
+                    columns={holdingCols}
+                    rowCount={rowCounts.holdings || 0}
+                    epoch={rowEpochs.holdings || 0}
+                    fetchRows={rowStore.reader("holdings")}
+                  />
+                </TabsContent>
               </Tabs>
             </CardContent>
           </Card>
@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
 import * as XLSX from "xlsx";
 import {
   Upload,
@@ -16,6 +16,7 @@ import {
   Wand2,
   CheckCircle2,
   XCircle,
+  Wallet,
 } from "lucide-react";
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -27,20 +28,62 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
+import KeyHealthTable from "@/components/KeyHealthTable";
+import IntelSourcesBar from "@/components/IntelSourcesBar";
+import LabeledAddress from "@/components/LabeledAddress";
+import ExposureBadge from "@/components/ExposureBadge";
+import VirtualTable, { type VirtualColumn } from "@/components/VirtualTable";
 
 import {
   parseApiKeys,
   ensureListWithAddress,
   middleEllipsis,
   formatTime,
-  scaleAmount,
-  makeCompositeKey,
+  parseTimeWindow,
   isValidTronAddress,
   generateTronCandidates,
+  decodeTronAssetName,
+  scaleAmount,
+  parseAmount,
+  balanceDiff,
+  decodeAbiString,
+  tronHexToBase58,
 } from "@/shared/utils";
-import { fetchSlimSummary } from "@/oklink"; // ✅ 用原项目的解析器
+import {
+  createIntelClient,
+  DEFAULT_INTEL_CONFIG,
+  intelSourcesText,
+  intelTagText,
+  providersOf,
+  type IntelConfig,
+  type IntelResult,
+} from "@/shared/intel";
+import type { RequestResult } from "@/shared/scheduler";
+import { isKeyFailure, isTrc10Id, TRON_STAT_TRX, tronGridSpec, tronGridUrl, type TronGridApi, type TronTxItem } from "@/shared/apis";
+import {
+  createJob,
+  getJob,
+  jobProgress,
+  loadCheckpoint,
+  saveCheckpoint,
+  setJobStatus,
+  settleJob,
+  type JobRecord,
+} from "@/shared/jobStore";
+import { createRowStore, downloadBlob, type CrawlResult, type HoldingItem, type TimeWindowMs } from "@/shared/rowStore";
+import { fetchNativeUsdPrice, fetchTokenUsdPrices } from "@/shared/prices";
+import { labelMapFor, loadLabels } from "@/shared/labelStore";
+import { loadScreenLists, screenIndex, screenListInfos, subscribeScreenLists } from "@/shared/screenLists";
+import { exposureLevel, exposureRows, hitsText, hopText, type ScreenExposure } from "@/shared/screening";
 
 type AddrState = "pending" | "running" | "done" | "error";
+
+// 名单筛查涉及的表；name 为“命中名单”中的来源表
+const SCREEN_TABLES = [
+  { table: "trc20", name: "Transfers" },
+  { table: "tx", name: "Transactions" },
+  { table: "ledger", name: "TRX_TRC10" },
+];
 type ValidState = "unknown" | "checking" | "valid" | "invalid";
 
 /* ============== 输入即时校验 + 右侧状态图标 ============== */
@@ -121,38 +164,101 @@ function ValidatedInput(props: {
 }
 /* ========================================================= */
 
-export default function TronView() {
-  // ============== USDT 合约常量与类型 ==============
+export default function TronView({ resumeJob }: { resumeJob?: JobRecord } = {}) {
+  // ============== 账户统计代币（预置 + 自定义 TRC20 合约）与类型 ==============
   const USDT_CONTRACT = "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t"; // TRC20 USDT
+  const STAT_TOKEN_PRESETS = [
+    { symbol: "USDT", contract: USDT_CONTRACT },
+    { symbol: "USDC", contract: "TEkxiTehnzSmSe2XqrBj4w32RUN966rdz8" },
+    { symbol: "TUSD", contract: "TUpMhErZL2fhh4sVNULAbNKLokS4GjC1F4" },
+    { symbol: "TRX", contract: TRON_STAT_TRX },
+  ];
 
   type AccountStatRow = {
     地址: string;
 
-    // ====== OKLink 新增字段（用于表头“”列）======
-    "实体标签"?: string;          // 优先 entity_tag，若无则拼接 entity_tags
-    "风险标签"?: string;          // 以 | 连接
-    "属性标签"?: string;          // 以 | 连接
+    // ====== 地址情报（各来源按优先级合并，见 shared/intel）======
+    "实体标签"?: string;          // 每条标签后标注来源，以 | 连接
+    "风险标签"?: string;          // 同上
+    "属性标签"?: string;          // 同上
     "是否合约"?: string;          // "是"/"否"/"-"
-    "TRON 链总资产"?: number;     // total_usd_value（导出保留全量）
-    "余额(TRX)"?: number;         // balance_trx
-    "余额(USDT)"?: number;        // usdt_holding
-    "初始手续费来源"?: string;    // first_entry_from_address
-    "首次入金时间"?: string;      // 格式化字符串（导出即字符串）
-    "首次入账数量"?: number | string;
-
-    // ====== 原有 USDT 账户情况 ======
-    余额USDT: string;          // 原始字符串（导出用）
+    "TRON 链总资产"?: number;     // totalUsdValue（导出保留全量）
+    "余额(TRX)"?: number;         // balanceNative
+    "余额(USDT)"?: number;        // usdtHolding
+    "初始手续费来源(情报)"?: string; // firstFunder，仅用于校验
+    情报来源?: string;            // 有结果 / 失败的来源
+
+    // ====== 账户激活（TronGrid 最早的转入交易 / AccountCreateContract）======
+    "初始手续费来源"?: string;    // 激活地址
+    "首次入金时间"?: string;      // 激活时间（格式化字符串）
+    "首次入账数量"?: number | string; // 激活数量（TRX / TRC10 按精度缩放；精度未知时为原始单位）
+    激活方式?: string;
+    激活交易?: string;
+    激活链?: string;              // 本地址 ← 激活者 ← 激活者的激活者 …
+    激活来源校验?: string;        // 一致 / 不一致 / -
+
+    // ====== 手续费（本地址发起的交易，ret[0].fee 累计）======
+    "已付手续费(TRX)"?: string;
+    付费交易数?: number | string;
+    能量消耗合计?: number | string;
+
+    // ====== 按代币的账户情况（每个 地址 × 代币 一行） ======
+    代币: string;
+    代币合约: string;
+    统计状态: string;          // 完成 / 未完成（原因）；未完成时下列统计量均为 "-"
+    余额: string;              // 原始字符串（导出用）
     首次交易时间: string;
     最近交易时间: string;
     最近流出时间: string;
-    流入金额USDT: string;
-    流入笔数: number;
-    流入地址数: number;
-    流出金额USDT: string;
-    流出笔数: number;
-    流出地址数: number;
+    流入金额: string;
+    流入笔数: number | string;
+    流入地址数: number | string;
+    流出金额: string;
+    流出笔数: number | string;
+    流出地址数: number | string;
+    精度?: number;
+
+    // ====== 链上余额（TronGrid /v1/accounts/{addr}），与统计余额比对 ======
+    "余额(链上)"?: string;
+    余额差异?: string;            // "一致" / "差 x"（链上 - 统计）；设了时间窗口时不比对
+    "TRX(链上)"?: string;
   };
 
+  // ============== 账户详情（/wallet/getaccount + /wallet/getaccountresource），金额单位 TRX ==============
+  type AcctDetailRow = {
+    地址: string;
+    "余额(TRX)": string;
+    "质押·能量": string;
+    "质押·带宽": string;
+    "质押·投票权": string;
+    解锁中: string;
+    "能量(已用/上限)": string;
+    "带宽(已用/上限)": string;
+    "代理出·能量": string;
+    "代理出·带宽": string;
+    "代理入·能量": string;
+    "代理入·带宽": string;
+    代理出对象数: number;
+    代理入来源数: number;
+    投票总数: number;
+    投票SR数: number;
+    Owner权限: string;        // "阈值 t / n 个签名"
+    Active权限: string;       // 多个 active 权限以 | 连接
+    权限控制: string;         // 本人 / 多签 / 由其他地址控制
+    创建时间: string;
+  };
+  type DelegationRow = {
+    地址: string;
+    方向: "代理出" | "代理入";
+    对方地址: string;
+    "能量(TRX)": string;
+    "带宽(TRX)": string;
+    能量到期: string;
+    带宽到期: string;
+  };
+  type VoteRow = { 地址: string; 超级代表: string; 票数: number };
+  type PermKeyRow = { 地址: string; 权限: string; 阈值: number; 签名地址: string; 权重: number };
+
   // ========= 展示层工具 =========
   function middleEllipsisFixed(s: string, head = 7, tail = 6) {
     if (!s) return "";
@@ -272,9 +378,16 @@ export default function TronView() {
   }
 
   // 队列与数据
-  const [addresses, setAddresses] = useState<string[]>([]);
-  const [rows, setRows] = useState<any[]>([]);
-  const [txRows, setTxRows] = useState<any[]>([]);
+  const [addresses, setAddresses] = useState<string[]>(() => resumeJob?.addresses ?? []);
+  // 结果行存放在 Worker（rowStore）中：这里只有各表行数与版本，表格按可视区域向 Worker 取行
+  const [rowStore] = useState(createRowStore);
+  const [rowCounts, setRowCounts] = useState<Record<string, number>>({});
+  const [rowEpochs, setRowEpochs] = useState<Record<string, number>>({});
+  const trc20Count = rowCounts.trc20 || 0;
+  const txCount = rowCounts.tx || 0;
+  const ledgerCount = rowCounts.ledger || 0;
+  const holdingCount = rowCounts.holdings || 0;
+  const anyRows = trc20Count > 0 || txCount > 0 || ledgerCount > 0 || holdingCount > 0;
   // === 导出进度状态（用于“正在下载中”提示与进度条） ===
   const [exporting, setExporting] = useState<{
     mode: "excel" | "csv";
@@ -283,14 +396,11 @@ export default function TronView() {
     done: number;
   } | null>(null);
 
-  // UI 让路：把耗时循环切成步进，避免浏览器假死
-  const yieldUI = () => new Promise((res) => setTimeout(res, 0));
-
   function startExport(mode: "excel" | "csv", label: string, total: number) {
     setExporting({ mode, label, total, done: 0 });
   }
-  function tickExport(delta = 1) {
-    setExporting((prev) => (prev ? { ...prev, done: Math.min(prev.total, prev.done + delta) } : prev));
+  function progressExport(done: number, total: number) {
+    setExporting((prev) => (prev ? { ...prev, done, total } : prev));
   }
   function endExport() {
     setExporting(null);
@@ -300,8 +410,20 @@ export default function TronView() {
   const errorTimerRef = useRef<number | null>(null);
 
   // 参数
-  const [endpoint, setEndpoint] = useState("https://api.trongrid.io");
-  const [contract, setContract] = useState("");
+  const [endpoint, setEndpoint] = useState<string>(() => resumeJob?.params.endpoint ?? "https://api.trongrid.io");
+  const [contract, setContract] = useState<string>(() => resumeJob?.params.contract ?? "");
+  // 账户统计的代币合约列表（顺序即表格中同一地址的行序）
+  const [statContracts, setStatContracts] = useState<string[]>(() => resumeJob?.params.statContracts ?? [USDT_CONTRACT]);
+  const [customStatToken, setCustomStatToken] = useState("");
+  // 激活链上溯层数（激活地址的激活地址 …）
+  const [activationDepth, setActivationDepth] = useState(3);
+  // 账户统计附带手续费合计（需翻完本地址发起的全部交易，交易多的地址可关闭）
+  const [statFees, setStatFees] = useState(true);
+  // 失败的 TRX / TRC10 转账是否计入账户统计（缺省不计；行照常标记）
+  const [countFailed, setCountFailed] = useState<boolean>(() => resumeJob?.params.countFailed ?? false);
+  // 查询时间窗口（datetime-local，留空=不限）→ TronGrid min_timestamp / max_timestamp
+  const [startTime, setStartTime] = useState<string>(() => resumeJob?.params.startTime ?? "");
+  const [endTime, setEndTime] = useState<string>(() => resumeJob?.params.endTime ?? "");
   const [concurrency, setConcurrency] = useState(3);
   const [timeoutMs, setTimeoutMs] = useState(15000);
   const [pauseMs, setPauseMs] = useState(220);
@@ -319,7 +441,11 @@ export default function TronView() {
   const [isRunning, setIsRunning] = useState(false);
   const [addrStatus, setAddrStatus] = useState<
     Record<string, { status: AddrState; count: number; pages: number; message?: string }>
-  >({});
+  >(() => {
+    const m: Record<string, { status: AddrState; count: number; pages: number }> = {};
+    (resumeJob?.addresses ?? []).forEach((a) => (m[a] = { status: "pending", count: 0, pages: 0 }));
+    return m;
+  });
   const [validMap, setValidMap] = useState<Record<string, ValidState>>({});
   const [inputCandidates, setInputCandidates] = useState<string[]>([]);
   const [inputSuggestOpen, setInputSuggestOpen] = useState(false);
@@ -329,22 +455,36 @@ export default function TronView() {
 
   // 账户情况（USDT）
   const [acctStats, setAcctStats] = useState<AccountStatRow[]>([]);
+  // 名单命中（Worker 按已抓取的明细表筛查，与导出的“命中名单”一致）
+  const [acctExposure, setAcctExposure] = useState<Record<string, ScreenExposure>>({});
+  const screenIdx = useSyncExternalStore(subscribeScreenLists, screenIndex);
   const [acctStatStatus, setAcctStatStatus] = useState<Record<string, AddrState>>({});
   const [acctStatErrors, setAcctStatErrors] = useState<{ address: string; message: string }[]>([]);
   const [isAcctRunning, setIsAcctRunning] = useState(false);
-  // OKLink 标签补全中的任务数（用于防止按钮过早恢复）
-  const [oklinkPending, setOklinkPending] = useState(0);
-  // OKLink 标签查询的每地址状态（独立于计算）
-  const [oklinkStatus, setOklinkStatus] = useState<Record<string, AddrState>>({});
+
+  // 账户详情：摘要一行 / 地址，代理、投票、权限明细各一张表
+  const [acctDetails, setAcctDetails] = useState<AcctDetailRow[]>([]);
+  const [delegations, setDelegations] = useState<DelegationRow[]>([]);
+  const [votes, setVotes] = useState<VoteRow[]>([]);
+  const [permKeys, setPermKeys] = useState<PermKeyRow[]>([]);
+  const [detailDone, setDetailDone] = useState(0);
+
+  // 持仓快照（TRX + 全部 TRC20 当前余额，行存放在 Worker 的 holdings 表）
+  const [holdingUsd, setHoldingUsd] = useState(false);
+  const [holdingDone, setHoldingDone] = useState(0);
+  // 地址情报补全中的任务数（用于防止按钮过早恢复）
+  const [intelPending, setIntelPending] = useState(0);
+  // 地址情报查询的每地址状态（独立于计算）
+  const [intelStatus, setIntelStatus] = useState<Record<string, AddrState>>({});
   // 衍生统计：计算阶段正在统计数（TronGrid 聚合）
   const acctRunningCount = useMemo(
     () => addresses.reduce((n, a) => n + (acctStatStatus[a] === "running" ? 1 : 0), 0),
     [addresses, acctStatStatus]
   );
-  // 衍生统计：标签查询完成数（OKLink）
-  const oklinkDoneCount = useMemo(
-    () => addresses.reduce((n, a) => n + (oklinkStatus[a] === "done" ? 1 : 0), 0),
-    [addresses, oklinkStatus]
+  // 衍生统计：标签查询完成数（地址情报）
+  const intelDoneCount = useMemo(
+    () => addresses.reduce((n, a) => n + (intelStatus[a] === "done" ? 1 : 0), 0),
+    [addresses, intelStatus]
   );
 
   const runningCount = useMemo(
@@ -363,11 +503,51 @@ export default function TronView() {
     () => addresses.length > 0 && finishedCount === addresses.length && !isRunning,
     [finishedCount, addresses, isRunning]
   );
+  // 批量查询全部结束，或只做了持仓快照
+  const canExport = anyRows && (allDone || (!isRunning && holdingCount > 0));
 
   const cancelRef = useRef({ cancelled: false });
 
-  // 集中 AbortController：仅用于 TronGrid（OKLink 用软超时，不再在这里 fetch）
-  const controllersRef = useRef<Set<AbortController>>(new Set());
+  // 可继续的断点任务（从任务列表载入，或本页停止后留下）
+  const [pendingJob, setPendingJob] = useState<JobRecord | null>(() => resumeJob ?? null);
+
+  // TronGrid QPS 预算：调度器（重试/熔断/Key 池）在行存储 Worker 中（地址情报用软超时，不走这里）
+  useEffect(() => {
+    void rowStore.setBudget("trongrid", qpsMax);
+  }, [rowStore, qpsMax]);
+
+  // Worker 行数订阅；卸载时结束 Worker
+  useEffect(() => {
+    const off = rowStore.onCounts((counts, epochs) => {
+      setRowCounts(counts);
+      setRowEpochs(epochs);
+    });
+    return () => {
+      off();
+      rowStore.dispose();
+    };
+  }, [rowStore]);
+
+  // 名单筛查：防抖 800ms（查询进行中行数持续变化时等到停顿再算）
+  useEffect(() => {
+    let alive = true;
+    const t = setTimeout(() => {
+      void loadScreenLists()
+        .then(() => {
+          const lists = screenListInfos().map((l) => l.name);
+          if (!lists.length) return {};
+          return rowStore
+            .screen({ tables: SCREEN_TABLES, index: screenIdx, addresses, lists })
+            .then((r) => r.exposure);
+        })
+        .then((e) => alive && setAcctExposure(e))
+        .catch(() => {});
+    }, 800);
+    return () => {
+      alive = false;
+      clearTimeout(t);
+    };
+  }, [rowStore, addresses, screenIdx, rowCounts, rowEpochs]);
 
   // 错误提示 10s 自动消失
   useEffect(() => {
@@ -387,24 +567,16 @@ export default function TronView() {
     };
   }, [errors]);
 
-  // 简单 QPS 控制（循环版）
-  const rateRef = useRef<{ windowMs: number; hits: number[] }>({ windowMs: 1000, hits: [] });
-  const sleep = (ms: number) => new Promise((res) => setTimeout(res, ms));
-  async function acquireToken(): Promise<void> {
-    for (;;) {
-      const now = Date.now();
-      const { windowMs } = rateRef.current;
-      rateRef.current.hits = rateRef.current.hits.filter((t) => now - t < windowMs);
-      if (rateRef.current.hits.length < Math.max(1, qpsMax)) {
-        rateRef.current.hits.push(Date.now());
-        return;
-      }
-      const wait = windowMs - (now - rateRef.current.hits[0]);
-      await sleep(Math.max(0, wait));
-    }
+  // TronGrid 请求：Key 选择、限速、重试与超时均由 Worker 中的调度器处理
+  function tronApi(): TronGridApi {
+    return { endpoint, keys: apiKeys, timeoutMs };
+  }
+  function tronGridGet(url: string): Promise<RequestResult> {
+    return rowStore.request(tronGridSpec(tronApi(), url));
   }
-  function pick<T>(arr: T[]): T | undefined {
-    return arr && arr.length ? arr[Math.floor(Math.random() * arr.length)] : undefined;
+  // TronGrid POST（/wallet/* 节点接口）
+  function tronGridPost(url: string, body: unknown): Promise<RequestResult> {
+    return rowStore.request(tronGridSpec(tronApi(), url, body));
   }
 
   // Excel 模板 / 导入 / 导出（略，维持不变）
@@ -438,387 +610,139 @@ export default function TronView() {
     setAddrStatus(st);
     setValidMap(vm);
     void validateMany(uniq);
-    setRows([]);
-    setTxRows([]);
+    void rowStore.clear();
     setErrors([]);
     clearAcctStats();
   }
 
   // ==== 常量（放在文件顶层工具附近）====
-  const EXCEL_MAX_ROWS = 1_048_576;           // Excel 单表行数上限
-  const EXCEL_SAFE_ROWS = 900_000;            // 预留安全余量，避免边界风险
+  const EXCEL_SAFE_ROWS = 900_000;            // Excel 单表上限 1,048,576，预留安全余量
   const CSV_CHUNK_ROWS  = 500_000;            // CSV 文件分片行数（可按需调大/调小）
 
-  function chunk<T>(arr: T[], size: number): T[][] {
-    if (size <= 0) return [arr];
-    const out: T[][] = [];
-    for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
-    return out;
-  }
   function tsTag(prefix: string) {
     return `${prefix}_${new Date().toISOString().slice(0,19).replace(/[:T]/g,"-")}`;
   }
 
-  // ==== 智能 Excel：按行数自动分片到多个 Sheet/多个工作簿 + 进度反馈 ====
-  async function downloadExcel(): Promise<void> {
-    if (rows.length === 0 && txRows.length === 0) return;
+  // 本地标签库：导出时标注对手地址（读库失败按无标签导出）
+  async function exportLabels(): Promise<Record<string, string>> {
+    await loadLabels();
+    return labelMapFor("tron");
+  }
 
-    const transfersChunks = chunk(rows, EXCEL_SAFE_ROWS);
-    const txChunks = chunk(txRows, EXCEL_SAFE_ROWS);
+  // 名单筛查：没有导入名单时不输出“命中名单”
+  async function exportScreen() {
+    await loadScreenLists();
+    const lists = screenListInfos().map((l) => l.name);
+    if (!lists.length) return undefined;
+    return { tables: SCREEN_TABLES, index: screenIndex(), addresses, lists };
+  }
 
-    const MAX_SHEETS_PER_WB = 8;
-    const totalSheets = transfersChunks.length + txChunks.length;
-    // 以“生成 sheet”为步进，写文件时也算一步
-    const totalSteps =
-    totalSheets + Math.max(1, Math.ceil(Math.max(transfersChunks.length, txChunks.length) / MAX_SHEETS_PER_WB));
+  // ==== 智能 Excel：Worker 中按行数分片到多个 Sheet/多个工作簿，逐个文件回传 ====
+  async function downloadExcel(): Promise<void> {
+    if (!anyRows) return;
 
-    startExport("excel", "Transfers / Transactions", totalSteps);
+    startExport("excel", "Transfers / Transactions / TRX·TRC10 / Holdings", 1);
     try {
-    let wbIndex = 0;
-    for (let i = 0; i < Math.max(transfersChunks.length, txChunks.length); i += MAX_SHEETS_PER_WB) {
-      const wb = XLSX.utils.book_new();
-
-      const sliceT = transfersChunks.slice(i, i + MAX_SHEETS_PER_WB);
-      const sliceX = txChunks.slice(i, i + MAX_SHEETS_PER_WB);
-
-      // 逐个 sheet 转换，转换后立刻 tick，让 UI 有机会刷新
-      for (let idx = 0; idx < sliceT.length; idx++) {
-      const part = sliceT[idx];
-      const ws = XLSX.utils.json_to_sheet(part);
-      XLSX.utils.book_append_sheet(wb, ws, `Transfers_${i + idx + 1}`);
-      tickExport(1);
-      await yieldUI();
-      }
-      for (let idx = 0; idx < sliceX.length; idx++) {
-      const part = sliceX[idx];
-      const ws = XLSX.utils.json_to_sheet(part);
-      XLSX.utils.book_append_sheet(wb, ws, `Transactions_${i + idx + 1}`);
-      tickExport(1);
-      await yieldUI();
-      }
-
-      wbIndex += 1;
-      const name = tsTag(`TRON_查询结果_Part${wbIndex}`);
-      XLSX.writeFile(wb, `${name}.xlsx`, { bookSST: false, compression: true });
-      tickExport(1); // 写文件完成也记一步
-      await yieldUI();
-    }
+      await rowStore.exportXlsx(
+        {
+          tables: [
+            { table: "trc20", sheetName: "Transfers_{n}" },
+            { table: "tx", sheetName: "Transactions_{n}" },
+            { table: "ledger", sheetName: "TRX_TRC10_{n}" },
+            { table: "holdings", sheetName: "Holdings_{n}" },
+          ],
+          chunkRows: EXCEL_SAFE_ROWS,
+          maxSheetsPerWb: 8,
+          fileName: tsTag("TRON_查询结果_Part{n}"),
+          labels: await exportLabels(),
+          screen: await exportScreen(),
+        },
+        { onProgress: progressExport, onFile: downloadBlob }
+      );
+    } catch (e) {
+      setErrors((es) => [...es, { address: "", message: `导出失败：${e instanceof Error ? e.message : e}` }]);
     } finally {
-    endExport();
+      endExport();
     }
   }
 
-  // ==== CSV 分片导出：步进式生成 + 进度反馈（浏览器零依赖）====
+  // ==== CSV 分片导出：Worker 中逐片序列化 + 进度反馈 ====
   async function downloadCSV(): Promise<void> {
-    if (rows.length === 0 && txRows.length === 0) return;
-
-    const partsTransfers = chunk(rows, CSV_CHUNK_ROWS);
-    const partsTx = chunk(txRows, CSV_CHUNK_ROWS);
-    const totalParts = partsTransfers.length + partsTx.length;
+    if (!anyRows) return;
 
-    startExport("csv", "Transfers / Transactions (CSV)", totalParts);
+    startExport("csv", "Transfers / Transactions / TRX·TRC10 / Holdings (CSV)", 1);
     try {
-    const tTag = tsTag("TRON_查询结果");
-
-    const exportOne = async (parts: any[][], base: string) => {
-      for (let i = 0; i < parts.length; i++) {
-      const ws = XLSX.utils.json_to_sheet(parts[i]);
-      const csv = XLSX.utils.sheet_to_csv(ws);
-      const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
-      const a = document.createElement("a");
-      a.href = URL.createObjectURL(blob);
-      a.download = `${tTag}_${base}_p${i + 1}.csv`;
-      a.click();
-      URL.revokeObjectURL(a.href);
-
-      tickExport(1);
-      await yieldUI(); // 让 UI 刷新，显示进度
-      }
-    };
-
-    await exportOne(partsTransfers, "Transfers");
-    await exportOne(partsTx, "Transactions");
+      const tTag = tsTag("TRON_查询结果");
+      await rowStore.exportCsv(
+        {
+          tables: [
+            { table: "trc20", fileName: `${tTag}_Transfers_p{p}` },
+            { table: "tx", fileName: `${tTag}_Transactions_p{p}` },
+            { table: "ledger", fileName: `${tTag}_TRX_TRC10_p{p}` },
+            { table: "holdings", fileName: `${tTag}_Holdings_p{p}` },
+          ],
+          chunkRows: CSV_CHUNK_ROWS,
+          labels: await exportLabels(),
+          screen: await exportScreen().then((sp) => sp && { ...sp, fileName: `${tTag}_命中名单` }),
+        },
+        { onProgress: progressExport, onFile: downloadBlob }
+      );
+    } catch (e) {
+      setErrors((es) => [...es, { address: "", message: `导出失败：${e instanceof Error ? e.message : e}` }]);
     } finally {
-    endExport();
+      endExport();
     }
   }
 
-  // ========== TronGrid: TRC20 转账 ==========
-  async function fetchTrc20ForAddress(addr: string): Promise<any[]> {
-    const base = `${endpoint.replace(/\/$/, "")}/v1/accounts/${addr}/transactions/trc20`;
-    const rowsOut: any[] = [];
-    const seen = new Set<string>();
-    let page = 0;
-    const updateStatus = (patch: Partial<{ status: any; count: number; pages: number; message?: string }>) => {
-      setAddrStatus((prev) => ({ ...prev, [addr]: { ...prev[addr], ...patch } }));
-    };
-    const qs = new URLSearchParams({
-      only_confirmed: "true",
-      limit: "200",
-      order_by: "block_timestamp,desc",
-      search_internal: "false",
-    });
-    if (contract.trim()) qs.set("contract_address", contract.trim());
-    const toAbs = (u: string) =>
-      /^https?:\/\//i.test(u) ? u : `${endpoint.replace(/\/$/, "")}${u.startsWith("/") ? u : "/" + u}`;
-    let nextURL: string | null = `${base}?${qs.toString()}`;
-    updateStatus({ status: "running" });
-
-    while (!cancelRef.current.cancelled && nextURL) {
-      page += 1;
-      const key = pick(apiKeys) || "";
-      if (!key) {
-        setNeedApiKey(true);
-        const msg = "请输入有效的 API Key";
-        setErrors((prev) => (prev.some((e) => e.message === msg) ? prev : [...prev, { address: "", message: msg }]));
-        updateStatus({ status: "error", message: "", pages: page - 1, count: rowsOut.length });
-        break;
-      }
-      const ctrl = new AbortController();
-      controllersRef.current.add(ctrl);
-      const timer = setTimeout(() => ctrl.abort(), timeoutMs);
-      let resp: Response | null = null;
-      try {
-        await acquireToken();
-        resp = await fetch(nextURL, {
-          method: "GET",
-          headers: {
-            "Content-Type": "application/json",
-            "TRON-PRO-API-KEY": key,
-            "User-Agent": "Mozilla/5.0",
-          },
-          signal: ctrl.signal,
-        });
-      } catch {
-        clearTimeout(timer);
-        controllersRef.current.delete(ctrl);
-        await sleep(800);
-        continue;
-      } finally {
-        clearTimeout(timer);
-        controllersRef.current.delete(ctrl);
-      }
-
-      if (!resp.ok) {
-        if (resp.status === 401) {
-          setNeedApiKey(true);
-          const msg = "请输入有效的 API Key";
-          setErrors((es) => (es.some((x) => x.message === msg) ? es : [...es, { address: "", message: msg }]));
-          updateStatus({ status: "error", message: "", pages: page - 1, count: rowsOut.length });
-          break;
-        }
-        const retryAfter = Number(resp.headers.get("retry-after"));
-        if ([429, 403, 500, 502, 503, 504].includes(resp.status)) {
-          let wait = 1200;
-          if (Number.isFinite(retryAfter) && retryAfter !== 0) wait = Math.max(1000, retryAfter * 1000);
-          else if (resp.status === 403) wait = Math.max(wait, 30000);
-          await sleep(wait);
-          continue;
-        }
-        const msg = `${resp.status} ${resp.statusText}`;
-        setErrors((es) => [...es, { address: addr, message: msg }]);
-        updateStatus({ status: "error", message: msg, pages: page - 1, count: rowsOut.length });
-        break;
-      }
-
-      let json: any = null;
-      try {
-        json = await resp.json();
-      } catch {
-        await sleep(500);
-        continue;
-      }
-
-      const data: any[] = Array.isArray(json?.data) ? json.data : [];
-      if (!data.length) {
-        updateStatus({ pages: page - 1, count: rowsOut.length });
-        break;
-      }
-
-      for (const it of data) {
-        if (it?.type === "Approval") continue;
-        const ti = it?.token_info || {};
-        const dec = Number(ti?.decimals || 0) || 0;
-        const id = String(it?.transaction_id || "");
-        const from = it?.from || "";
-        const to = it?.to || "";
-        const rawVal = String(it?.value ?? "0");
-        const symbol = ti?.symbol || "";
-        const tokenAddr = ti?.address || "";
-        const ts = Number(it?.block_timestamp || 0);
-        const compKey = makeCompositeKey({
-          transaction_id: id,
-          from,
-          to,
-          value: rawVal,
-          decimals: dec,
-          symbol,
-          block_timestamp: ts,
-          token_address: tokenAddr,
-        });
-        if (!seen.has(compKey)) {
-          seen.add(compKey);
-          rowsOut.push({
-            地址: addr,
-            哈希: id,
-            发起地址: from,
-            接收地址: to,
-            数量: scaleAmount(rawVal, dec),
-            代币: symbol,
-            时间: formatTime(ts),
-          });
-        }
-      }
-
-      const nextLink: string | undefined = json?.meta?.links?.next;
-      const fingerprint: string | undefined = json?.meta?.fingerprint;
-      if (nextLink) {
-        nextURL = toAbs(nextLink);
-      } else if (fingerprint) {
-        const url = new URL(base);
-        url.searchParams.set("only_confirmed", "true");
-        url.searchParams.set("limit", "200");
-        url.searchParams.set("order_by", "block_timestamp,desc");
-        url.searchParams.set("search_internal", "false");
-        if (contract.trim()) url.searchParams.set("contract_address", contract.trim());
-        url.searchParams.set("fingerprint", fingerprint);
-        nextURL = url.toString();
-      } else {
-        updateStatus({ pages: page, count: rowsOut.length });
-        break;
-      }
+  // ========== 时间窗口 ==========
+  // 时间窗口不合法：提示并返回 false
+  function checkTimeWindow(): boolean {
+    const { error } = parseTimeWindow(startTime, endTime);
+    if (error) setErrors((prev) => (prev.some((e) => e.message === error) ? prev : [...prev, { address: "", message: error }]));
+    return !error;
+  }
+  // 翻页时首页与 fingerprint 续页都带上（在 Worker 中拼接）
+  function timeWindow(): TimeWindowMs {
+    const { fromMs, toMs } = parseTimeWindow(startTime, endTime);
+    return { fromMs, toMs };
+  }
 
-      updateStatus({ pages: page, count: rowsOut.length });
-      const tiny = data.length <= 1;
-      await sleep(tiny ? Math.max(pauseMs * 5, 2000) : pauseMs);
+  // 翻页结束：Key 缺失只提示一次；请求失败记一条错误（prefix 加在错误信息前）
+  function reportCrawlEnd(addr: string, r: CrawlResult, prefix = ""): void {
+    if (r.end === "key") {
+      setNeedApiKey(true);
+      setErrors((prev) => (prev.some((e) => e.message === r.message) ? prev : [...prev, { address: "", message: r.message }]));
+    } else if (r.end === "error") {
+      setErrors((es) => [...es, { address: addr, message: `${prefix}${r.message}` }]);
     }
-
-    return rowsOut;
   }
 
-  // ========== TronGrid: 交易列表 ==========
-  async function fetchTransactionsForAddress(addr: string): Promise<any[]> {
-    const base = `${endpoint.replace(/\/$/, "")}/v1/accounts/${addr}/transactions`;
-    const listOut: any[] = [];
-    const seenTx = new Set<string>();
-    let nextURL: string | null = `${base}?${new URLSearchParams({
-      only_confirmed: "true",
-      limit: "200",
-      order_by: "block_timestamp,desc",
-    }).toString()}`;
-
-    const toAbs = (u: string) =>
-      /^https?:\/\//i.test(u) ? u : `${endpoint.replace(/\/$/, "")}${u.startsWith("/") ? u : "/" + u}`;
-
-    while (!cancelRef.current.cancelled && nextURL) {
-      const key = pick(apiKeys) || "";
-      if (!key) {
-        setNeedApiKey(true);
-        const msg = "请输入有效的 API Key";
-        setErrors((prev) => (prev.some((e) => e.message === msg) ? prev : [...prev, { address: addr, message: msg }]));
-        break;
-      }
-      const ctrl = new AbortController();
-      controllersRef.current.add(ctrl);
-      const timer = setTimeout(() => ctrl.abort(), timeoutMs);
-      let resp: Response | null = null;
-
-      try {
-        await acquireToken();
-        resp = await fetch(nextURL, {
-          method: "GET",
-          headers: {
-            "Content-Type": "application/json",
-            "TRON-PRO-API-KEY": key,
-            "User-Agent": "Mozilla/5.0",
-          },
-          signal: ctrl.signal,
-        });
-      } catch {
-        clearTimeout(timer);
-        controllersRef.current.delete(ctrl);
-        await sleep(600);
-        continue;
-      } finally {
-        clearTimeout(timer);
-        controllersRef.current.delete(ctrl);
-      }
-
-      if (!resp.ok) {
-        const retryAfter = Number(resp.headers.get("retry-after"));
-        if ([429, 403, 500, 502, 503, 504].includes(resp.status)) {
-          let wait = 1200;
-          if (Number.isFinite(retryAfter) && retryAfter !== 0) wait = Math.max(1000, retryAfter * 1000);
-          else if (resp.status === 403) wait = Math.max(wait, 30000);
-          await sleep(wait);
-          continue;
-        }
-        const msg = `TX ${resp.status} ${resp.statusText}`;
-        setErrors((es) => [...es, { address: addr, message: msg }]);
-        break;
-      }
-
-      let json: any = null;
-      try {
-        json = await resp.json();
-      } catch {
-        await sleep(300);
-        continue;
-      }
-
-      const data: any[] = Array.isArray(json?.data) ? json.data : [];
-      if (!data.length) break;
-
-      for (const it of data) {
-        const txid: string = String(it?.txID || it?.transaction_id || "");
-        if (!txid || seenTx.has(txid)) continue;
-        seenTx.add(txid);
-
-        const ts = Number(it?.block_timestamp || 0);
-        const ret = it?.ret?.[0]?.contractRet || "";
-        const c0 = it?.raw_data?.contract?.[0] || {};
-        const type: string =
-          String(c0?.type || "") ||
-          String(c0?.parameter?.type_url || "").split(".").pop() ||
-          "";
-
-        const val = c0?.parameter?.value || {};
-        let from = val?.owner_address || "";
-        let to = val?.to_address || val?.contract_address || "";
-        let amountSun: string | number | undefined =
-          val?.amount ?? val?.call_value ?? undefined;
-        const amountTrx = amountSun != null ? scaleAmount(String(amountSun), 6) : "";
-
-        listOut.push({
-          地址: addr,
-          哈希: txid,
-          类型: type,
-          发起地址: from,
-          接收地址: to,
-          金额TRX: amountTrx,
-          状态: ret || "",
-          时间: ts ? formatTime(ts) : "",
-        });
-      }
-
-      const nextLink: string | undefined = json?.meta?.links?.next;
-      const fingerprint: string | undefined = json?.meta?.fingerprint;
-      if (nextLink) nextURL = toAbs(nextLink);
-      else if (fingerprint) {
-        const url = new URL(base);
-        url.searchParams.set("only_confirmed", "true");
-        url.searchParams.set("limit", "200");
-        url.searchParams.set("order_by", "block_timestamp,desc");
-        url.searchParams.set("fingerprint", fingerprint);
-        nextURL = url.toString();
-      } else {
-        nextURL = null;
-      }
+  // ========== TronGrid: TRC20 转账 ==========
+  // 翻页、行映射与去重都在 Worker 中完成；这里只更新地址状态，返回该地址的行数
+  async function fetchTrc20ForAddress(addr: string, jobId?: string): Promise<number> {
+    const updateStatus = (patch: Partial<{ status: AddrState; count: number; pages: number; message?: string }>) => {
+      setAddrStatus((prev) => ({ ...prev, [addr]: { ...prev[addr], ...patch } }));
+    };
+    updateStatus({ status: "running", pages: 0, count: 0 });
+    const r = await rowStore.crawl(
+      { kind: "tron-trc20", api: tronApi(), addr, contract, window: timeWindow(), pauseMs, jobId },
+      { onPage: ({ pages, count }) => updateStatus({ pages, count }) }
+    );
+    reportCrawlEnd(addr, r);
+    if (r.end === "key" || r.end === "error") updateStatus({ status: "error", message: r.end === "key" ? "" : r.message });
+    return r.count;
+  }
 
-      await sleep(pauseMs);
+  // ========== TronGrid: 交易列表（含内部交易；同时写入 TRX / TRC10 转账台账，TRC10 元数据在 Worker 中按 ID 缓存） ==========
+  async function fetchTransactionsForAddress(addr: string, jobId?: string): Promise<number> {
+    const r = await rowStore.crawl({ kind: "tron-tx", api: tronApi(), addr, window: timeWindow(), pauseMs, jobId });
+    reportCrawlEnd(addr, r, "TX ");
+    // 与 TRC20 相同：交易翻页未完成时地址标为错误（断点仍可继续）
+    if (r.end === "key" || r.end === "error") {
+      const message = r.end === "key" ? "" : `TX ${r.message}`;
+      setAddrStatus((prev) => ({ ...prev, [addr]: { ...prev[addr], status: "error", message } }));
     }
-
-    return listOut;
+    return r.count;
   }
 
   // ===== 格式化 USDT（BigInt 累计 → 字符串） =====
@@ -832,306 +756,601 @@ export default function TronView() {
     return `${sign}${intPart.toString()}${fracStr ? "." + fracStr : ""}`;
   }
 
-  // ====== OKLink：串行队列 + 去重 + 软超时包裹 fetchSlimSummary ======
-  const oklinkQueueRef = useRef<Promise<void>>(Promise.resolve());
-  const oklinkInflightRef = useRef<Map<string, Promise<any>>>(new Map());
-  const oklinkCacheRef = useRef<Map<string, { data: any; ts: number }>>(new Map());
+  // ====== 地址情报：按优先级查询已启用的来源（排队 / 去重 / 软超时 / 缓存见 shared/intel）======
+  const [intel] = useState(createIntelClient);
+  const [intelConfig, setIntelConfig] = useState<IntelConfig>(DEFAULT_INTEL_CONFIG);
 
-  async function withOklinkQueue<T>(fn: () => Promise<T>): Promise<T> {
-    let release!: () => void;
-    const prev = oklinkQueueRef.current;
-    oklinkQueueRef.current = new Promise<void>((res) => (release = res));
-    await prev;
-    try {
-      const result = await fn();
-      await sleepRandom(1000, 2000);
-      return result;
-    } finally {
-      release();
-    }
+  function fetchIntel(addr: string): Promise<IntelResult> {
+    return intel.lookup(addr, "tron", providersOf(intelConfig), () => cancelRef.current.cancelled);
   }
 
-  async function fetchOklinkSummarySafe(
-    addr: string,
-    locale = "zh-hans",
-    maxAttempts = 2,
-    softTimeout = 9000,
-    cacheTtlMs = 5 * 60 * 1000
-  ): Promise<any | null> {
-    if (!addr) return null;
+  const statSymbolOf = (c: string) => STAT_TOKEN_PRESETS.find((t) => t.contract === c)?.symbol;
 
-    // 短期缓存
-    const cached = oklinkCacheRef.current.get(addr);
-    const now = Date.now();
-    if (cached && now - cached.ts < cacheTtlMs) return cached.data;
+  // ===== TronGrid：单个代币的账户聚合（Worker 中翻页、BigInt 累计） =====
+  async function fetchTokenAccountStat(addr: string, tokenContract: string, jobId?: string): Promise<AccountStatRow> {
+    // 聚合结果整行落盘：已完成则直接复用；未完成则重新聚合（中途累计量不做断点）
+    const kind = `stat:${tokenContract}`;
+    if (jobId) {
+      const cp = await loadCheckpoint(jobId, addr, kind).catch(() => null);
+      if (cp?.checkpoint.done && cp.rows[0]) return { 统计状态: "完成", ...(cp.rows[0] as Omit<AccountStatRow, "统计状态">) };
+    }
 
-    // in-flight 去重
-    if (oklinkInflightRef.current.has(addr)) {
-      return oklinkInflightRef.current.get(addr)!;
+    const r = await rowStore.tronStat({ api: tronApi(), addr, contract: tokenContract, window: timeWindow(), countFailed });
+    if (r.end === "key") {
+      setNeedApiKey(true);
+      setAcctStatErrors((es) => (es.some((x) => x.message === r.message) ? es : [...es, { address: addr, message: r.message }]));
+      setAcctStatStatus((prev) => ({ ...prev, [addr]: "error" }));
+    } else if (r.end === "error") {
+      setAcctStatErrors((es) => [...es, { address: addr, message: r.message }]);
+      setAcctStatStatus((prev) => ({ ...prev, [addr]: "error" }));
     }
 
-    const task = (async () => {
-      let lastErr: any = null;
-      for (let attempt = 1; attempt <= maxAttempts && !cancelRef.current.cancelled; attempt++) {
-        try {
-          // 软超时：不再重试“200 但内容为空”的情况，交由上层用 '-' 填充
-          const data = await Promise.race<any>([
-            fetchSlimSummary(addr, locale), // ✅ 使用项目内置解析器
-            new Promise<never>((_, rej) => setTimeout(() => rej(new Error("OKLINK_TIMEOUT")), softTimeout)),
-          ]);
-          oklinkCacheRef.current.set(addr, { data, ts: Date.now() });
-          return data;
-        } catch (e) {
-          lastErr = e as any;
-          const msg = String((e as any)?.message || e || "");
-          // 仅在超时/明显临时错误时退避重试
-          if (attempt < maxAttempts && (msg.includes("TIMEOUT") || msg.includes("429") || msg.startsWith("5"))) {
-            await sleep(600 * attempt + Math.floor(Math.random() * 300));
-            continue;
-          }
-          break;
-        }
-      }
-      // eslint-disable-next-line no-console
-      console.warn("OKLink summary failed:", addr, lastErr);
+    const t = r.stat;
+    const symbol = statSymbolOf(tokenContract) || t.symbol || middleEllipsis(tokenContract);
+    // 翻页未完成：中途累计量不能当作结果，统计量一律置 "-"，状态列写明原因（导出同样带上）
+    if (r.end !== "done") {
+      const reason = r.end === "aborted" ? "已中止" : r.end === "key" ? "API Key 失效" : r.message || "查询出错";
+      return {
+        地址: addr,
+        代币: symbol,
+        代币合约: tokenContract,
+        统计状态: `未完成（${reason}）`,
+        余额: "-",
+        首次交易时间: "-",
+        最近交易时间: "-",
+        最近流出时间: "-",
+        流入金额: "-",
+        流入笔数: "-",
+        流入地址数: "-",
+        流出金额: "-",
+        流出笔数: "-",
+        流出地址数: "-",
+        精度: t.decimals,
+      };
+    }
+    const inRaw = BigInt(t.inRaw);
+    const outRaw = BigInt(t.outRaw);
+    const row: AccountStatRow = {
+      地址: addr,
+      代币: symbol,
+      代币合约: tokenContract,
+      统计状态: "完成",
+      余额: formatUsdtFromRaw(inRaw - outRaw, t.decimals),
+      首次交易时间: t.firstTs ? formatTime(t.firstTs) : "-",
+      最近交易时间: t.lastTs ? formatTime(t.lastTs) : "-",
+      最近流出时间: t.lastOutTs ? formatTime(t.lastOutTs) : "-",
+      流入金额: formatUsdtFromRaw(inRaw, t.decimals),
+      流入笔数: t.inCount,
+      流入地址数: t.inAddrCount,
+      流出金额: formatUsdtFromRaw(outRaw, t.decimals),
+      流出笔数: t.outCount,
+      流出地址数: t.outAddrCount,
+      精度: t.decimals,
+    };
+
+    if (jobId) void saveCheckpoint(jobId, addr, kind, { cursor: null, done: true, pages: 0 }, [row]).catch(() => {});
+    return row;
+  }
+
+  // ===== TronGrid：链上余额（TRX + 持有的 TRC20），未激活账户视为全 0；请求失败返回 null =====
+  type ChainBalances = { trx: bigint; trc20: Record<string, bigint>; trc10: Record<string, bigint> };
+  async function fetchChainBalances(addr: string, onError: (message: string) => void): Promise<ChainBalances | null> {
+    const res = await tronGridGet(`${endpoint.replace(/\/$/, "")}/v1/accounts/${addr}`);
+    if (!res.ok) {
+      if (isKeyFailure(res)) setNeedApiKey(true);
+      if (res.reason !== "aborted") onError(`链上余额查询失败：${res.message}`);
       return null;
-    })();
+    }
+    type Account = { balance?: number; trc20?: Record<string, string>[]; assetV2?: { key?: string; value?: number | string }[] };
+    const acc = (res.json as { data?: Account[] } | null)?.data?.[0] || {};
+    const trc20: Record<string, bigint> = {};
+    // trc20 形如 [{ "T…合约": "原始数量" }, …]
+    for (const o of Array.isArray(acc.trc20) ? acc.trc20 : []) {
+      for (const [c, v] of Object.entries(o || {})) trc20[c] = BigInt(String(v || "0"));
+    }
+    // assetV2 形如 [{ key: "TRC10 代币 ID", value: 原始数量 }, …]
+    const trc10: Record<string, bigint> = {};
+    for (const o of Array.isArray(acc.assetV2) ? acc.assetV2 : []) if (o?.key) trc10[o.key] = BigInt(String(o.value ?? 0));
+    return { trx: BigInt(String(acc.balance ?? 0)), trc20, trc10 };
+  }
 
-    oklinkInflightRef.current.set(addr, task);
-    try {
-      return await task;
-    } finally {
-      oklinkInflightRef.current.delete(addr);
+  // 统计行补上链上余额与差异（时间窗口内的流水推不出当前余额，只展示不比对）
+  function withChainBalance(row: AccountStatRow, chain: ChainBalances | null): AccountStatRow {
+    if (!chain) return { ...row, "余额(链上)": "-", 余额差异: "-", "TRX(链上)": "-" };
+    const decimals = row.精度 ?? 6;
+    const c = row.代币合约;
+    const chainRaw = (c === TRON_STAT_TRX ? chain.trx : isTrc10Id(c) ? chain.trc10[c] : chain.trc20[c]) ?? 0n;
+    const win = parseTimeWindow(startTime, endTime);
+    const computed = parseAmount(row.余额, decimals);
+    return {
+      ...row,
+      "余额(链上)": formatUsdtFromRaw(chainRaw, decimals),
+      余额差异:
+        win.fromMs !== undefined || win.toMs !== undefined
+          ? "时间窗口内不比对"
+          : c === TRON_STAT_TRX
+            ? "含手续费 / 质押，不比对"
+            : computed === null
+            ? "-"
+            : balanceDiff(computed, chainRaw, decimals),
+      "TRX(链上)": formatUsdtFromRaw(chain.trx, 6),
+    };
+  }
+
+  // ===== 账户激活：最早的转入 TRX / TRC10 转账、AccountCreateContract 或内部交易转入 =====
+  type Activation = { from: string; ts: number; amount: string; kind: string; txid: string };
+  // truncated：翻满 ACTIVATION_MAX_PAGES 页仍未找到且还有下一页，如实记为“前 N 条内未找到”
+  type ActivationLookup = { act: Activation | null; truncated: boolean };
+  const ACTIVATION_PAGE_SIZE = 200;
+  const ACTIVATION_MAX_PAGES = 5;
+  // 按 节点|地址 缓存，每次运行开始时清空
+  const activationRef = useRef<Map<string, ActivationLookup>>(new Map());
+
+  // TRC10 精度：与 Worker 相同，查 /v1/assets/{id}；只有请求成功且 data 为空才记 null，失败不缓存
+  const trc10PrecisionRef = useRef<Map<string, number | null>>(new Map());
+  async function trc10Precision(id: string): Promise<number | null> {
+    const key = `${endpoint}|${id}`;
+    if (!trc10PrecisionRef.current.has(key)) {
+      const res = await tronGridGet(tronGridUrl(tronApi(), `/v1/assets/${encodeURIComponent(id)}`));
+      const list = res.ok ? (res.json as { data?: { precision?: number }[] } | null)?.data : undefined;
+      if (!Array.isArray(list)) return null;
+      trc10PrecisionRef.current.set(key, list[0] ? Number(list[0].precision || 0) : null);
     }
+    return trc10PrecisionRef.current.get(key) ?? null;
   }
 
-  // ===== TronGrid：USDT 账户聚合 =====
-  async function fetchUsdtAccountStat(addr: string): Promise<AccountStatRow> {
-    const base = `${endpoint.replace(/\/$/, "")}/v1/accounts/${addr}/transactions/trc20`;
+  async function findActivation(addr: string): Promise<ActivationLookup> {
+    const cacheKey = `${endpoint}|${addr}`;
+    const cached = activationRef.current.get(cacheKey);
+    if (cached) return cached;
+    const path = `/v1/accounts/${addr}/transactions`;
     const qs = new URLSearchParams({
+      only_to: "true",
       only_confirmed: "true",
-      limit: "200",
-      order_by: "block_timestamp,desc",
-      search_internal: "false",
-      contract_address: USDT_CONTRACT,
+      order_by: "block_timestamp,asc",
+      limit: String(ACTIVATION_PAGE_SIZE),
+      search_internal: "true",
     });
+    let url: string | null = `${tronGridUrl(tronApi(), path)}?${qs.toString()}`;
+    let found: Activation | null = null;
+    for (let page = 0; url && !found && page < ACTIVATION_MAX_PAGES; page++) {
+      if (cancelRef.current.cancelled) throw new Error("aborted");
+      const res = await tronGridGet(url);
+      if (!res.ok) {
+        if (isKeyFailure(res)) setNeedApiKey(true);
+        throw new Error(res.reason === "aborted" ? "aborted" : `激活交易查询失败：${res.message}`);
+      }
+      const json = res.json as { data?: TronTxItem[]; meta?: { fingerprint?: string; links?: { next?: string } } } | null;
+      const data = Array.isArray(json?.data) ? json.data : [];
+      found = await activationIn(addr, data);
+      const next = json?.meta?.links?.next;
+      const fingerprint = json?.meta?.fingerprint;
+      url = !data.length
+        ? null
+        : next
+          ? tronGridUrl(tronApi(), next)
+          : fingerprint
+            ? `${tronGridUrl(tronApi(), path)}?${qs.toString()}&fingerprint=${encodeURIComponent(fingerprint)}`
+            : null;
+    }
+    const lookup = { act: found, truncated: !found && !!url };
+    activationRef.current.set(cacheKey, lookup);
+    return lookup;
+  }
 
-    const toAbs = (u: string) =>
-      /^https?:\/\//i.test(u) ? u : `${endpoint.replace(/\/$/, "")}${u.startsWith("/") ? u : "/" + u}`;
-    let nextURL: string | null = `${base}?${qs.toString()}`;
+  // 单页转入交易中最早的激活记录；按时间升序，第一条命中即是
+  async function activationIn(addr: string, data: TronTxItem[]): Promise<Activation | null> {
+    for (const it of data) {
+      const ts = Number(it?.block_timestamp || 0);
+      if (it?.internal_tx_id) {
+        const trx = String(it?.data?.call_value?._ ?? "0");
+        if (tronHexToBase58(it?.to_address || "") !== addr || trx === "0" || it?.data?.rejected) continue;
+        return { from: tronHexToBase58(it?.from_address || ""), ts, amount: formatUsdtFromRaw(BigInt(trx), 6), kind: "内部交易", txid: String(it?.tx_id || "") };
+      }
+      if (it?.ret?.[0]?.contractRet && it.ret[0].contractRet !== "SUCCESS") continue;
+      const c0 = it?.raw_data?.contract?.[0];
+      const v = c0?.parameter?.value || {};
+      const from = tronHexToBase58(v?.owner_address || "");
+      if (c0?.type === "AccountCreateContract" && tronHexToBase58(v?.account_address || "") === addr) {
+        return { from, ts, amount: "0", kind: "创建账户", txid: String(it?.txID || "") };
+      }
+      if ((c0?.type === "TransferContract" || c0?.type === "TransferAssetContract") && tronHexToBase58(v?.to_address || "") === addr) {
+        const raw = String(v?.amount ?? 0);
+        if (c0.type === "TransferContract") {
+          return { from, ts, amount: formatUsdtFromRaw(BigInt(raw), 6), kind: "TRX 转账", txid: String(it?.txID || "") };
+        }
+        // TRC10 数量按代币精度缩放；精度查不到时保留原始单位并注明
+        const id = decodeTronAssetName(v?.asset_name || "");
+        const precision = id ? await trc10Precision(id) : null;
+        return {
+          from,
+          ts,
+          amount: precision === null ? `${raw}（原始单位）` : scaleAmount(raw, precision),
+          kind: `TRC10 转账（${id}）`,
+          txid: String(it?.txID || ""),
+        };
+      }
+    }
+    return null;
+  }
 
-    let decimals = 6;
-    let inRaw = 0n, outRaw = 0n;
-    let inCount = 0, outCount = 0;
-    const inAddrSet = new Set<string>();
-    const outAddrSet = new Set<string>();
-    let tsMin = Number.POSITIVE_INFINITY;
-    let tsMax = 0;
-    let lastOutTs = 0;
+  // 沿激活者逐级上溯（遇到环或找不到即停）；返回第 i 级 = 第 i 个地址的激活交易，truncated = 最后一级只查了前 N 条
+  async function traceActivation(addr: string, depth: number): Promise<{ hops: Activation[]; truncated: boolean }> {
+    const hops: Activation[] = [];
+    const visited = new Set([addr]);
+    let cur = addr;
+    for (let i = 0; i < Math.max(1, depth) && !cancelRef.current.cancelled; i++) {
+      const { act, truncated } = await findActivation(cur);
+      if (!act) return { hops, truncated };
+      hops.push(act);
+      if (!act.from || visited.has(act.from)) break;
+      visited.add(act.from);
+      cur = act.from;
+    }
+    return { hops, truncated: false };
+  }
 
-    setAcctStatStatus((prev) => ({ ...prev, [addr]: "running" as AddrState }));
+  function activationFields(addr: string, { hops, truncated }: { hops: Activation[]; truncated: boolean }): Partial<AccountStatRow> {
+    const miss = truncated ? `前 ${ACTIVATION_PAGE_SIZE * ACTIVATION_MAX_PAGES} 条转入内未找到` : "未找到";
+    const first = hops[0];
+    if (!first) return { "初始手续费来源": "-", "首次入金时间": "-", "首次入账数量": "-", 激活方式: miss, 激活交易: "-", 激活链: "-" };
+    return {
+      "初始手续费来源": first.from || "-",
+      "首次入金时间": first.ts ? formatTime(first.ts) : "-",
+      "首次入账数量": first.amount,
+      激活方式: first.kind,
+      激活交易: first.txid || "-",
+      激活链: [addr, ...hops.map((h) => h.from)].join(" ← ") + (truncated ? `（上一级${miss}）` : ""),
+    };
+  }
 
-    while (!cancelRef.current.cancelled && nextURL) {
-      const key = pick(apiKeys) || "";
-      if (!key) {
-        setNeedApiKey(true);
-        const msg = "请输入有效的 API Key";
-        setAcctStatErrors((es) => (es.some((x) => x.message === msg) ? es : [...es, { address: addr, message: msg }]));
-        setAcctStatStatus((prev) => ({ ...prev, [addr]: "error" }));
-        break;
-      }
+  // 情报来源给出的首笔入金来源只做校验：两边都有值时比对
+  function withActivationCheck(r: AccountStatRow): AccountStatRow {
+    const mine = r["初始手续费来源"];
+    const ok = r["初始手续费来源(情报)"];
+    const has = (v?: string) => !!v && v !== "-";
+    return { ...r, 激活来源校验: has(mine) && has(ok) ? (mine === ok ? "一致" : "不一致") : "-" };
+  }
 
-      const ctrl = new AbortController();
-      controllersRef.current.add(ctrl);
-      const timer = setTimeout(() => ctrl.abort(), timeoutMs);
-      let resp: Response | null = null;
+  // ===== 手续费合计：本地址发起的交易（本地址付费），Worker 中翻页累计 ret[0].fee 与能量消耗 =====
+  async function fetchFeesPaid(addr: string, jobId?: string): Promise<Partial<AccountStatRow>> {
+    const kind = "stat:fees";
+    if (jobId) {
+      const cp = await loadCheckpoint(jobId, addr, kind).catch(() => null);
+      if (cp?.checkpoint.done && cp.rows[0]) return cp.rows[0] as Partial<AccountStatRow>;
+    }
+    const r = await rowStore.tronFees({ api: tronApi(), addr, window: timeWindow() });
+    if (r.end === "key") setNeedApiKey(true);
+    if (r.end !== "done") throw new Error(r.end === "aborted" ? "aborted" : `手续费统计失败：${r.message}`);
+    const fields: Partial<AccountStatRow> = {
+      "已付手续费(TRX)": formatUsdtFromRaw(BigInt(r.feeRaw), 6),
+      付费交易数: r.count,
+      能量消耗合计: r.energy,
+    };
+    if (jobId) void saveCheckpoint(jobId, addr, kind, { cursor: null, done: true, pages: 0 }, [fields]).catch(() => {});
+    return fields;
+  }
 
-      try {
-        await acquireToken();
-        resp = await fetch(nextURL, {
-          method: "GET",
-          headers: {
-            "Content-Type": "application/json",
-            "TRON-PRO-API-KEY": key,
-            "User-Agent": "Mozilla/5.0",
-          },
-          signal: ctrl.signal,
+  // ===== 账户聚合：按所选代币逐个统计，每完成一个代币即更新该 (地址, 代币) 行 =====
+  async function fetchAccountStats(addr: string, jobId?: string): Promise<void> {
+    setAcctStatStatus((prev) => ({ ...prev, [addr]: "running" as AddrState }));
+    // 余额是当前值：每次都重新查询，不走断点
+    const chain = await fetchChainBalances(addr, (message) =>
+      setAcctStatErrors((es) => [...es, { address: addr, message }])
+    );
+    // 激活来源：TronGrid 原生查询（按节点与地址缓存，每次运行清空），失败只记错误
+    const activation = await traceActivation(addr, activationDepth)
+      .then((trace) => activationFields(addr, trace))
+      .catch((e) => {
+        const message = e instanceof Error ? e.message : "";
+        if (message !== "aborted") setAcctStatErrors((es) => [...es, { address: addr, message: message || "激活交易查询失败" }]);
+        return {};
+      });
+    // 手续费合计：按地址计，附到该地址的每一行
+    const fees: Partial<AccountStatRow> = !statFees
+      ? {}
+      : await fetchFeesPaid(addr, jobId).catch((e) => {
+          const message = e instanceof Error ? e.message : "";
+          if (message !== "aborted") setAcctStatErrors((es) => [...es, { address: addr, message: message || "手续费统计失败" }]);
+          return { "已付手续费(TRX)": "-", 付费交易数: "-", 能量消耗合计: "-" };
         });
-      } catch {
-        clearTimeout(timer);
-        controllersRef.current.delete(ctrl);
-        await sleep(600);
-        continue;
-      } finally {
-        clearTimeout(timer);
-        controllersRef.current.delete(ctrl);
-      }
+    for (const c of statContracts) {
+      if (cancelRef.current.cancelled) break;
+      const row = { ...withChainBalance(await fetchTokenAccountStat(addr, c, jobId), chain), ...activation, ...fees };
+      setAcctStats((prev) => {
+        // 情报字段按地址共享：沿用同地址已有行上的标签；新行排在同地址的最后一行之后
+        const same = prev.find((x) => x.地址 === addr && x.实体标签 !== undefined);
+        const merged = withActivationCheck(same ? { ...pickIntelFields(same), ...row } : row);
+        const rest = prev.filter((x) => !(x.地址 === addr && x.代币合约 === c));
+        const at = rest.map((x) => x.地址).lastIndexOf(addr);
+        return at < 0 ? [...rest, merged] : [...rest.slice(0, at + 1), merged, ...rest.slice(at + 1)];
+      });
+    }
+    setAcctStatStatus((prev) => ({ ...prev, [addr]: prev[addr] === "error" ? "error" : ("done" as AddrState) }));
+  }
 
-      if (!resp.ok) {
-        const retryAfter = Number(resp.headers.get("retry-after"));
-        if ([429, 403, 500, 502, 503, 504].includes(resp.status)) {
-          let wait = 1200;
-          if (Number.isFinite(retryAfter) && retryAfter !== 0) wait = Math.max(1000, retryAfter * 1000);
-          else if (resp.status === 403) wait = Math.max(wait, 30000);
-          await sleep(wait);
-          continue;
-        }
-        const msg = `${resp.status} ${resp.statusText}`;
-        setAcctStatErrors((es) => [...es, { address: addr, message: msg }]);
-        setAcctStatStatus((prev) => ({ ...prev, [addr]: "error" }));
-        break;
-      }
+  // ===== TRC20 元数据（symbol / decimals / name）：triggerconstantcontract 常量调用，按合约缓存 =====
+  const trc20MetaRef = useRef<Map<string, { symbol: string; name: string; decimals: number }>>(new Map());
+
+  async function resolveTrc20Meta(contract: string): Promise<{ symbol: string; name: string; decimals: number }> {
+    const hit = trc20MetaRef.current.get(contract);
+    if (hit) return hit;
+    const call = async (selector: string): Promise<string> => {
+      const res = await tronGridPost(`${endpoint.replace(/\/$/, "")}/wallet/triggerconstantcontract`, {
+        owner_address: contract,
+        contract_address: contract,
+        function_selector: selector,
+        visible: true,
+      });
+      return res.ok ? String((res.json as { constant_result?: string[] } | null)?.constant_result?.[0] || "") : "";
+    };
+    const decHex = await call("decimals()");
+    const symbol = decodeAbiString(await call("symbol()")) || statSymbolOf(contract) || "";
+    const name = decodeAbiString(await call("name()"));
+    const decimals = decHex ? Number(BigInt("0x" + decHex)) : NaN;
+    const meta = { symbol: symbol || middleEllipsis(contract), name, decimals: Number.isFinite(decimals) ? decimals : 0 };
+    // 精度没取到（请求失败）时不缓存，下次重试
+    if (decHex) trc20MetaRef.current.set(contract, meta);
+    return meta;
+  }
 
-      let json: any = null;
+  // ===== 持仓快照：/v1/accounts/{addr} 的 TRX 余额 + trc20 列表（跳过 0 余额），可选 USD 估值 =====
+  async function fetchHoldingsForAddress(addr: string): Promise<number> {
+    const onError = (message: string) => setErrors((es) => [...es, { address: addr, message }]);
+    const chain = await fetchChainBalances(addr, onError);
+    if (!chain || cancelRef.current.cancelled) return 0;
+    const ts = Date.now();
+    const items: HoldingItem[] = [{ symbol: "TRX", name: "Tronix", contract: "", raw: chain.trx.toString(), decimals: 6, ts }];
+    for (const [c, raw] of Object.entries(chain.trc20)) {
+      if (raw === 0n) continue;
+      if (cancelRef.current.cancelled) return 0;
+      const meta = await resolveTrc20Meta(c);
+      items.push({ symbol: meta.symbol, name: meta.name, contract: c, raw: raw.toString(), decimals: meta.decimals, ts });
+    }
+    if (holdingUsd) {
       try {
-        json = await resp.json();
-      } catch {
-        await sleep(300);
-        continue;
+        const trxUsd = await fetchNativeUsdPrice("tron");
+        const prices = await fetchTokenUsdPrices("tron", items.slice(1).map((it) => it.contract));
+        for (const it of items) it.usd = it.contract ? prices[it.contract] : trxUsd;
+      } catch (e) {
+        onError(`USD 估值失败：${e instanceof Error ? e.message : e}`);
       }
+    }
+    // 快照：先清掉该地址上一次的持仓行
+    await rowStore.clear({ tables: ["holdings"], addr });
+    const { added } = await rowStore.ingest({ table: "holdings", addr, mapper: "holding", items });
+    return added;
+  }
 
-      const list: any[] = Array.isArray(json?.data) ? json.data : [];
-      if (!list.length) break;
-
-      for (const it of list) {
-        if (it?.type === "Approval") continue;
-        const ti = it?.token_info || {};
-        if (typeof ti?.decimals === "number") decimals = ti.decimals;
-        const ts = Number(it?.block_timestamp || 0);
-        if (ts > 0) {
-          if (ts < tsMin) tsMin = ts;
-          if (ts > tsMax) tsMax = ts;
-        }
-        const from = it?.from || "";
-        const to = it?.to || "";
-        const valRaw = BigInt(String(it?.value ?? "0"));
-        if (to === addr) {
-          inRaw += valRaw;
-          inCount += 1;
-          if (from) inAddrSet.add(from);
-        }
-        if (from === addr) {
-          outRaw += valRaw;
-          outCount += 1;
-          if (to) outAddrSet.add(to);
-          if (ts > lastOutTs) lastOutTs = ts;
-        }
-      }
+  // ===== 账户详情：质押 / 资源 / 代理（含对方地址）/ 投票 / 权限 =====
+  const DELEGATION_DETAIL_MAX = 50; // 每个方向最多逐个查询的代理对象数
+
+  // /wallet/* 的返回（visible=true：地址为 Base58；金额单位 sun），字段都可能缺失
+  type WalletPermission = { id?: number; permission_name?: string; threshold?: number; keys?: { address?: string; weight?: number }[] };
+  type WalletAccount = {
+    balance?: number;
+    create_time?: number;
+    frozenV2?: { type?: string; amount?: number }[];
+    frozen?: { frozen_balance?: number }[];
+    unfrozenV2?: { unfreeze_amount?: number }[];
+    votes?: { vote_address?: string; vote_count?: number }[];
+    owner_permission?: WalletPermission;
+    active_permission?: WalletPermission[];
+    account_resource?: {
+      frozen_balance_for_energy?: { frozen_balance?: number };
+      delegated_frozenV2_balance_for_energy?: number;
+      acquired_delegated_frozenV2_balance_for_energy?: number;
+    };
+    delegated_frozenV2_balance_for_bandwidth?: number;
+    acquired_delegated_frozenV2_balance_for_bandwidth?: number;
+  };
+  type WalletResource = { EnergyUsed?: number; EnergyLimit?: number; NetUsed?: number; freeNetUsed?: number; NetLimit?: number; freeNetLimit?: number };
+  type WalletDelegated = {
+    frozen_balance_for_energy?: number;
+    frozen_balance_for_bandwidth?: number;
+    expire_time_for_energy?: number;
+    expire_time_for_bandwidth?: number;
+  };
 
-      const nextLink: string | undefined = json?.meta?.links?.next;
-      const fingerprint: string | undefined = json?.meta?.fingerprint;
-      if (nextLink) nextURL = toAbs(nextLink);
-      else if (fingerprint) {
-        const url = new URL(base);
-        url.searchParams.set("only_confirmed", "true");
-        url.searchParams.set("limit", "200");
-        url.searchParams.set("order_by", "block_timestamp,desc");
-        url.searchParams.set("search_internal", "false");
-        url.searchParams.set("contract_address", USDT_CONTRACT);
-        url.searchParams.set("fingerprint", fingerprint);
-        nextURL = url.toString();
-      } else {
-        nextURL = null;
-      }
+  async function walletCall<T>(path: string, body: Record<string, string>): Promise<T> {
+    const res = await tronGridPost(`${endpoint.replace(/\/$/, "")}/wallet/${path}`, { ...body, visible: true });
+    if (!res.ok) {
+      if (isKeyFailure(res)) setNeedApiKey(true);
+      throw new Error(res.reason === "aborted" ? "aborted" : `${path} 查询失败：${res.message}`);
     }
+    return (res.json || {}) as T;
+  }
 
-    const balanceRaw = inRaw - outRaw;
-    const row: AccountStatRow = {
-      地址: addr,
-      余额USDT: formatUsdtFromRaw(balanceRaw, decimals),
-      首次交易时间: Number.isFinite(tsMin) ? formatTime(tsMin) : "-",
-      最近交易时间: tsMax > 0 ? formatTime(tsMax) : "-",
-      最近流出时间: lastOutTs > 0 ? formatTime(lastOutTs) : "-",
-      流入金额USDT: formatUsdtFromRaw(inRaw, decimals),
-      流入笔数: inCount,
-      流入地址数: inAddrSet.size,
-      流出金额USDT: formatUsdtFromRaw(outRaw, decimals),
-      流出笔数: outCount,
-      流出地址数: outAddrSet.size,
-    };
+  const sunToTrx = (v: unknown) => formatUsdtFromRaw(BigInt(String(v ?? 0) || "0"), 6);
+  function sumSun<T>(xs: T[], pick: (x: T) => unknown): bigint {
+    return xs.reduce((n, x) => n + BigInt(String(pick(x) ?? 0) || "0"), 0n);
+  }
 
-    setAcctStatStatus((prev) => ({ ...prev, [addr]: "done" as AddrState }));
-    return row;
+  // 权限：阈值 + 签名地址；只有本人一把 Key 且阈值 1 视为"本人"
+  function permText(p?: WalletPermission): string {
+    const keys = Array.isArray(p?.keys) ? p.keys : [];
+    return p ? `阈值 ${Number(p.threshold || 1)} / ${keys.length} 个签名` : "-";
+  }
+  function permControl(addr: string, owner?: WalletPermission): string {
+    const keys = Array.isArray(owner?.keys) ? owner.keys : [];
+    if (!owner || !keys.length) return "本人";
+    if (keys.length > 1 || Number(owner.threshold || 1) > 1) return "多签";
+    return keys[0]?.address === addr ? "本人" : "由其他地址控制";
   }
 
-  // 统一/兼容 OKLink 字段
-  function buildOklinkFields(ok: any): Partial<AccountStatRow> {
-    if (!ok || typeof ok !== "object") {
-      return {
-        "实体标签": "-",
-        "风险标签": "-",
-        "属性标签": "-",
-        "是否合约": "-",
-        "TRON 链总资产": undefined,
-        "余额(TRX)": undefined,
-        "余额(USDT)": undefined,
-        "初始手续费来源": "-",
-        "首次入金时间": "-",
-        "首次入账数量": "-",
-      };
+  async function fetchDelegationPairs(addr: string, dir: "代理出" | "代理入", others: string[]): Promise<DelegationRow[]> {
+    const out: DelegationRow[] = [];
+    for (const other of others.slice(0, DELEGATION_DETAIL_MAX)) {
+      if (cancelRef.current.cancelled) break;
+      const json = await walletCall<{ delegatedResource?: WalletDelegated[] }>(
+        "getdelegatedresourcev2",
+        dir === "代理出" ? { fromAddress: addr, toAddress: other } : { fromAddress: other, toAddress: addr }
+      );
+      const list = Array.isArray(json.delegatedResource) ? json.delegatedResource : [];
+      const maxTs = (k: "expire_time_for_energy" | "expire_time_for_bandwidth") => Math.max(0, ...list.map((d) => Number(d?.[k] || 0)));
+      const eExp = maxTs("expire_time_for_energy");
+      const bExp = maxTs("expire_time_for_bandwidth");
+      out.push({
+        地址: addr,
+        方向: dir,
+        对方地址: other,
+        "能量(TRX)": formatUsdtFromRaw(sumSun(list, (d) => d?.frozen_balance_for_energy), 6),
+        "带宽(TRX)": formatUsdtFromRaw(sumSun(list, (d) => d?.frozen_balance_for_bandwidth), 6),
+        能量到期: eExp ? formatTime(eExp) : "-",
+        带宽到期: bExp ? formatTime(bExp) : "-",
+      });
+    }
+    if (others.length > DELEGATION_DETAIL_MAX) {
+      setErrors((es) => [
+        ...es,
+        { address: addr, message: `${dir}对象共 ${others.length} 个，仅查询前 ${DELEGATION_DETAIL_MAX} 个的明细` },
+      ]);
     }
-    const entity_tag = ok.entity_tag ?? ok.entityTag ?? "";
-    const entity_tags = ok.entity_tags ?? ok.entityTags ?? [];
-    const risk_tags = ok.risk_tags ?? ok.riskTags ?? [];
-    const property_tags = ok.property_tags ?? ok.propertyTags ?? [];
-    const is_contract = ok.is_contract ?? ok.isContract;
-    const total_usd_value = ok.total_usd_value ?? ok.totalUsdValue;
-    const balance_trx = ok.balance_trx ?? ok.balanceTrx;
-    const usdt_holding = ok.usdt_holding ?? ok.usdtHolding;
-    const first_entry_from_address = ok.first_entry_from_address ?? ok.firstEntryFromAddress;
-    const first_entry_timestamp = ok.first_entry_timestamp ?? ok.firstEntryTimestamp;
-    const first_entry_amount = ok.first_entry_amount ?? ok.firstEntryAmount;
-
-    const pickText = (x: any) => (typeof x === "string" ? x : (x?.text ?? ""));
-    const entList = Array.isArray(entity_tags) ? entity_tags.map(pickText).filter(Boolean) : [];
-    const riskList = Array.isArray(risk_tags) ? risk_tags.map(pickText).filter(Boolean) : [];
-    const propList = Array.isArray(property_tags) ? property_tags.map(pickText).filter(Boolean) : [];
-
-    const entTag = (entity_tag || entList.join(" | ") || "-").toString();
-    const riskTag = riskList.length ? riskList.join(" | ") : "-";
-    const propTag = propList.length ? propList.join(" | ") : "-";
-    const isContract = typeof is_contract === "boolean" ? (is_contract ? "是" : "否") : "-";
+    return out;
+  }
+
+  async function fetchAccountDetail(addr: string): Promise<void> {
+    const acc = await walletCall<WalletAccount>("getaccount", { address: addr });
+    const res = await walletCall<WalletResource>("getaccountresource", { address: addr });
+    const idx = await walletCall<{ toAccounts?: string[]; fromAccounts?: string[] }>("getdelegatedresourceaccountindexv2", { value: addr });
+    const toAccounts: string[] = Array.isArray(idx?.toAccounts) ? idx.toAccounts : [];
+    const fromAccounts: string[] = Array.isArray(idx?.fromAccounts) ? idx.fromAccounts : [];
+
+    // Stake 2.0（frozenV2：无 type 为带宽）+ 旧版 Stake 1.0 冻结
+    const frozenV2 = Array.isArray(acc?.frozenV2) ? acc.frozenV2 : [];
+    const ar = acc?.account_resource || {};
+    const stakeOf = (type: string) => sumSun(frozenV2.filter((f) => (f?.type || "BANDWIDTH") === type), (f) => f?.amount);
+    const energy = stakeOf("ENERGY") + BigInt(String(ar?.frozen_balance_for_energy?.frozen_balance ?? 0));
+    const bandwidth =
+      stakeOf("BANDWIDTH") + sumSun(Array.isArray(acc?.frozen) ? acc.frozen : [], (f) => f?.frozen_balance);
+    const unfreezing = sumSun(Array.isArray(acc?.unfrozenV2) ? acc.unfrozenV2 : [], (u) => u?.unfreeze_amount);
+
+    const voteList = Array.isArray(acc?.votes) ? acc.votes : [];
+    const actives = Array.isArray(acc?.active_permission) ? acc.active_permission : [];
+    const owner = acc?.owner_permission;
+
+    const detail: AcctDetailRow = {
+      地址: addr,
+      "余额(TRX)": sunToTrx(acc?.balance),
+      "质押·能量": formatUsdtFromRaw(energy, 6),
+      "质押·带宽": formatUsdtFromRaw(bandwidth, 6),
+      "质押·投票权": formatUsdtFromRaw(stakeOf("TRON_POWER"), 6),
+      解锁中: formatUsdtFromRaw(unfreezing, 6),
+      "能量(已用/上限)": `${Number(res?.EnergyUsed || 0)} / ${Number(res?.EnergyLimit || 0)}`,
+      "带宽(已用/上限)": `${Number(res?.NetUsed || 0) + Number(res?.freeNetUsed || 0)} / ${
+        Number(res?.NetLimit || 0) + Number(res?.freeNetLimit || 0)
+      }`,
+      "代理出·能量": sunToTrx(ar?.delegated_frozenV2_balance_for_energy),
+      "代理出·带宽": sunToTrx(acc?.delegated_frozenV2_balance_for_bandwidth),
+      "代理入·能量": sunToTrx(ar?.acquired_delegated_frozenV2_balance_for_energy),
+      "代理入·带宽": sunToTrx(acc?.acquired_delegated_frozenV2_balance_for_bandwidth),
+      代理出对象数: toAccounts.length,
+      代理入来源数: fromAccounts.length,
+      投票总数: voteList.reduce((n, v) => n + Number(v?.vote_count || 0), 0),
+      投票SR数: voteList.length,
+      Owner权限: permText(owner),
+      Active权限: actives.length ? actives.map((p) => `${p?.permission_name || `#${p?.id}`}：${permText(p)}`).join(" | ") : "-",
+      权限控制: permControl(addr, owner),
+      创建时间: acc?.create_time ? formatTime(Number(acc.create_time)) : "-",
+    };
+
+    const keyRows: PermKeyRow[] = [];
+    const pushKeys = (name: string, p: WalletPermission) => {
+      for (const k of Array.isArray(p?.keys) ? p.keys : []) {
+        keyRows.push({ 地址: addr, 权限: name, 阈值: Number(p?.threshold || 1), 签名地址: String(k?.address || ""), 权重: Number(k?.weight || 0) });
+      }
+    };
+    if (owner) pushKeys("owner", owner);
+    actives.forEach((p) => pushKeys(`active · ${p?.permission_name || `#${p?.id}`}`, p));
+
+    const pairs = [
+      ...(await fetchDelegationPairs(addr, "代理出", toAccounts)),
+      ...(await fetchDelegationPairs(addr, "代理入", fromAccounts)),
+    ];
+
+    // 同一地址重复查询时替换旧结果
+    const keep = <T extends { 地址: string }>(prev: T[]) => prev.filter((r) => r.地址 !== addr);
+    setAcctDetails((prev) => [...keep(prev), detail]);
+    setDelegations((prev) => [...keep(prev), ...pairs]);
+    setVotes((prev) => [
+      ...keep(prev),
+      ...voteList.map((v) => ({ 地址: addr, 超级代表: String(v?.vote_address || ""), 票数: Number(v?.vote_count || 0) })),
+    ]);
+    setPermKeys((prev) => [...keep(prev), ...keyRows]);
+  }
 
+  // 地址情报 → 账户情况字段（r 为 null：尚未查询）
+  function buildIntelFields(r: IntelResult | null): Partial<AccountStatRow> {
+    const contract = r?.isContract;
     return {
-      "实体标签": entTag,
-      "风险标签": riskTag,
-      "属性标签": propTag,
-      "是否合约": isContract,
-      "TRON 链总资产": typeof total_usd_value === "number" ? total_usd_value : undefined,
-      "余额(TRX)": typeof balance_trx === "number" ? balance_trx : undefined,
-      "余额(USDT)": typeof usdt_holding === "number" ? usdt_holding : undefined,
-      "初始手续费来源": first_entry_from_address || "-",
-      "首次入金时间": first_entry_timestamp ? formatTime(Number(first_entry_timestamp)) : "-",
-      "首次入账数量": (first_entry_amount ?? "-") as number | string,
+      "实体标签": intelTagText(r, "entity"),
+      "风险标签": intelTagText(r, "risk"),
+      "属性标签": intelTagText(r, "property"),
+      "是否合约": contract ? (contract.value ? "是" : "否") : "-",
+      "TRON 链总资产": r?.totalUsdValue?.value,
+      "余额(TRX)": r?.balanceNative?.value,
+      "余额(USDT)": r?.usdtHolding?.value,
+      "初始手续费来源(情报)": r?.firstFunder?.value.address || "-",
+      情报来源: intelSourcesText(r),
     };
   }
 
+  const INTEL_KEYS = Object.keys(buildIntelFields(null)) as (keyof AccountStatRow)[];
+  function pickIntelFields(r: AccountStatRow): Partial<AccountStatRow> {
+    const out: Record<string, unknown> = {};
+    for (const k of INTEL_KEYS) out[k] = r[k];
+    return out as Partial<AccountStatRow>;
+  }
+
+  // 情报字段写入该地址的所有代币行
+  function applyIntelFields(addr: string, fields: Partial<AccountStatRow>) {
+    setAcctStats((prev) => prev.map((x) => (x.地址 === addr ? withActivationCheck({ ...x, ...fields }) : x)));
+  }
+
+  // 结构漂移对所有地址都一样：同一条提示只记一次；其余来源失败只体现在“情报来源”列
+  function reportIntelDrift(addr: string, r: IntelResult) {
+    for (const f of r.failed) {
+      if (!f.drift) continue;
+      const message = `${f.source}：${f.message}`;
+      setAcctStatErrors((es) => (es.some((x) => x.message === message) ? es : [...es, { address: addr, message }]));
+    }
+  }
+
+  // 启用的来源全部失败才算失败
+  const intelState = (r: IntelResult): AddrState => (r.answered.length || !r.failed.length ? "done" : "error");
+
   async function enrichOne(addr: string): Promise<void> {
-    setOklinkPending((n) => n + 1);
-    setOklinkStatus((prev) => ({ ...prev, [addr]: "running" }));
+    setIntelPending((n) => n + 1);
+    setIntelStatus((prev) => ({ ...prev, [addr]: "running" }));
     try {
-      const ok = await withOklinkQueue(() => fetchOklinkSummarySafe(addr, "zh-hans"));
-      const fields = buildOklinkFields(ok);
+      const r = await fetchIntel(addr);
       if (cancelRef.current.cancelled) return; // 停止后不更新 UI
-      setAcctStats((prev) => {
-        const idx = prev.findIndex((x) => x.地址 === addr);
-        if (idx === -1) return prev;
-        const next = [...prev];
-        next[idx] = { ...next[idx], ...fields };
-        return next;
-      });
-      setOklinkStatus((prev) => ({ ...prev, [addr]: "done" }));
-    } catch {
-      // 忽略 OKLink 失败
-      setOklinkStatus((prev) => ({ ...prev, [addr]: "error" }))
+      reportIntelDrift(addr, r);
+      applyIntelFields(addr, buildIntelFields(r));
+      setIntelStatus((prev) => ({ ...prev, [addr]: intelState(r) }));
     } finally {
-      setOklinkPending((n) => Math.max(0, n - 1));
-     }
-   }
+      setIntelPending((n) => Math.max(0, n - 1));
+    }
+  }
 
   // ===== 批量 / 单地址 控制 =====
-  async function runAll(): Promise<void> {
+  async function runAll(resume?: JobRecord): Promise<void> {
     if (!addresses.length) return;
+    // 先校验输入：时间窗口不合法时保留可继续的断点
+    if (!checkTimeWindow()) return;
+    setPendingJob(null);
+    // 地址列表或查询参数被改动过则不再沿用旧断点（换了 TronGrid 入口也不沿用，避免两个来源的行混在一起）
+    const reuse =
+      resume &&
+      resume.addresses.length === addresses.length &&
+      resume.addresses.every((a, i) => a === addresses[i]) &&
+      String(resume.params.endpoint ?? "").replace(/\/$/, "") === endpoint.replace(/\/$/, "") &&
+      resume.params.contract === contract &&
+      (resume.params.statContracts ?? []).join(",") === statContracts.join(",") &&
+      (resume.params.countFailed ?? false) === countFailed &&
+      (resume.params.startTime ?? "") === startTime &&
+      (resume.params.endTime ?? "") === endTime;
+    if (reuse) void validateMany(addresses);
 
     setIsAcctRunning(true);
     clearAcctStats();
@@ -1141,7 +1360,7 @@ export default function TronView() {
       return n;
     });
     // 初始化标签查询状态表为 pending（与计算解耦）
-    setOklinkStatus(() => {
+    setIntelStatus(() => {
       const s: Record<string, AddrState> = {};
       addresses.forEach((a) => (s[a] = "pending"));
       return s;
@@ -1149,11 +1368,26 @@ export default function TronView() {
 
     setIsRunning(true);
     cancelRef.current.cancelled = false;
+    activationRef.current.clear();
+    void rowStore.reset();
 
-    setRows([]);
-    setTxRows([]);
+    void rowStore.clear();
     setErrors([]);
 
+    // 断点任务：新建或沿用；IndexedDB 不可用时照常查询，只是无法恢复
+    let jobId: string | undefined = reuse ? resume.id : undefined;
+    try {
+      if (jobId) await setJobStatus(jobId, "running");
+      else jobId = await createJob(
+          "tron",
+          addresses,
+          { endpoint, contract, statContracts, countFailed, startTime, endTime },
+          ["trc20", ...statContracts.map((c) => `stat:${c}`), "tx", "ledger"]
+        );
+    } catch {
+      jobId = undefined;
+    }
+
     let cursor = 0;
 
     const worker = async () => {
@@ -1162,21 +1396,18 @@ export default function TronView() {
         if (i >= addresses.length) return;
         const addr = addresses[i];
         try {
-          const part = await fetchTrc20ForAddress(addr);
-          setRows((prev) => [...prev.filter((r) => r.地址 !== addr), ...part]);
+          const part = await fetchTrc20ForAddress(addr, jobId);
 
-          const statRow = await fetchUsdtAccountStat(addr);
-          setAcctStats((prev) => [...prev.filter((x) => x.地址 !== addr), statRow]);
+          await fetchAccountStats(addr, jobId);
 
           void enrichOne(addr);
 
-          const txPart = await fetchTransactionsForAddress(addr);
-          setTxRows((prev) => [...prev.filter((r) => r.地址 !== addr), ...txPart]);
+          await fetchTransactionsForAddress(addr, jobId);
 
           setAddrStatus((prev) => {
             const cur = prev[addr];
             const status: AddrState = cur?.status === "error" ? "error" : "done";
-            return { ...prev, [addr]: { ...cur, status, count: part.length } };
+            return { ...prev, [addr]: { ...cur, status, count: part } };
           });
         } catch (e) {
           const err = e as any;
@@ -1191,6 +1422,12 @@ export default function TronView() {
     await Promise.all(workers);
     setIsRunning(false);
     setIsAcctRunning(false);
+
+    // 全部完成则删除断点；否则保留为可继续
+    if (jobId) {
+      const complete = await settleJob(jobId).catch(() => true);
+      if (!complete) setPendingJob(await getJob(jobId).catch(() => null));
+    }
   }
 
   async function runOne(): Promise<void> {
@@ -1203,6 +1440,7 @@ export default function TronView() {
       setErrors((prev) => (prev.some((e) => e.message === msg) ? prev : [...prev, { address: "", message: msg }]));
       return;
     }
+    if (!checkTimeWindow()) return;
 
     setAddresses((prev) => {
       const res = ensureListWithAddress(prev, addr);
@@ -1218,29 +1456,28 @@ export default function TronView() {
 
     setIsRunning(true);
     setIsAcctRunning(true);
+    cancelRef.current.cancelled = false;
+    activationRef.current.clear();
+    void rowStore.reset();
     setAcctStatStatus((prev) => ({ ...prev, [addr]: "pending" }));
-    setOklinkStatus((prev) => ({ ...prev, [addr]: "pending" }));
+    setIntelStatus((prev) => ({ ...prev, [addr]: "pending" }));
     setAcctStats((prev) => prev.filter((r) => r.地址 !== addr));
     setAcctStatErrors((prev) => prev.filter((e) => e.address !== addr));
-    setRows((prev) => prev.filter((r) => r.地址 !== addr));
-    setTxRows((prev) => prev.filter((r) => r.地址 !== addr));
+    void rowStore.clear({ addr });
 
     try {
       const part = await fetchTrc20ForAddress(addr);
-      setRows((prev) => [...prev.filter((r) => r.地址 !== addr), ...part]);
 
-      const statRow = await fetchUsdtAccountStat(addr);
-      setAcctStats((prev) => [...prev.filter((x) => x.地址 !== addr), statRow]);
+      await fetchAccountStats(addr);
 
       await enrichOne(addr);
 
-      const txPart = await fetchTransactionsForAddress(addr);
-      setTxRows((prev) => [...prev.filter((r) => r.地址 !== addr), ...txPart]);
+      await fetchTransactionsForAddress(addr);
 
       setAddrStatus((prev) => {
         const cur = prev[addr];
         const status: AddrState = cur?.status === "error" ? "error" : "done";
-        return { ...prev, [addr]: { ...cur, status, count: part.length } };
+        return { ...prev, [addr]: { ...cur, status, count: part } };
       });
     } catch (e) {
       const err = e as any;
@@ -1272,15 +1509,15 @@ export default function TronView() {
 
   function stopAll(): void {
     cancelRef.current.cancelled = true;
-    controllersRef.current.forEach((c) => { try { c.abort(); } catch {} });
-    controllersRef.current.clear();
+    void rowStore.abort();
     setIsRunning(false);
     setIsAcctRunning(false);
   }
   function clearAll(): void {
     setAddresses([]);
-    setRows([]);
-    setTxRows([]);
+    void rowStore.clear();
+    setHoldingDone(0);
+    clearAccountDetails();
     setErrors([]);
     setAddrStatus({});
     setValidMap({});
@@ -1292,8 +1529,9 @@ export default function TronView() {
     setNeedApiKey(false);
     setErrorAlertVisible(false);
     clearAcctStats();
-    setOklinkStatus({});
-    setOklinkPending(0);
+    setIntelStatus({});
+    setIntelPending(0);
+    setPendingJob(null);
     if (errorTimerRef.current) {
       clearTimeout(errorTimerRef.current);
       errorTimerRef.current = null;
@@ -1319,9 +1557,8 @@ export default function TronView() {
       const { [addr]: _rm, ...rest } = prev as any;
       return rest as any;
     });
-    setRows((prev) => prev.filter((r) => r.地址 !== addr));
-    setTxRows((prev) => prev.filter((r) => r.地址 !== addr));
-    setOklinkStatus((prev) => {
+    void rowStore.clear({ addr });
+    setIntelStatus((prev) => {
       const { [addr]: _rm, ...rest } = prev as any;
       return rest as any;
     });
@@ -1356,9 +1593,8 @@ export default function TronView() {
       const { [oldAddr]: oldS, ...rest } = prev as any;
       return { ...rest, [newAddr]: oldS || "pending" } as any;
     });
-    setRows((prev) => prev.filter((r) => r.地址 !== oldAddr));
-    setTxRows((prev) => prev.filter((r) => r.地址 !== oldAddr));
-    setOklinkStatus((prev) => {
+    void rowStore.clear({ addr: oldAddr });
+    setIntelStatus((prev) => {
       const { [oldAddr]: oldS, ...rest } = prev as any;
       return { ...rest, [newAddr]: oldS || "pending" } as any;
     });
@@ -1407,6 +1643,18 @@ export default function TronView() {
     setRowCandidates((prev) => ({ ...prev, [addr]: cands }));
   }
 
+  // 账户统计：添加自定义 TRC20 合约（Base58Check 校验）或 TRC10 代币 ID（纯数字）
+  async function addStatToken(): Promise<void> {
+    const c = customStatToken.trim();
+    if (!c) return;
+    if (!isTrc10Id(c) && !(await isValidTronAddress(c))) {
+      setAcctStatErrors((es) => [...es, { address: c, message: "合约地址格式错误（TRC10 请填纯数字代币 ID）" }]);
+      return;
+    }
+    setStatContracts((prev) => (prev.includes(c) ? prev : [...prev, c]));
+    setCustomStatToken("");
+  }
+
   // 账户情况：独立按钮
 async function runAcctStats(): Promise<void> {
   if (!addresses.length) return;
@@ -1416,8 +1664,15 @@ async function runAcctStats(): Promise<void> {
     setAcctStatErrors((es) => (es.some((x) => x.message === msg) ? es : [...es, { address: "", message: msg }]));
     return;
   }
+  const { error: winError } = parseTimeWindow(startTime, endTime);
+  if (winError) {
+    setAcctStatErrors([{ address: "", message: winError }]);
+    return;
+  }
   setIsAcctRunning(true);
   cancelRef.current.cancelled = false;
+  activationRef.current.clear();
+  void rowStore.reset();
 
   setAcctStats([]);
   setAcctStatErrors([]);
@@ -1427,7 +1682,7 @@ async function runAcctStats(): Promise<void> {
     return next;
   });
   // 初始化标签查询状态为 pending（独立统计）
-  setOklinkStatus(() => {
+  setIntelStatus(() => {
     const s: Record<string, AddrState> = {};
     addresses.forEach((a) => (s[a] = "pending"));
     return s;
@@ -1436,23 +1691,13 @@ async function runAcctStats(): Promise<void> {
   for (const a of addresses) {
     if (cancelRef.current.cancelled) break;
     try {
-      setAcctStatStatus((prev) => ({ ...prev, [a]: "running" as AddrState }));
-      const base = await fetchUsdtAccountStat(a);
-
-      let ok: any = null;
-      try {
-        setOklinkStatus((prev) => ({ ...prev, [a]: "running" as AddrState }));
-        ok = await withOklinkQueue(() => fetchOklinkSummarySafe(a, "zh-hans"));
-        setOklinkStatus((prev) => ({ ...prev, [a]: "done" as AddrState }));
-      } catch {
-        ok = null;
-        setOklinkStatus((prev) => ({ ...prev, [a]: "error" as AddrState }));
-      }
+      await fetchAccountStats(a);
 
-      const merged: AccountStatRow = { ...base, ...buildOklinkFields(ok) };
-
-      setAcctStats((prev) => [...prev.filter((x) => x.地址 !== a), merged]);
-      setAcctStatStatus((prev) => ({ ...prev, [a]: "done" as AddrState }));
+      setIntelStatus((prev) => ({ ...prev, [a]: "running" as AddrState }));
+      const r = await fetchIntel(a);
+      reportIntelDrift(a, r);
+      setIntelStatus((prev) => ({ ...prev, [a]: intelState(r) }));
+      applyIntelFields(a, buildIntelFields(r));
     } catch (e) {
       const err = e as any;
       setAcctStatErrors((es) => [...es, { address: a, message: err?.message || "未知错误" }]);
@@ -1466,26 +1711,110 @@ async function runAcctStats(): Promise<void> {
 }
 
 
+  // 持仓快照：独立按钮（不影响转账 / 交易结果与断点任务）
+  async function runHoldings(): Promise<void> {
+    if (!addresses.length) return;
+    if (apiKeys.length === 0) {
+      setNeedApiKey(true);
+      const msg = "请输入有效的 API Key";
+      setErrors((prev) => (prev.some((e) => e.message === msg) ? prev : [...prev, { address: "", message: msg }]));
+      return;
+    }
+    setIsRunning(true);
+    cancelRef.current.cancelled = false;
+    void rowStore.reset();
+    setHoldingDone(0);
+    void rowStore.clear({ tables: ["holdings"] });
+
+    let cursor = 0;
+    const worker = async () => {
+      while (!cancelRef.current.cancelled) {
+        const i = cursor++;
+        if (i >= addresses.length) return;
+        const addr = addresses[i];
+        try {
+          await fetchHoldingsForAddress(addr);
+        } catch (e) {
+          setErrors((es) => [...es, { address: addr, message: (e instanceof Error && e.message) || "未知错误" }]);
+        }
+        setHoldingDone((n) => n + 1);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, concurrency) }, () => worker()));
+    setIsRunning(false);
+  }
+
+  // 账户详情：独立按钮，逐个地址查询（与批量查询共用停止标志）
+  async function runAccountDetails(): Promise<void> {
+    if (!addresses.length) return;
+    if (apiKeys.length === 0) {
+      setNeedApiKey(true);
+      const msg = "请输入有效的 API Key";
+      setErrors((prev) => (prev.some((e) => e.message === msg) ? prev : [...prev, { address: "", message: msg }]));
+      return;
+    }
+    setIsRunning(true);
+    cancelRef.current.cancelled = false;
+    void rowStore.reset();
+    clearAccountDetails();
+    for (const a of addresses) {
+      if (cancelRef.current.cancelled) break;
+      try {
+        await fetchAccountDetail(a);
+      } catch (e) {
+        const message = e instanceof Error ? e.message : "";
+        if (message !== "aborted") setErrors((es) => [...es, { address: a, message: message || "未知错误" }]);
+      }
+      setDetailDone((n) => n + 1);
+    }
+    setIsRunning(false);
+  }
+  function clearAccountDetails(): void {
+    setAcctDetails([]);
+    setDelegations([]);
+    setVotes([]);
+    setPermKeys([]);
+    setDetailDone(0);
+  }
+  function downloadDetailExcel(): void {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(acctDetails), "账户详情");
+    if (delegations.length) XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(delegations), "资源代理");
+    if (votes.length) XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(votes), "投票");
+    if (permKeys.length) XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(permKeys), "权限");
+    XLSX.writeFile(wb, `${tsTag("TRON_账户详情")}.xlsx`);
+  }
+
   function clearAcctStats(): void {
     setAcctStats([]);
     setAcctStatErrors([]);
     setAcctStatStatus({});
-    setOklinkStatus({});
-    setOklinkPending(0);
+    setIntelStatus({});
+    setIntelPending(0);
+  }
+  // 导出行：地址后插入名单命中两列（没有导入名单时不加）
+  function acctExportRows(): object[] {
+    if (!screenListInfos().length) return acctStats;
+    return acctStats.map(({ 地址, ...rest }) => {
+      const e = acctExposure[地址];
+      return { 地址, 名单命中: hitsText(e?.direct ?? []) || "-", 一跳命中: hopText(e?.hop ?? []) || "-", ...rest };
+    });
   }
   function downloadAcctExcel(): void {
     const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(acctStats), "账户情况USDT");
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(acctExportRows()), "账户情况");
     if (acctStatErrors.length) XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(acctStatErrors), "账户情况错误");
-    XLSX.writeFile(wb, `TRON_账户情况USDT_${new Date().toISOString().slice(0,19).replace(/[:T]/g,"-")}.xlsx`);
+    const hits = Object.entries(acctExposure).flatMap(([a, e]) => exposureRows(a, e));
+    if (hits.length) XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(hits), "命中名单");
+    XLSX.writeFile(wb, `TRON_账户情况_${new Date().toISOString().slice(0,19).replace(/[:T]/g,"-")}.xlsx`);
   }
   function downloadAcctCSV(): void {
-    const ws = XLSX.utils.json_to_sheet(acctStats);
+    const ws = XLSX.utils.json_to_sheet(acctExportRows());
     const csv = XLSX.utils.sheet_to_csv(ws);
     const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
     const a = document.createElement("a");
     a.href = URL.createObjectURL(blob);
-    a.download = `TRON_账户情况USDT_${new Date().toISOString().slice(0,19).replace(/[:T]/g,"-")}.csv`;
+    a.download = `TRON_账户情况_${new Date().toISOString().slice(0,19).replace(/[:T]/g,"-")}.csv`;
     a.click();
     URL.revokeObjectURL(a.href);
   }
@@ -1524,6 +1853,131 @@ async function runAcctStats(): Promise<void> {
     return <span className={`${base} bg-neutral-100 text-neutral-600`}>未知</span>;
   };
 
+  // 查询结果表列（地址/哈希等宽字体单行省略，悬停看完整值）
+  const mono = (v?: string) => (
+    <span className="font-mono text-xs truncate" title={v || ""}>
+      {v || "-"}
+    </span>
+  );
+  // 对手地址：第二行为本地标签库的标签（可点击编辑）
+  const counterpartyCell = (v?: string) => (v ? <LabeledAddress address={v} chain="tron">{mono(v)}</LabeledAddress> : "-");
+  // 失败交易（Worker 标记为 "失败（REVERT）" 等）红色醒目
+  const statusCell = (v?: string) =>
+    (v || "").startsWith("失败") ? (
+      <span className="rounded-md bg-rose-50 px-1.5 text-xs font-medium text-rose-700 truncate" title={v}>
+        {v}
+      </span>
+    ) : (
+      v || "-"
+    );
+  const trc20Columns: VirtualColumn[] = [
+    { key: "地址", header: "地址", width: 280, align: "center", render: (r) => mono(r.地址) },
+    { key: "哈希", header: "哈希", width: 200, align: "center", render: (r) => mono(r.哈希) },
+    { key: "发起地址", header: "发起地址", width: 280, align: "center", render: (r) => counterpartyCell(r.发起地址) },
+    { key: "接收地址", header: "接收地址", width: 280, align: "center", render: (r) => counterpartyCell(r.接收地址) },
+    { key: "数量", header: "数量", width: 120, align: "center", render: (r) => formatHumanAmount2(r.数量) },
+    { key: "代币", header: "代币", width: 90, align: "center" },
+    { key: "时间", header: "时间", width: 140, align: "center", render: (r) => <TimeCell value={r.时间} /> },
+  ];
+  const txColumns: VirtualColumn[] = [
+    { key: "地址", header: "地址", width: 280, align: "center", render: (r) => mono(r.地址) },
+    { key: "哈希", header: "哈希", width: 200, align: "center", render: (r) => mono(r.哈希) },
+    // 类型：显示中文映射
+    { key: "类型", header: "类型", width: 140, align: "center", render: (r) => translateTronType(r.类型) },
+    { key: "发起地址", header: "发起地址", width: 280, align: "center", render: (r) => counterpartyCell(r.发起地址) },
+    { key: "接收地址", header: "接收地址", width: 280, align: "center", render: (r) => counterpartyCell(r.接收地址) },
+    {
+      key: "金额TRX",
+      header: "金额(TRX)",
+      width: 120,
+      align: "center",
+      render: (r) => (r.金额TRX ? formatHumanAmount2(r.金额TRX) : "-"),
+    },
+    // 合约调用解码（transfer / transferFrom / approve）
+    { key: "调用方法", header: "调用方法", width: 120, align: "center", render: (r) => r.调用方法 || "-" },
+    {
+      key: "代币接收地址",
+      header: "代币接收(授权)地址",
+      width: 280,
+      align: "center",
+      render: (r) => counterpartyCell(r.代币接收地址),
+    },
+    {
+      key: "代币数量",
+      header: "代币数量",
+      width: 140,
+      align: "center",
+      render: (r) =>
+        r.代币数量 ? `${r.代币 === "原始单位" ? r.代币数量 : formatHumanAmount2(r.代币数量)} ${r.代币}` : "-",
+    },
+    { key: "状态", header: "状态", width: 120, align: "center", render: (r) => statusCell(r.状态) },
+    // 费用（发起方支付）：总手续费 = 能量费 + 带宽费 + 其他固定费用
+    { key: "手续费TRX", header: "手续费(TRX)", width: 110, align: "center", render: (r) => r.手续费TRX || "-" },
+    { key: "能量消耗", header: "能量消耗", width: 100, align: "center", render: (r) => r.能量消耗 || "-" },
+    { key: "能量费TRX", header: "能量费(TRX)", width: 110, align: "center", render: (r) => r.能量费TRX || "-" },
+    { key: "带宽费TRX", header: "带宽费(TRX)", width: 110, align: "center", render: (r) => r.带宽费TRX || "-" },
+    { key: "时间", header: "时间", width: 140, align: "center", render: (r) => <TimeCell value={r.时间 || "-"} /> },
+  ];
+  // TRX / TRC10 转账台账（TRX 转账、TRC10 转账、内部交易）
+  const ledgerColumns: VirtualColumn[] = [
+    { key: "地址", header: "地址", width: 280, align: "center", render: (r) => mono(r.地址) },
+    { key: "哈希", header: "哈希", width: 200, align: "center", render: (r) => mono(r.哈希) },
+    { key: "来源", header: "来源", width: 110, align: "center" },
+    {
+      key: "方向",
+      header: "方向",
+      width: 80,
+      align: "center",
+      render: (r) => (
+        <span className={r.方向 === "转入" ? "text-emerald-700" : r.方向 === "转出" ? "text-rose-700" : ""}>
+          {r.方向 || "-"}
+        </span>
+      ),
+    },
+    { key: "对方地址", header: "对方地址", width: 280, align: "center", render: (r) => counterpartyCell(r.对方地址) },
+    { key: "数量", header: "数量", width: 120, align: "center", render: (r) => formatHumanAmount2(r.数量) },
+    {
+      key: "代币",
+      header: "代币",
+      width: 120,
+      align: "center",
+      render: (r) => (
+        <span className="truncate" title={r.代币ID ? `${r.代币名称 || r.代币} · ID ${r.代币ID}` : r.代币名称}>
+          {r.代币}
+        </span>
+      ),
+    },
+    { key: "状态", header: "状态", width: 120, align: "center", render: (r) => statusCell(r.状态) },
+    { key: "时间", header: "时间", width: 140, align: "center", render: (r) => <TimeCell value={r.时间 || "-"} /> },
+  ];
+
+  // 持仓快照
+  const holdingColumns: VirtualColumn[] = [
+    { key: "地址", header: "地址", width: 280, align: "center", render: (r) => mono(r.地址) },
+    {
+      key: "代币",
+      header: "代币",
+      width: 120,
+      align: "center",
+      render: (r) => (
+        <span className="truncate" title={r.代币名称}>
+          {r.代币 || "-"}
+        </span>
+      ),
+    },
+    { key: "合约", header: "合约", width: 280, align: "center", render: (r) => (r.合约 ? mono(r.合约) : "-") },
+    { key: "数量", header: "数量", width: 140, align: "center", render: (r) => formatHumanAmount2(r.数量) },
+    { key: "单价(USD)", header: "单价(USD)", width: 110, align: "center", render: (r) => r["单价(USD)"] || "-" },
+    {
+      key: "价值(USD)",
+      header: "价值(USD)",
+      width: 120,
+      align: "center",
+      render: (r) => (r["价值(USD)"] ? formatHumanAmount2(r["价值(USD)"]) : "-"),
+    },
+    { key: "快照时间", header: "快照时间", width: 140, align: "center", render: (r) => <TimeCell value={r.快照时间 || "-"} /> },
+  ];
+
   return (
     <div className="p-4 md:p-6">
       <Card className="rounded-2xl shadow-lg border border-neutral-200/70 bg-white/90">
@@ -1668,6 +2122,40 @@ async function runAcctStats(): Promise<void> {
                       />
                     </div>
 
+                    <div className="sm:col-span-2">
+                      <Label className="text-sm text-muted-foreground">时间范围（可选，本地时间）</Label>
+                      <div className="mt-2 flex flex-wrap items-center gap-2">
+                        <Input
+                          type="datetime-local"
+                          className="w-56 rounded-2xl focus-visible:ring-2 focus-visible:ring-indigo-500/60 focus-visible:ring-offset-2"
+                          value={startTime}
+                          max={endTime || undefined}
+                          onChange={(e) => setStartTime(e.target.value)}
+                        />
+                        <span className="text-neutral-400">至</span>
+                        <Input
+                          type="datetime-local"
+                          className="w-56 rounded-2xl focus-visible:ring-2 focus-visible:ring-indigo-500/60 focus-visible:ring-offset-2"
+                          value={endTime}
+                          min={startTime || undefined}
+                          onChange={(e) => setEndTime(e.target.value)}
+                        />
+                        {(startTime || endTime) && (
+                          <Button
+                            variant="outline"
+                            className="rounded-xl"
+                            onClick={() => {
+                              setStartTime("");
+                              setEndTime("");
+                            }}
+                          >
+                            不限
+                          </Button>
+                        )}
+                      </div>
+                      <div className="mt-1 text-xs text-neutral-500">转账、交易与账户统计均只查询该时间段内的记录</div>
+                    </div>
+
                     <div>
                       <Label className="text-sm text-muted-foreground">并发数量（建议 2–4）</Label>
                       <div className="mt-2 flex items-center gap-2">
@@ -1763,22 +2251,44 @@ async function runAcctStats(): Promise<void> {
                         <AlertDescription>请输入有效的 API Key</AlertDescription>
                       </Alert>
                     )}
+                    <KeyHealthTable provider="trongrid" keys={apiKeys} />
                   </div>
                 </TabsContent>
               </Tabs>
 
               <Separator className="my-4" />
 
+              {pendingJob && !isRunning && (
+                <Alert className="mb-3 rounded-2xl">
+                  <AlertTitle>有未完成的批量任务</AlertTitle>
+                  <AlertDescription>
+                    已完成 {jobProgress(pendingJob).done}/{jobProgress(pendingJob).total} 个地址，
+                    已拉取的分页保存在本地浏览器中。确认 API Key 后点击「继续任务」从断点接着查询。
+                  </AlertDescription>
+                </Alert>
+              )}
+
               <div className="flex flex-wrap gap-3">
                 {!isRunning ? (
-                  <Button
-                    className="rounded-2xl bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white hover:from-indigo-500 hover:to-fuchsia-500"
-                    disabled={!addresses.length}
-                    onClick={() => void runAll()}
-                  >
-                    <Play className="mr-2 h-4 w-4" />
-                    开始批量查询
-                  </Button>
+                  pendingJob ? (
+                    <Button
+                      className="rounded-2xl bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white hover:from-indigo-500 hover:to-fuchsia-500"
+                      disabled={!addresses.length}
+                      onClick={() => void runAll(pendingJob)}
+                    >
+                      <Play className="mr-2 h-4 w-4" />
+                      继续任务
+                    </Button>
+                  ) : (
+                    <Button
+                      className="rounded-2xl bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white hover:from-indigo-500 hover:to-fuchsia-500"
+                      disabled={!addresses.length}
+                      onClick={() => void runAll()}
+                    >
+                      <Play className="mr-2 h-4 w-4" />
+                      开始批量查询
+                    </Button>
+                  )
                 ) : (
                   <Button
                     variant="secondary"
@@ -1789,6 +2299,25 @@ async function runAcctStats(): Promise<void> {
                     停止
                   </Button>
                 )}
+                <Button
+                  variant="outline"
+                  className="rounded-2xl hover:ring-1 hover:ring-neutral-300"
+                  disabled={isRunning || !addresses.length}
+                  onClick={() => void runHoldings()}
+                  title="查询各地址当前持有的 TRX 与全部 TRC20（结果见「持仓」标签页）"
+                >
+                  <Wallet className="mr-2 h-4 w-4" />
+                  持仓快照{holdingDone > 0 && holdingDone < addresses.length ? `（${holdingDone}/${addresses.length}）` : ""}
+                </Button>
+                <Button
+                  variant={holdingUsd ? "default" : "outline"}
+                  className={`rounded-2xl ${holdingUsd ? "bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white" : "hover:ring-1 hover:ring-neutral-300"}`}
+                  disabled={isRunning}
+                  onClick={() => setHoldingUsd((v) => !v)}
+                  title="持仓快照附带 USD 单价与价值（CoinGecko 公共接口，查不到的代币不估值）"
+                >
+                  USD 估值：{holdingUsd ? "开" : "关"}
+                </Button>
                 <Button variant="outline" className="rounded-2xl hover:ring-1 hover:ring-neutral-300" onClick={clearAll}>
                   <Trash2 className="mr-2 h-4 w-4" />
                   清空
@@ -1796,7 +2325,7 @@ async function runAcctStats(): Promise<void> {
                 <Button
                   variant="outline"
                   className="rounded-2xl hover:ring-1 hover:ring-neutral-300"
-                  disabled={exporting !== null || !(allDone && (rows.length > 0 || txRows.length > 0))}
+                  disabled={exporting !== null || !canExport}
                   onClick={() => void downloadExcel()}
                 >
                   <Download className="mr-2 h-4 w-4" />
@@ -1805,11 +2334,11 @@ async function runAcctStats(): Promise<void> {
                 <Button
                   variant="outline"
                   className="rounded-2xl hover:ring-1 hover:ring-neutral-300"
-                  disabled={exporting !== null || !(allDone && (rows.length > 0 || txRows.length > 0))}
+                  disabled={exporting !== null || !canExport}
                   onClick={() => void downloadCSV()}
                 >
                   <Download className="mr-2 h-4 w-4" />
-                  导出 CSV（2个文件）
+                  导出 CSV（按表分文件）
                 </Button>
               </div>
 				{exporting && (
@@ -1944,29 +2473,113 @@ async function runAcctStats(): Promise<void> {
             </CardContent>
           </Card>
 
-          {/* 账户情况（USDT） */}
+          {/* 账户情况（按所选代币：TRC20 / TRX / TRC10，每个 地址 × 代币 一行） */}
           <Card className="rounded-2xl shadow-md border border-neutral-200/60 bg-white/80 mt-6">
             <CardHeader className="pb-3 flex flex-row items-center gap-2">
               <FileSpreadsheet className="h-5 w-5" />
-              <CardTitle className="text-base font-semibold">账户情况（USDT）</CardTitle>
+              <CardTitle className="text-base font-semibold">
+                账户情况（{statContracts.map((c) => statSymbolOf(c) || middleEllipsis(c)).join(" / ") || "未选代币"}）
+              </CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
+              {/* 统计代币：预置切换 + 自定义合约 */}
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-muted-foreground">统计代币</span>
+                {STAT_TOKEN_PRESETS.map((t) => {
+                  const on = statContracts.includes(t.contract);
+                  return (
+                    <Button
+                      key={t.contract}
+                      variant={on ? "default" : "outline"}
+                      className={`h-8 rounded-xl ${on ? "bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white" : ""}`}
+                      disabled={isAcctRunning}
+                      title={t.contract}
+                      onClick={() =>
+                        setStatContracts((prev) => (on ? prev.filter((c) => c !== t.contract) : [...prev, t.contract]))
+                      }
+                    >
+                      {t.symbol}
+                    </Button>
+                  );
+                })}
+                {statContracts
+                  .filter((c) => !statSymbolOf(c))
+                  .map((c) => (
+                    <span key={c} className="inline-flex items-center gap-1 rounded-xl border px-2 h-8 text-xs font-mono" title={c}>
+                      {middleEllipsis(c)}
+                      <button
+                        className="text-neutral-500 hover:text-rose-600 disabled:opacity-40"
+                        disabled={isAcctRunning}
+                        onClick={() => setStatContracts((prev) => prev.filter((x) => x !== c))}
+                        title="移除"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                <Input
+                  className="h-8 w-72 rounded-xl"
+                  value={customStatToken}
+                  onChange={(e) => setCustomStatToken(e.target.value)}
+                  placeholder="自定义 TRC20 合约（T...）或 TRC10 代币 ID"
+                />
+                <Button
+                  variant="outline"
+                  className="h-8 rounded-xl"
+                  disabled={isAcctRunning || !customStatToken.trim()}
+                  onClick={() => void addStatToken()}
+                >
+                  <PlusCircle className="mr-1 h-4 w-4" />
+                  添加
+                </Button>
+                <span className="ml-2 text-sm text-muted-foreground">激活链层数</span>
+                <Input
+                  type="number"
+                  className="h-8 w-20 rounded-xl"
+                  min={1}
+                  max={10}
+                  value={activationDepth}
+                  disabled={isAcctRunning}
+                  onChange={(e) => setActivationDepth(Math.min(10, Math.max(1, Number(e.target.value) || 1)))}
+                />
+                <Button
+                  variant={statFees ? "default" : "outline"}
+                  className={`h-8 rounded-xl ${statFees ? "bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white" : ""}`}
+                  disabled={isAcctRunning}
+                  onClick={() => setStatFees((v) => !v)}
+                  title="统计本地址发起交易付出的手续费（需翻完全部发起交易）"
+                >
+                  手续费统计：{statFees ? "开" : "关"}
+                </Button>
+                <Button
+                  variant={countFailed ? "default" : "outline"}
+                  className={`h-8 rounded-xl ${countFailed ? "bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white" : ""}`}
+                  disabled={isAcctRunning}
+                  onClick={() => setCountFailed((v) => !v)}
+                  title="失败的 TRX / TRC10 转账金额并未转移，缺省不计入流入流出（TRC20 失败交易不产生转账事件，手续费照常计入）；下次统计生效"
+                >
+                  失败交易计入统计：{countFailed ? "开" : "关"}
+                </Button>
+              </div>
+
+              <IntelSourcesBar config={intelConfig} onChange={setIntelConfig} disabled={isAcctRunning || intelPending > 0} family="tron" />
+
               <div className="flex flex-wrap gap-3">
-                {!(isAcctRunning || oklinkPending > 0) ? (
+                {!(isAcctRunning || intelPending > 0) ? (
                   <Button
                     className="rounded-2xl bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white hover:from-indigo-500 hover:to-fuchsia-500"
-                    disabled={!addresses.length}
+                    disabled={!addresses.length || !statContracts.length}
                     onClick={() => void runAcctStats()}
-                    title="按当前地址列表统计 USDT（TronGrid 分页聚合）"
+                    title="按当前地址列表统计所选代币（TronGrid 分页聚合）"
                   >
                     <Play className="mr-2 h-4 w-4" />
-                    统计账户情况（USDT）
+                    统计账户情况
                   </Button>
                 ) : (
                   <Button
                     className="rounded-2xl bg-neutral-900 text-white hover:bg-neutral-800"
                     onClick={stopAll}
-                    title={`终止任务（与上方停止共享同一取消标志）${oklinkPending > 0 ? " · 正在补全标签…" : ""}`}
+                    title={`终止任务（与上方停止共享同一取消标志）${intelPending > 0 ? " · 正在补全标签…" : ""}`}
                   >
                     <Square className="mr-2 h-4 w-4" />
                     停止
@@ -1991,34 +2604,55 @@ async function runAcctStats(): Promise<void> {
                 <Stat label="正在统计" value={acctRunningCount} />
                 <Stat label="已完成" value={Object.values(acctStatStatus).filter((s) => s === "done").length} />
                 <Stat label="错误" value={acctStatErrors.length} />
-                <Stat label="标签查询" value={`${oklinkDoneCount}/${addresses.length}`} />
+                <Stat label="标签查询" value={`${intelDoneCount}/${addresses.length}`} />
               </div>
 
               <div className="overflow-auto max-h-[520px] rounded-2xl border">
                 <table className="min-w-full text-sm">
-                  {/* 固定第1列（地址）与第9列（初始手续费来源）宽度为200px */}
+                  {/* 固定第1列（地址）与第16列（初始手续费来源）宽度为200px */}
                   <colgroup>
                     <col style={{ width: "200px" }} />
-                    <col span={8} />
+                    <col span={15} />
                     <col style={{ width: "200px" }} />
-                    <col span={10} />
+                    <col span={17} />
                   </colgroup>
                   <thead className="sticky top-0 bg-neutral-50 backdrop-blur">
                     <tr>
                       {[
-                        "地址","实体标签","风险标签","属性标签","是否合约","TRON 链总资产","余额(TRX)","余额(USDT)",
-                        "初始手续费来源","首次入金时间","首次入账数量","首次交易时间","最近交易时间","最近流出时间",
-                        "流入金额(USDT)","流入笔数","流入地址数","流出金额(USDT)","流出笔数","流出地址数",
+                        "地址","名单命中","代币","统计状态","余额(统计)","余额(链上)","差异","TRX(链上)","实体标签","风险标签","属性标签","是否合约","TRON 链总资产","余额(TRX)","余额(USDT)","情报来源",
+                        "初始手续费来源","首次入金时间","首次入账数量","激活方式","激活链","情报校验","首次交易时间","最近交易时间","最近流出时间",
+                        "流入金额","流入笔数","流入地址数","流出金额","流出笔数","流出地址数","已付手续费(TRX)","付费交易数","能量消耗合计",
                       ].map((h) => (<th key={h} className="text-center p-2 whitespace-nowrap">{h}</th>))} {/* 表头全部居中 */}
                     </tr>
                   </thead>
                   <tbody>
                     {acctStats.map((r, i) => (
-                      <tr key={r.地址 + i} className="border-b last:border-none">
+                      <tr
+                        key={r.地址 + r.代币合约 + i}
+                        className={`border-b last:border-none ${
+                          exposureLevel(acctExposure[r.地址]) === "direct"
+                            ? "bg-rose-50"
+                            : exposureLevel(acctExposure[r.地址]) === "hop"
+                              ? "bg-amber-50"
+                              : ""
+                        }`}
+                      >
                         {/* 地址：固定宽度200px，允许换行 */}
                         <td className="p-2 w-[200px] align-top">
                           <div className="font-mono text-xs break-all leading-tight w-[200px]">{r.地址}</div>
                         </td>
+                        <td className="p-2 align-top"><ExposureBadge exposure={acctExposure[r.地址]} /></td>
+                        <td className="p-2 whitespace-nowrap" title={r.代币合约}>{r.代币}</td>
+                        <td className={`p-2 whitespace-nowrap ${r.统计状态 === "完成" ? "" : "text-amber-600"}`}>{r.统计状态}</td>
+                        <td className="p-2">{formatHumanAmount2(r.余额)}</td>
+                        <td className="p-2">{r["余额(链上)"] && r["余额(链上)"] !== "-" ? formatHumanAmount2(r["余额(链上)"]) : "-"}</td>
+                        <td
+                          className={`p-2 whitespace-nowrap ${r.余额差异?.startsWith("差") ? "text-rose-600 font-medium" : ""}`}
+                          title={r.余额差异?.startsWith("差") ? "链上余额与统计余额不符：流水可能未拉全，或有铸造 / 销毁等" : undefined}
+                        >
+                          {r.余额差异 || "-"}
+                        </td>
+                        <td className="p-2">{r["TRX(链上)"] && r["TRX(链上)"] !== "-" ? formatHumanAmount2(r["TRX(链上)"]) : "-"}</td>
                         <td className="p-2">{r["实体标签"] || "-"}</td>
                         <td className="p-2">{r["风险标签"] || "-"}</td>
                         <td className="p-2">{r["属性标签"] || "-"}</td>
@@ -2026,6 +2660,7 @@ async function runAcctStats(): Promise<void> {
                         <td className="p-2">{r["TRON 链总资产"] != null ? fmt2(r["TRON 链总资产"]) : "-"}</td>
                         <td className="p-2">{r["余额(TRX)"] != null ? fmt2(r["余额(TRX)"]) : "-"}</td>
                         <td className="p-2">{r["余额(USDT)"] != null ? fmt2(r["余额(USDT)"]) : "-"}</td>
+                        <td className={`p-2 whitespace-nowrap ${r.情报来源?.includes("（失败）") ? "text-amber-600" : ""}`}>{r.情报来源 || "-"}</td>
                         {/* 初始手续费来源：固定宽度200px，允许换行 */}
                         <td className="p-2 w-[200px] align-top">
                           {r["初始手续费来源"] && r["初始手续费来源"] !== "-" ? (
@@ -2034,15 +2669,30 @@ async function runAcctStats(): Promise<void> {
                         </td>
                         <td className="p-2"><TimeCell value={r["首次入金时间"] || "-"} /></td>
                         <td className="p-2">{r["首次入账数量"] != null && r["首次入账数量"] !== "-" ? fmt2(r["首次入账数量"]) : "-"}</td>
+                        <td className="p-2 whitespace-nowrap" title={r.激活交易}>{r.激活方式 || "-"}</td>
+                        <td className="p-2 min-w-[240px]">
+                          {r.激活链 && r.激活链 !== "-" ? (
+                            <div className="font-mono text-xs break-all leading-tight">{r.激活链}</div>
+                          ) : "-"}
+                        </td>
+                        <td
+                          className={`p-2 whitespace-nowrap ${r.激活来源校验 === "不一致" ? "text-rose-600 font-medium" : ""}`}
+                          title={r["初始手续费来源(情报)"] && r["初始手续费来源(情报)"] !== "-" ? `情报：${r["初始手续费来源(情报)"]}` : undefined}
+                        >
+                          {r.激活来源校验 || "-"}
+                        </td>
                         <td className="p-2"><TimeCell value={r.首次交易时间} /></td>
                         <td className="p-2"><TimeCell value={r.最近交易时间} /></td>
                         <td className="p-2"><TimeCell value={r.最近流出时间} /></td>
-                        <td className="p-2">{formatHumanAmount2(r.流入金额USDT)}</td>
+                        <td className="p-2">{formatHumanAmount2(r.流入金额)}</td>
                         <td className="p-2">{r.流入笔数}</td>
                         <td className="p-2">{r.流入地址数}</td>
-                        <td className="p-2">{formatHumanAmount2(r.流出金额USDT)}</td>
+                        <td className="p-2">{formatHumanAmount2(r.流出金额)}</td>
                         <td className="p-2">{r.流出笔数}</td>
                         <td className="p-2">{r.流出地址数}</td>
+                        <td className="p-2">{r["已付手续费(TRX)"] && r["已付手续费(TRX)"] !== "-" ? formatHumanAmount2(r["已付手续费(TRX)"]) : "-"}</td>
+                        <td className="p-2">{r.付费交易数 ?? "-"}</td>
+                        <td className="p-2">{r.能量消耗合计 ?? "-"}</td>
                       </tr>
                     ))}
                   </tbody>
@@ -2075,78 +2725,187 @@ async function runAcctStats(): Promise<void> {
             </CardContent>
           </Card>
 
-          {/* 查询结果（Transfers/Transactions）保持不变 */}
+          {/* 账户详情：质押 / 资源 / 代理 / 投票 / 权限 */}
+          <Card className="rounded-2xl shadow-md border border-neutral-200/60 bg-white/80 mt-6">
+            <CardHeader className="pb-3 flex flex-row items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              <CardTitle className="text-base font-semibold">账户详情（资源 · 质押 · 代理 · 投票 · 权限）</CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0 pb-4 space-y-3">
+              <div className="flex flex-wrap gap-3">
+                <Button
+                  className="rounded-2xl bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white hover:from-indigo-500 hover:to-fuchsia-500"
+                  disabled={isRunning || !addresses.length}
+                  onClick={() => void runAccountDetails()}
+                  title="getaccount / getaccountresource / 资源代理索引，逐个地址查询"
+                >
+                  <Play className="mr-2 h-4 w-4" />
+                  查询账户详情{detailDone > 0 && detailDone < addresses.length ? `（${detailDone}/${addresses.length}）` : ""}
+                </Button>
+                <Button variant="outline" className="rounded-2xl hover:ring-1 hover:ring-neutral-300" onClick={clearAccountDetails}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  清空
+                </Button>
+                <Button
+                  variant="outline"
+                  className="rounded-2xl hover:ring-1 hover:ring-neutral-300"
+                  disabled={acctDetails.length === 0}
+                  onClick={downloadDetailExcel}
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  导出 Excel
+                </Button>
+              </div>
+
+              <div className="overflow-auto max-h-[420px] rounded-2xl border">
+                <table className="min-w-full text-sm">
+                  <thead className="sticky top-0 bg-neutral-50 backdrop-blur">
+                    <tr>
+                      {[
+                        "地址","权限控制","余额(TRX)","质押·能量","质押·带宽","质押·投票权","解锁中","能量(已用/上限)","带宽(已用/上限)",
+                        "代理出·能量","代理出·带宽","代理出对象数","代理入·能量","代理入·带宽","代理入来源数","投票总数","投票SR数",
+                        "Owner权限","Active权限","创建时间",
+                      ].map((h) => (<th key={h} className="text-center p-2 whitespace-nowrap">{h}</th>))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {acctDetails.length === 0 ? (
+                      <tr>
+                        <td className="p-4 text-center text-neutral-500" colSpan={32}>暂无数据</td>
+                      </tr>
+                    ) : (
+                      acctDetails.map((r) => (
+                        <tr key={r.地址} className="border-b last:border-none">
+                          <td className="p-2 font-mono text-xs break-all w-[200px]">{r.地址}</td>
+                          <td className={`p-2 whitespace-nowrap ${r.权限控制 === "本人" ? "" : "text-rose-600 font-medium"}`}>{r.权限控制}</td>
+                          <td className="p-2">{formatHumanAmount2(r["余额(TRX)"])}</td>
+                          <td className="p-2">{formatHumanAmount2(r["质押·能量"])}</td>
+                          <td className="p-2">{formatHumanAmount2(r["质押·带宽"])}</td>
+                          <td className="p-2">{formatHumanAmount2(r["质押·投票权"])}</td>
+                          <td className="p-2">{formatHumanAmount2(r.解锁中)}</td>
+                          <td className="p-2 whitespace-nowrap">{r["能量(已用/上限)"]}</td>
+                          <td className="p-2 whitespace-nowrap">{r["带宽(已用/上限)"]}</td>
+                          <td className="p-2">{formatHumanAmount2(r["代理出·能量"])}</td>
+                          <td className="p-2">{formatHumanAmount2(r["代理出·带宽"])}</td>
+                          <td className="p-2">{r.代理出对象数}</td>
+                          <td className="p-2">{formatHumanAmount2(r["代理入·能量"])}</td>
+                          <td className="p-2">{formatHumanAmount2(r["代理入·带宽"])}</td>
+                          <td className="p-2">{r.代理入来源数}</td>
+                          <td className="p-2">{r.投票总数}</td>
+                          <td className="p-2">{r.投票SR数}</td>
+                          <td className="p-2 whitespace-nowrap">{r.Owner权限}</td>
+                          <td className="p-2 min-w-[240px]">{r.Active权限}</td>
+                          <td className="p-2"><TimeCell value={r.创建时间} /></td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              <Tabs defaultValue="delegations" className="w-full">
+                <TabsList className="rounded-2xl bg-neutral-100/60 p-1 flex gap-2 mb-3">
+                  <TabsTrigger value="delegations" className="rounded-xl border bg-white text-neutral-800 data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-600 data-[state=active]:to-fuchsia-600 data-[state=active]:text-white data-[state=active]:border-transparent">
+                    资源代理（{delegations.length}）
+                  </TabsTrigger>
+                  <TabsTrigger value="votes" className="rounded-xl border bg-white text-neutral-800 data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-600 data-[state=active]:to-fuchsia-600 data-[state=active]:text-white data-[state=active]:border-transparent">
+                    投票（{votes.length}）
+                  </TabsTrigger>
+                  <TabsTrigger value="perms" className="rounded-xl border bg-white text-neutral-800 data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-600 data-[state=active]:to-fuchsia-600 data-[state=active]:text-white data-[state=active]:border-transparent">
+                    权限签名（{permKeys.length}）
+                  </TabsTrigger>
+                </TabsList>
+                {([
+                  ["delegations", delegations, ["地址", "方向", "对方地址", "能量(TRX)", "带宽(TRX)", "能量到期", "带宽到期"]],
+                  ["votes", votes, ["地址", "超级代表", "票数"]],
+                  ["perms", permKeys, ["地址", "权限", "阈值", "签名地址", "权重"]],
+                ] as [string, Record<string, string | number>[], string[]][]).map(([value, rows, heads]) => (
+                  <TabsContent key={value} value={value}>
+                    <div className="overflow-auto max-h-[320px] rounded-2xl border">
+                      <table className="min-w-full text-sm">
+                        <thead className="sticky top-0 bg-neutral-50 backdrop-blur">
+                          <tr>{heads.map((h) => (<th key={h} className="text-center p-2 whitespace-nowrap">{h}</th>))}</tr>
+                        </thead>
+                        <tbody>
+                          {rows.length === 0 ? (
+                            <tr>
+                              <td className="p-4 text-center text-neutral-500" colSpan={heads.length}>暂无数据</td>
+                            </tr>
+                          ) : (
+                            rows.map((r, i) => (
+                              <tr key={i} className="border-b last:border-none">
+                                {heads.map((h) => (
+                                  <td key={h} className={`p-2 text-center ${/地址|超级代表/.test(h) ? "font-mono text-xs" : ""}`}>
+                                    {String(r[h] ?? "-")}
+                                  </td>
+                                ))}
+                              </tr>
+                            ))
+                          )}
+                        </tbody>
+                      </table>
+                    </div>
+                  </TabsContent>
+                ))}
+              </Tabs>
+            </CardContent>
+          </Card>
+
+          {/* 查询结果（Transfers / Transactions / TRX·TRC10 / 持仓） */}
           <Card className="rounded-2xl shadow-sm mt-6">
             <CardHeader className="pb-3"><div className="flex items-center gap-2"><CardTitle className="text-base font-semibold">查询结果</CardTitle></div></CardHeader>
             <CardContent>
               <Tabs defaultValue="transfers" className="w-full">
                 <TabsList className="rounded-2xl bg-neutral-100/60 p-1 flex gap-2 mb-3">
                   <TabsTrigger value="transfers" className="rounded-xl border bg-white text-neutral-800 data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-600 data-[state=active]:to-fuchsia-600 data-[state=active]:text-white data-[state=active]:border-transparent">
-                    转账 Transfers（{rows.length}）
+                    转账 Transfers（{trc20Count}）
                   </TabsTrigger>
                   <TabsTrigger value="transactions" className="rounded-xl border bg-white text-neutral-800 data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-600 data-[state=active]:to-fuchsia-600 data-[state=active]:text-white data-[state=active]:border-transparent">
-                    交易 Transactions（{txRows.length}）
+                    交易 Transactions（{txCount}）
+                  </TabsTrigger>
+                  <TabsTrigger value="ledger" className="rounded-xl border bg-white text-neutral-800 data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-600 data-[state=active]:to-fuchsia-600 data-[state=active]:text-white data-[state=active]:border-transparent">
+                    TRX / TRC10 转账（{ledgerCount}）
+                  </TabsTrigger>
+                  <TabsTrigger value="holdings" className="rounded-xl border bg-white text-neutral-800 data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-600 data-[state=active]:to-fuchsia-600 data-[state=active]:text-white data-[state=active]:border-transparent">
+                    持仓 Holdings（{holdingCount}）
                   </TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="transfers">
-                  <div className="overflow-auto max-h-[520px] rounded-2xl border">
-                    <table className="min-w-full text-sm">
-                      <thead className="sticky top-0 bg-neutral-50 backdrop-blur">
-                        <tr>
-                          <th className="text-center p-2 whitespace-nowrap">地址</th>
-                          <th className="text-center p-2 whitespace-nowrap w-[200px]">哈希</th>
-                          <th className="text-center p-2 whitespace-nowrap">发起地址</th>
-                          <th className="text-center p-2 whitespace-nowrap">接收地址</th>
-                          <th className="text-center p-2 whitespace-nowrap">数量</th>
-                          <th className="text-center p-2 whitespace-nowrap">代币</th>
-                          <th className="text-center p-2 whitespace-nowrap w-[140px]">时间</th>
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {rows.slice(0, 1000).map((r, i) => (
-                          <tr key={i} className="border-b last:border-none">
-                            <td className="p-2 font-mono text-xs break-all">{r.地址}</td>
-                            <td className="p-2 font-mono text-xs break-all w-[200px]">{r.哈希}</td>
-                            <td className="p-2 font-mono text-xs break-all">{r.发起地址}</td>
-                            <td className="p-2 font-mono text-xs break-all">{r.接收地址}</td>
-                            <td className="p-2">{formatHumanAmount2(r.数量)}</td>
-                            <td className="p-2">{r.代币}</td>
-                            <td className="p-2 w-[140px]"><TimeCell value={r.时间} /></td>
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
+                  <VirtualTable
+                    columns={trc20Columns}
+                    rowCount={trc20Count}
+                    epoch={rowEpochs.trc20 || 0}
+                    fetchRows={rowStore.reader("trc20")}
+                  />
                 </TabsContent>
 
                 <TabsContent value="transactions">
-                  <div className="overflow-auto max-h-[520px] rounded-2xl border">
-                    <table className="min-w-full text-sm">
-                      <thead className="sticky top-0 bg-neutral-50 backdrop-blur">
-                        <tr>
-                          {["地址", "哈希", "类型", "发起地址", "接收地址", "金额(TRX)", "状态", "时间"].map((h) => (
-                            <th key={h} className="text-center p-2 whitespace-nowrap">{h}</th>
-                          ))}
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {txRows.slice(0, 1000).map((r, i) => (
-                          <tr key={i} className="border-b last:border-none">
-                            <td className="p-2 font-mono text-xs break-all">{r.地址}</td>
-                            <td className="p-2 font-mono text-xs break-all">{r.哈希}</td>
-                            {/* 类型：显示中文映射 */}
-                            <td className="p-2 whitespace-nowrap">{translateTronType(r.类型)}</td>
-                            <td className="p-2 font-mono text-xs break-all">{r.发起地址 || "-"}</td>
-                            <td className="p-2 font-mono text-xs break-all">{r.接收地址 || "-"}</td>
-                            <td className="p-2">{r.金额TRX ? formatHumanAmount2(r.金额TRX) : "-"}</td>
-                            <td className="p-2 whitespace-nowrap">{r.状态 || "-"}</td>
-                            <td className="p-2"><TimeCell value={r.时间 || "-"} /></td>
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
+                  <VirtualTable
+                    columns={txColumns}
+                    rowCount={txCount}
+                    epoch={rowEpochs.tx || 0}
+                    fetchRows={rowStore.reader("tx")}
+                  />
+                </TabsContent>
+
+                <TabsContent value="ledger">
+                  <VirtualTable
+                    columns={ledgerColumns}
+                    rowCount={ledgerCount}
+                    epoch={rowEpochs.ledger || 0}
+                    fetchRows={rowStore.reader("ledger")}
+                  />
+                </TabsContent>
+
+                <TabsContent value="holdings">
+                  <VirtualTable
+                    columns={holdingColumns}
+                    rowCount={holdingCount}
+                    epoch={rowEpochs.holdings || 0}
+                    fetchRows={rowStore.reader("holdings")}
+                    emptyText="暂无持仓：点击上方「持仓快照」查询"
+                  />
                 </TabsContent>
               </Tabs>
             </CardContent>
@@ -0,0 +1,30 @@
+/* src/components/ExposureBadge.tsx */
+import { hitsText, hopText, type ScreenExposure } from "@/shared/screening";
+
+/* =========================
+ * 账户情况表中的名单命中：直接命中（红）与一跳命中（琥珀），悬停看名单与命中的对手地址
+ * ========================= */
+
+export default function ExposureBadge({ exposure }: { exposure?: ScreenExposure }) {
+  if (!exposure || (!exposure.direct.length && !exposure.hop.length)) return <span className="text-neutral-400">-</span>;
+  const hopTitle = exposure.hop
+    .map((h) => `${h.dir} · ${h.address} · ${hitsText(h.hits)}`)
+    .join("\n");
+  return (
+    <div className="flex flex-col items-start gap-1">
+      {exposure.direct.length > 0 && (
+        <span
+          className="rounded-md bg-rose-100 px-1.5 text-xs font-medium text-rose-700 whitespace-nowrap"
+          title={hitsText(exposure.direct)}
+        >
+          直接命中：{[...new Set(exposure.direct.map((h) => h.list))].join(", ")}
+        </span>
+      )}
+      {exposure.hop.length > 0 && (
+        <span className="rounded-md bg-amber-100 px-1.5 text-xs font-medium text-amber-800 whitespace-nowrap" title={hopTitle}>
+          一跳：{hopText(exposure.hop)}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+/* src/components/IntelSourcesBar.tsx */
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { INTEL_PROVIDER_NAMES, type IntelConfig, type IntelProviderId } from "@/shared/intel";
+
+/* =========================
+ * 地址情报来源：开关 + 优先级（靠前优先，"↑" 上移）+ 各来源的参数
+ * - Tronscan 只支持 TRON；EVM 视图中置灰
+ * ========================= */
+
+const HINT: Record<IntelProviderId, string> = {
+  labels: "本地地址标签库（导入 / 表格中编辑）与站点根目录的 labels.json",
+  oklink: "抓取 OKLink 地址页（需代理，串行较慢）",
+  tronscan: "Tronscan 公开标签与红 / 灰标（仅 TRON）",
+  http: "自定义 JSON 接口（URL 中 {address} / {chain} 会被替换）",
+};
+
+export default function IntelSourcesBar({
+  config,
+  onChange,
+  disabled,
+  family,
+}: {
+  config: IntelConfig;
+  onChange: (next: IntelConfig) => void;
+  disabled?: boolean;
+  family: "tron" | "evm";
+}) {
+  const toggle = (id: IntelProviderId) => onChange({ ...config, enabled: { ...config.enabled, [id]: !config.enabled[id] } });
+  const raise = (i: number) => {
+    const order = [...config.order];
+    [order[i - 1], order[i]] = [order[i], order[i - 1]];
+    onChange({ ...config, order });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-muted-foreground">情报来源</span>
+      {config.order.map((id, i) => {
+        const unsupported = id === "tronscan" && family !== "tron";
+        const on = config.enabled[id] && !unsupported;
+        return (
+          <span key={id} className="inline-flex items-center gap-1">
+            {i > 0 && (
+              <button
+                className="text-xs text-neutral-400 hover:text-indigo-600 disabled:opacity-40"
+                disabled={disabled}
+                onClick={() => raise(i)}
+                title="提高优先级"
+              >
+                ↑
+              </button>
+            )}
+            <Button
+              variant={on ? "default" : "outline"}
+              className={`h-8 rounded-xl ${on ? "bg-gradient-to-r from-indigo-600 to-fuchsia-600 text-white" : ""}`}
+              disabled={disabled || unsupported}
+              onClick={() => toggle(id)}
+              title={HINT[id]}
+            >
+              {i + 1}. {INTEL_PROVIDER_NAMES[id]}
+            </Button>
+          </span>
+        );
+      })}
+      {config.enabled.tronscan && family === "tron" && (
+        <Input
+          type="password"
+          className="h-8 w-48 rounded-xl"
+          value={config.tronscanKey}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...config, tronscanKey: e.target.value })}
+          placeholder="Tronscan API Key（可选）"
+        />
+      )}
+      {config.enabled.http && (
+        <Input
+          className="h-8 w-96 rounded-xl"
+          value={config.httpUrl}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...config, httpUrl: e.target.value })}
+          placeholder="https://example.com/intel?address={address}&chain={chain}"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+/* src/components/KeyHealthTable.tsx */
+import React from "react";
+import { keyHealthSnapshot, subscribeKeyPool, type KeyHealth } from "@/shared/keyPool";
+import type { ProviderId } from "@/shared/scheduler";
+
+/* =========================
+ * API Key 健康状态表（实时）
+ * - 订阅 keyPool 变化；有 Key 冷却中（含失效 Key 等待重新探测）时每秒刷新倒计时
+ * - Key 只显示首尾，避免截图泄露
+ * ========================= */
+
+function maskKey(k: string): string {
+  return k.length <= 12 ? k : `${k.slice(0, 6)}…${k.slice(-4)}`;
+}
+
+const STATE_TEXT: Record<KeyHealth["state"], { label: string; cls: string }> = {
+  healthy: { label: "正常", cls: "bg-emerald-50 text-emerald-700 border-emerald-200" },
+  cooling: { label: "冷却中", cls: "bg-amber-50 text-amber-700 border-amber-200" },
+  dead: { label: "已失效", cls: "bg-rose-50 text-rose-700 border-rose-200" },
+};
+
+export default function KeyHealthTable({ provider, keys }: { provider: ProviderId; keys: string[] }) {
+  const [, setTick] = React.useState(0);
+
+  React.useEffect(() => subscribeKeyPool(() => setTick((n) => n + 1)), []);
+
+  const rows = keyHealthSnapshot(provider, keys);
+  const anyCooling = rows.some((r) => r.state !== "healthy" && r.coolUntil > Date.now());
+
+  // 冷却倒计时：仅在有 Key 冷却时每秒刷新
+  React.useEffect(() => {
+    if (!anyCooling) return;
+    const t = window.setInterval(() => setTick((n) => n + 1), 1000);
+    return () => window.clearInterval(t);
+  }, [anyCooling]);
+
+  if (!rows.length) return null;
+
+  return (
+    <div className="overflow-x-auto rounded-2xl border border-neutral-200/70">
+      <table className="w-full text-xs">
+        <thead className="bg-neutral-50 text-neutral-500">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium">Key</th>
+            <th className="px-3 py-2 text-left font-medium">状态</th>
+            <th className="px-3 py-2 text-right font-medium">成功率</th>
+            <th className="px-3 py-2 text-right font-medium">成功/失败</th>
+            <th className="px-3 py-2 text-right font-medium">平均延迟</th>
+            <th className="px-3 py-2 text-right font-medium">最近状态码</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => {
+            const st = STATE_TEXT[r.state];
+            const coolSec = Math.max(0, Math.ceil((r.coolUntil - Date.now()) / 1000));
+            return (
+              <tr key={r.key} className="border-t border-neutral-100">
+                <td className="px-3 py-1.5 font-mono">{maskKey(r.key)}</td>
+                <td className="px-3 py-1.5">
+                  <span className={`inline-flex items-center rounded-full border px-2 py-0.5 ${st.cls}`}>
+                    {st.label}
+                    {r.state === "cooling" ? ` ${coolSec}s` : ""}
+                    {r.state === "dead" ? (coolSec ? ` · ${Math.ceil(coolSec / 60)} 分钟后重试` : " · 待重试") : ""}
+                  </span>
+                </td>
+                <td className="px-3 py-1.5 text-right">
+                  {r.ok + r.fail ? `${(r.successRate * 100).toFixed(1)}%` : "-"}
+                </td>
+                <td className="px-3 py-1.5 text-right">
+                  {r.ok}/{r.fail}
+                </td>
+                <td className="px-3 py-1.5 text-right">{r.avgLatencyMs ? `${r.avgLatencyMs} ms` : "-"}</td>
+                <td className="px-3 py-1.5 text-right">{r.lastStatus || "-"}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+/* src/components/LabelLibraryBar.tsx */
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Download, Tags, Trash2, Upload } from "lucide-react";
+import {
+  clearLabels,
+  exportLabelsXlsx,
+  importLabelFile,
+  labelCount,
+  labelsVersion,
+  loadLabels,
+  subscribeLabels,
+} from "@/shared/labelStore";
+import { downloadBlob } from "@/shared/rowStore";
+
+/* =========================
+ * 本地地址标签库：条数 + 导入（CSV / XLSX）/ 导出 / 清空
+ * 表头：address, chain, label, category, source（也认 地址 / 链 / 标签 / 类别 / 来源）
+ * ========================= */
+
+export default function LabelLibraryBar() {
+  React.useSyncExternalStore(subscribeLabels, labelsVersion);
+  React.useEffect(() => {
+    void loadLabels();
+  }, []);
+  const fileRef = React.useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = React.useState(false);
+  const [msg, setMsg] = React.useState("");
+  const count = labelCount();
+
+  const onFile = async (file: File) => {
+    setBusy(true);
+    setMsg("");
+    try {
+      const r = await importLabelFile(file);
+      setMsg(`已导入 ${r.imported} 条${r.skipped ? `，跳过 ${r.skipped} 行（缺少地址或标签）` : ""}`);
+    } catch (e) {
+      setMsg(`导入失败：${e instanceof Error ? e.message : e}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onClear = async () => {
+    if (!window.confirm(`确定清空本地标签库（${count} 条）？`)) return;
+    try {
+      await clearLabels();
+      setMsg("已清空");
+    } catch (e) {
+      setMsg(`清空失败：${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center justify-between gap-2 rounded-xl border border-amber-200/70 bg-amber-50/40 px-3 py-2 text-xs text-neutral-700">
+      <span className="flex items-center gap-2">
+        <Tags className="h-3.5 w-3.5 text-amber-700" />
+        <span className="font-medium">本地地址标签库</span>
+        <span>{count} 条</span>
+        <span className="text-neutral-500">（标注结果表与导出中的对手地址；可在表格中点击标签编辑）</span>
+        {msg && <span className={msg.includes("失败") ? "text-rose-600" : "text-emerald-700"}>{msg}</span>}
+      </span>
+      <span className="flex items-center gap-1">
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".csv,.xlsx,.xls"
+          className="hidden"
+          onChange={(e) => {
+            const f = e.target.files?.[0];
+            e.target.value = "";
+            if (f) void onFile(f);
+          }}
+        />
+        <Button
+          variant="outline"
+          className="h-7 rounded-lg px-2 text-xs"
+          disabled={busy}
+          onClick={() => fileRef.current?.click()}
+          title="CSV / XLSX，表头 address, chain, label, category, source；同链同地址覆盖"
+        >
+          <Upload className="mr-1 h-3 w-3" />
+          导入
+        </Button>
+        <Button
+          variant="outline"
+          className="h-7 rounded-lg px-2 text-xs"
+          disabled={!count}
+          onClick={() => void exportLabelsXlsx().then((blob) => downloadBlob("地址标签库.xlsx", blob))}
+        >
+          <Download className="mr-1 h-3 w-3" />
+          导出
+        </Button>
+        <Button variant="ghost" className="h-7 rounded-lg px-2 text-xs" disabled={!count} onClick={() => void onClear()}>
+          <Trash2 className="mr-1 h-3 w-3" />
+          清空
+        </Button>
+      </span>
+    </div>
+  );
+}
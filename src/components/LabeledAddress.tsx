@@ -0,0 +1,115 @@
+/* src/components/LabeledAddress.tsx */
+import React from "react";
+import { Pencil } from "lucide-react";
+import {
+  deleteLabel,
+  labelOf,
+  labelsVersion,
+  labelText,
+  loadLabels,
+  putLabel,
+  subscribeLabels,
+} from "@/shared/labelStore";
+
+/* =========================
+ * 结果表中的地址 + 本地标签库标签（第二行）
+ * - 命中标签库时显示 "标签（类别）"；未命中时悬停显示 "+ 标签"
+ * - 点击编辑：回车 / 失焦保存，Esc 取消；清空后保存即删除
+ * - 改的是当前显示的那条记录（通用记录改通用记录）；没有记录时新建该链的记录
+ * ========================= */
+
+export default function LabeledAddress({
+  address,
+  chain,
+  align = "center",
+  children,
+}: {
+  address: string;
+  /** tron / EvmChain.id */
+  chain: string;
+  /** 与所在列的对齐方式一致 */
+  align?: "left" | "center";
+  /** 地址本身的展示（省略号 / 悬停等由视图决定） */
+  children: React.ReactNode;
+}) {
+  React.useSyncExternalStore(subscribeLabels, labelsVersion);
+  React.useEffect(() => {
+    void loadLabels();
+  }, []);
+  const [editing, setEditing] = React.useState(false);
+  const [draft, setDraft] = React.useState("");
+  const [error, setError] = React.useState("");
+  // Esc 取消：输入框卸载时个别浏览器仍会触发 blur，不能再保存
+  const cancelled = React.useRef(false);
+  const rec = labelOf(address, chain);
+
+  const start = () => {
+    setDraft(rec?.label || "");
+    setError("");
+    cancelled.current = false;
+    setEditing(true);
+  };
+  const save = async () => {
+    setEditing(false);
+    if (cancelled.current) return;
+    const text = draft.trim();
+    if (text === (rec?.label || "")) return;
+    try {
+      if (!text) {
+        if (rec) await deleteLabel(rec.address, rec.chain);
+      } else {
+        await putLabel({
+          address: rec?.address || address,
+          chain: rec ? rec.chain : chain,
+          label: text,
+          category: rec?.category,
+          source: rec?.source || "手工编辑",
+        });
+      }
+    } catch (e) {
+      setError(`标签保存失败：${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  return (
+    <div className={`group flex min-w-0 flex-col leading-tight ${align === "center" ? "items-center" : "items-start"}`}>
+      {children}
+      {editing ? (
+        <input
+          autoFocus
+          className="mt-0.5 h-5 w-full rounded border px-1 text-xs outline-none focus:ring-1 focus:ring-indigo-400"
+          value={draft}
+          placeholder="标签（清空即删除）"
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={() => void save()}
+          onKeyDown={(e) => {
+            // 不让表格的键盘导航 / 复制接管输入
+            e.stopPropagation();
+            if (e.key === "Enter") (e.target as HTMLInputElement).blur();
+            else if (e.key === "Escape") {
+              cancelled.current = true;
+              setEditing(false);
+            }
+          }}
+        />
+      ) : rec ? (
+        <button
+          className="mt-0.5 inline-flex max-w-full items-center gap-1 truncate rounded bg-amber-50 px-1 text-xs text-amber-800 hover:bg-amber-100"
+          title={error || `${labelText(rec)}${rec.source ? ` · 来源：${rec.source}` : ""}（点击编辑）`}
+          onClick={start}
+        >
+          <span className="truncate">{labelText(rec)}</span>
+          <Pencil className="h-3 w-3 shrink-0 opacity-0 group-hover:opacity-60" />
+        </button>
+      ) : (
+        <button
+          className={`mt-0.5 text-xs ${error ? "text-rose-600" : "text-neutral-400 opacity-0 group-hover:opacity-100"} hover:text-indigo-600`}
+          title={error || "添加到本地标签库"}
+          onClick={start}
+        >
+          + 标签
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+/* src/components/ScreenListsBar.tsx */
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { ShieldAlert, Upload, X } from "lucide-react";
+import {
+  deleteScreenList,
+  importScreenList,
+  loadScreenLists,
+  screenListInfos,
+  screenListsVersion,
+  subscribeScreenLists,
+} from "@/shared/screenLists";
+import { SCREEN_KIND_NAMES, type ScreenListKind } from "@/shared/screening";
+
+/* =========================
+ * 本地名单库：已导入的名单（类型 · 条数，可删除）+ 按类型导入文件
+ * 导入：OFAC sdn.xml / TXT（每行一个地址）/ CSV / XLSX；同名名单替换
+ * ========================= */
+
+const KINDS = Object.keys(SCREEN_KIND_NAMES) as ScreenListKind[];
+
+export default function ScreenListsBar() {
+  React.useSyncExternalStore(subscribeScreenLists, screenListsVersion);
+  React.useEffect(() => {
+    void loadScreenLists();
+  }, []);
+  const fileRef = React.useRef<HTMLInputElement>(null);
+  const [kind, setKind] = React.useState<ScreenListKind>("ofac");
+  const [busy, setBusy] = React.useState(false);
+  const [msg, setMsg] = React.useState("");
+  const lists = screenListInfos();
+
+  const onFile = async (file: File) => {
+    setBusy(true);
+    setMsg("");
+    // 名单名称：OFAC / Tether 用类型名（再次导入即更新），其余用文件名
+    const name = kind === "ofac" || kind === "tether" ? SCREEN_KIND_NAMES[kind] : file.name.replace(/\.[^.]+$/, "");
+    try {
+      const r = await importScreenList(file, kind, name);
+      setMsg(`「${name}」已导入 ${r.count} 个地址${r.skipped ? `，跳过 ${r.skipped} 行（非 TRON / EVM 地址）` : ""}`);
+    } catch (e) {
+      setMsg(`导入失败：${e instanceof Error ? e.message : e}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center justify-between gap-2 rounded-xl border border-rose-200/70 bg-rose-50/40 px-3 py-2 text-xs text-neutral-700">
+      <span className="flex flex-wrap items-center gap-2">
+        <ShieldAlert className="h-3.5 w-3.5 text-rose-700" />
+        <span className="font-medium">名单筛查</span>
+        {lists.length ? (
+          lists.map((l) => (
+            <span
+              key={l.id}
+              className="inline-flex items-center gap-1 rounded-lg bg-white/80 px-2 py-0.5"
+              title={`${SCREEN_KIND_NAMES[l.kind]} · ${l.source}`}
+            >
+              {l.name} · {l.count}
+              <button
+                className="text-neutral-400 hover:text-rose-600"
+                title="删除该名单"
+                onClick={() => void deleteScreenList(l.id).catch((e) => setMsg(`删除失败：${e?.message || e}`))}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))
+        ) : (
+          <span className="text-neutral-500">未导入名单（导入后自动筛查查询地址与对手地址，命中明细导出到“命中名单”）</span>
+        )}
+        {msg && <span className={msg.includes("失败") ? "text-rose-600" : "text-emerald-700"}>{msg}</span>}
+      </span>
+      <span className="flex items-center gap-1">
+        <select
+          className="h-7 rounded-lg border bg-white px-2 text-xs"
+          value={kind}
+          disabled={busy}
+          onChange={(e) => setKind(e.target.value as ScreenListKind)}
+        >
+          {KINDS.map((k) => (
+            <option key={k} value={k}>
+              {SCREEN_KIND_NAMES[k]}
+            </option>
+          ))}
+        </select>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".xml,.txt,.csv,.xlsx,.xls"
+          className="hidden"
+          onChange={(e) => {
+            const f = e.target.files?.[0];
+            e.target.value = "";
+            if (f) void onFile(f);
+          }}
+        />
+        <Button
+          variant="outline"
+          className="h-7 rounded-lg px-2 text-xs"
+          disabled={busy}
+          onClick={() => fileRef.current?.click()}
+          title="OFAC sdn.xml / TXT（每行一个地址）/ CSV / XLSX（address 列，可带 note / 备注 列）"
+        >
+          <Upload className="mr-1 h-3 w-3" />
+          导入名单
+        </Button>
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+/* src/components/VirtualTable.tsx */
+import React from "react";
+import type { Row } from "@/shared/rowStore";
+
+/* =========================
+ * 虚拟滚动结果表
+ * - 只渲染可视区域内的行；行数据按块（BLOCK 行）从 fetchRows 异步读取并缓存
+ * - 行高固定；总高度超过浏览器元素高度上限时按比例压缩滚动条（百万行仍可拖动到底）
+ * - 表头吸顶、拖拽表头右边缘调整列宽
+ * - 键盘：↑/↓、PageUp/PageDown、Home/End 移动当前行；Ctrl/⌘+C 复制当前行（制表符分隔）
+ * 行只会追加；清空/删除地址等会改动已有行的操作需要变更 epoch，使缓存失效
+ * ========================= */
+
+export type VirtualColumn = {
+  key: string;
+  header: React.ReactNode;
+  width: number;
+  align?: "left" | "center";
+  /** 自定义单元格；缺省为 row[key] 文本（单行省略 + title） */
+  render?: (row: Row, index: number) => React.ReactNode;
+};
+
+type Props = {
+  columns: VirtualColumn[];
+  rowCount: number;
+  fetchRows: (offset: number, limit: number) => Promise<Row[]>;
+  /** 数据版本：变化时丢弃已缓存的行 */
+  epoch?: number | string;
+  rowHeight?: number;
+  /** 最大高度（px） */
+  height?: number;
+  emptyText?: string;
+};
+
+const HEADER_H = 40;
+const BLOCK = 200;
+const OVERSCAN = 8;
+const MAX_SCROLL_PX = 8_000_000; // 各浏览器元素高度上限不同（Firefox 约 1700 万 px），留足余量
+const MIN_COL_W = 60;
+
+type Cache = { epoch: number | string; blocks: Record<number, Row[]> };
+
+export default function VirtualTable({
+  columns,
+  rowCount,
+  fetchRows,
+  epoch = 0,
+  rowHeight = 44,
+  height = 520,
+  emptyText = "暂无数据",
+}: Props) {
+  const scrollRef = React.useRef<HTMLDivElement>(null);
+  const inflight = React.useRef(new Set<string>());
+  const [scrollTop, setScrollTop] = React.useState(0);
+  const [viewH, setViewH] = React.useState(height);
+  const [widths, setWidths] = React.useState<Record<string, number>>({});
+  const [active, setActive] = React.useState(-1);
+  const [cache, setCache] = React.useState<Cache>({ epoch, blocks: {} });
+
+  const blocks = cache.epoch === epoch ? cache.blocks : {};
+  const widthOf = (c: VirtualColumn) => widths[c.key] ?? c.width;
+  const totalW = columns.reduce((s, c) => s + widthOf(c), 0);
+
+  // —— 滚动几何：body 可视高度、压缩比例、当前“虚拟” scrollTop —— //
+  const bodyViewH = Math.max(rowHeight, viewH - HEADER_H);
+  const totalPx = rowCount * rowHeight;
+  const scrollPx = Math.min(totalPx, MAX_SCROLL_PX);
+  const ratio = totalPx > scrollPx && scrollPx > bodyViewH ? (totalPx - bodyViewH) / (scrollPx - bodyViewH) : 1;
+  const virtualTop = scrollTop * ratio;
+  const first = Math.max(0, Math.floor(virtualTop / rowHeight) - OVERSCAN);
+  const last = Math.min(rowCount, Math.ceil((virtualTop + bodyViewH) / rowHeight) + OVERSCAN);
+  const activeRow = Math.min(active, rowCount - 1);
+
+  // 可视高度跟随容器
+  React.useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver(() => setViewH(el.clientHeight));
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  // —— 按块加载可视区域的行：缺失的块、或末尾未满且已有新行的块 —— //
+  React.useEffect(() => {
+    if (cache.epoch !== epoch) {
+      inflight.current.clear();
+      setCache({ epoch, blocks: {} });
+      return;
+    }
+    if (last <= first) return;
+    for (let b = Math.floor(first / BLOCK); b <= Math.floor((last - 1) / BLOCK); b++) {
+      const want = Math.min(BLOCK, rowCount - b * BLOCK);
+      const have = cache.blocks[b]?.length ?? -1;
+      if (have >= want) continue;
+      const tag = `${epoch}:${b}:${want}`;
+      if (inflight.current.has(tag)) continue;
+      inflight.current.add(tag);
+      fetchRows(b * BLOCK, want)
+        .then((rows) => {
+          setCache((prev) => (prev.epoch === epoch ? { epoch, blocks: { ...prev.blocks, [b]: rows } } : prev));
+        })
+        .catch(() => {})
+        .finally(() => inflight.current.delete(tag));
+    }
+  }, [cache, epoch, first, last, rowCount, fetchRows]);
+
+  function rowAt(i: number): Row | undefined {
+    return blocks[Math.floor(i / BLOCK)]?.[i % BLOCK];
+  }
+
+  // 让第 i 行完整出现在可视区域内
+  function reveal(i: number) {
+    const el = scrollRef.current;
+    if (!el) return;
+    const top = i * rowHeight;
+    let target = virtualTop;
+    if (top < virtualTop) target = top;
+    else if (top + rowHeight > virtualTop + bodyViewH) target = top + rowHeight - bodyViewH;
+    if (target !== virtualTop) el.scrollTop = target / ratio;
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLDivElement>) {
+    if (!rowCount) return;
+    const page = Math.max(1, Math.floor(bodyViewH / rowHeight) - 1);
+    const cur = activeRow < 0 ? -1 : activeRow;
+    let next = cur;
+    if (e.key === "ArrowDown") next = cur + 1;
+    else if (e.key === "ArrowUp") next = cur - 1;
+    else if (e.key === "PageDown") next = cur + page;
+    else if (e.key === "PageUp") next = cur - page;
+    else if (e.key === "Home") next = 0;
+    else if (e.key === "End") next = rowCount - 1;
+    else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "c" && cur >= 0) {
+      const row = rowAt(cur);
+      if (row) void navigator.clipboard?.writeText(columns.map((c) => String(row[c.key] ?? "")).join("\t"));
+      return;
+    } else return;
+    e.preventDefault();
+    next = Math.max(0, Math.min(rowCount - 1, next));
+    setActive(next);
+    reveal(next);
+  }
+
+  // —— 列宽拖拽 —— //
+  function startResize(e: React.PointerEvent<HTMLDivElement>, col: VirtualColumn) {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startW = widthOf(col);
+    const target = e.currentTarget;
+    target.setPointerCapture(e.pointerId);
+    const move = (ev: PointerEvent) => {
+      const w = Math.max(MIN_COL_W, Math.round(startW + ev.clientX - startX));
+      setWidths((prev) => ({ ...prev, [col.key]: w }));
+    };
+    const up = (ev: PointerEvent) => {
+      target.releasePointerCapture(ev.pointerId);
+      target.removeEventListener("pointermove", move);
+      target.removeEventListener("pointerup", up);
+    };
+    target.addEventListener("pointermove", move);
+    target.addEventListener("pointerup", up);
+  }
+
+  const visible: number[] = [];
+  for (let i = first; i < last; i++) visible.push(i);
+
+  return (
+    <div
+      ref={scrollRef}
+      tabIndex={0}
+      role="grid"
+      aria-rowcount={rowCount}
+      className="overflow-auto rounded-2xl border text-sm outline-none focus-visible:ring-2 focus-visible:ring-indigo-300"
+      style={{ maxHeight: height }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      onKeyDown={onKeyDown}
+    >
+      <div style={{ width: totalW, minWidth: "100%" }}>
+        {/* 表头（吸顶） */}
+        <div className="sticky top-0 z-20 flex bg-neutral-50 border-b" style={{ height: HEADER_H }} role="row">
+          {columns.map((c) => (
+            <div
+              key={c.key}
+              role="columnheader"
+              className={`relative shrink-0 flex items-center px-2 font-semibold whitespace-nowrap ${
+                c.align === "center" ? "justify-center" : ""
+              }`}
+              style={{ width: widthOf(c) }}
+            >
+              {c.header}
+              <div
+                className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-indigo-200"
+                onPointerDown={(e) => startResize(e, c)}
+              />
+            </div>
+          ))}
+        </div>
+
+        {/* 表体 */}
+        <div className="relative" style={{ height: rowCount ? scrollPx : rowHeight }}>
+          {rowCount === 0 && (
+            <div className="absolute inset-0 flex items-center justify-center text-neutral-500">{emptyText}</div>
+          )}
+          {visible.map((i) => {
+            const row = rowAt(i);
+            return (
+              <div
+                key={i}
+                role="row"
+                aria-rowindex={i + 1}
+                className={`absolute left-0 flex border-b hover:z-10 ${
+                  i === activeRow ? "bg-indigo-50" : "bg-white hover:bg-neutral-50"
+                }`}
+                style={{ top: i * rowHeight - virtualTop + scrollTop, height: rowHeight, width: totalW, minWidth: "100%" }}
+                onClick={() => setActive(i)}
+              >
+                {columns.map((c) => (
+                  <div
+                    key={c.key}
+                    role="gridcell"
+                    className={`shrink-0 flex items-center px-2 min-w-0 ${c.align === "center" ? "justify-center" : ""}`}
+                    style={{ width: widthOf(c) }}
+                  >
+                    {!row ? (
+                      <span className="h-3 w-3/4 rounded bg-neutral-100" />
+                    ) : c.render ? (
+                      c.render(row, i)
+                    ) : (
+                      <span className="truncate" title={String(row[c.key] ?? "")}>
+                        {row[c.key] ?? "-"}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
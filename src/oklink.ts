@@ -1,135 +1,243 @@
-// src/oklink.ts
-// 说明：纯前端解析 OKLink 地址页与 token-transfer 子页中内嵌的 appState JSON。
-// 使用方式：
-// - 开发环境（vite dev）：不配 env 时默认走 /oklink，需在 vite 代理里将 /oklink -> https://www.oklink.com
-// - 生产环境（GitHub Pages 等）：在 .env.production 设置
-//     VITE_OKLINK_BASE=https://ok-proxy.<your-subdomain>.workers.dev/oklink
-//   让前端去请求你部署的 Cloudflare Worker 转发器。
-
-export type OklinkSummary = {
-  address: string | null;
-  entity_tag: string | null;                          // 单个实体标签（tagMaps.entityTag）
-  entity_tags: { text?: string; type?: string }[];    // 列表（tagStore.entityTags）
-  risk_tags: string[];                                // 风险标签（字符串）
-  property_tags: string[];                            // 属性标签（字符串）
-  is_contract: boolean | null;                        // 是否合约地址（tagMaps.isContract）
-  total_usd_value: number | null;                     // totalUsdValue
-  balance_trx: number | null;                         // balance (TRX)
-  usdt_holding: number | null;                        // token-transfer 页中的 usdtHolding
-
-  // 明细（addressDetaiInfo）
-  first_entry_from_address: string | null;
-  first_entry_timestamp: number | null;
-  first_entry_amount: number | null;
-  first_entry_tx_hash: string | null;
-
-  total_tx_amount: number | null;
-  first_tx_timestamp: number | null;
-  first_tx_hash: string | null;
-  last_tx_timestamp: number | null;
-  last_tx_hash: string | null;
-};
-
-// —— 统一请求前缀 ——
-// 开发：默认 "/oklink"（配合 Vite 代理）
-// 生产：读取 .env.production 中的 VITE_OKLINK_BASE（例如 https://ok-proxy.xxx.workers.dev/oklink）
-const BASE = (import.meta.env.VITE_OKLINK_BASE ?? "/oklink").replace(/\/$/, "");
-
-function normTagList(items: any): string[] {
-  if (!Array.isArray(items)) return [];
-  return items
-    .map((it) =>
-      typeof it === "string" ? it : (it?.text || it?.name || it?.label || "")
-    )
-    .filter(Boolean);
-}
-
-async function fetchHtml(path: string): Promise<string> {
-  const sep = path.includes("?") ? "&" : "?";
-  const url = `${BASE}${path}${sep}_ts=${Date.now()}`;
-  const res = await fetch(url, { cache: "no-store" });
-  if (!res.ok) throw new Error(`OKLink fetch failed: ${res.status}`);
-  return res.text();
-}
-
-function parseAppState(html: string): any {
-  const doc = new DOMParser().parseFromString(html, "text/html");
-  const el = doc.querySelector<HTMLScriptElement>(
-    'script#appState[type="application/json"]'
-  );
-  if (!el || !el.textContent) throw new Error("OKLink appState not found");
-  return JSON.parse(el.textContent);
-}
-
-async function fetchMainState(
-  address: string,
-  lang: "" | "zh-hans" = "zh-hans"
-): Promise<any> {
-  try {
-    const html = await fetchHtml(`/${lang}/tron/address/${address}`);
-    return parseAppState(html);
-  } catch {
-    // 失败则回退英文路径
-    const html = await fetchHtml(`/tron/address/${address}`);
-    return parseAppState(html);
-  }
-}
-
-async function fetchTokenState(
-  address: string,
-  lang: "" | "zh-hans" = "zh-hans"
-): Promise<any> {
-  try {
-    const html = await fetchHtml(`/${lang}/tron/address/${address}/token-transfer`);
-    return parseAppState(html);
-  } catch {
-    // 失败则回退英文路径
-    const html = await fetchHtml(`/tron/address/${address}/token-transfer`);
-    return parseAppState(html);
-  }
-}
-
-export async function fetchSlimSummary(
-  address: string,
-  lang: "" | "zh-hans" = "zh-hans"
-): Promise<OklinkSummary> {
-  const [main, token] = await Promise.all([
-    fetchMainState(address, lang),
-    fetchTokenState(address, lang),
-  ]);
-
-  const ps = main?.appContext?.initialProps?.store?.pageState;
-  const info = ps?.infoStore?.state ?? {};
-  const tags = ps?.tagStore ?? {};
-  const tagMaps = tags?.tagMaps ?? {};
-  const entTags = Array.isArray(tags?.entityTags) ? tags.entityTags : [];
-  const riskTags = Array.isArray(tags?.riskTags) ? tags.riskTags : [];
-  const propTags = Array.isArray(tags?.propertyTags) ? tags.propertyTags : [];
-  const detail = info?.addressDetaiInfo ?? {};
-
-  const usdtHolding =
-    token?.appContext?.initialProps?.store?.pageState?.infoStore?.state?.usdtHolding ?? null;
-
-  return {
-    address: info.address ?? null,
-    entity_tag: tagMaps.entityTag ?? null,
-    entity_tags: entTags,
-    risk_tags: normTagList(riskTags),
-    property_tags: normTagList(propTags),
-    is_contract: typeof tagMaps.isContract === "boolean" ? tagMaps.isContract : null,
-    total_usd_value: info.totalUsdValue ?? null,
-    balance_trx: info.balance ?? null,
-    usdt_holding: usdtHolding,
-
-    first_entry_from_address: detail.firstEntryFromAddress ?? null,
-    first_entry_timestamp: detail.firstEntryTimestamp ?? null,
-    first_entry_amount: detail.firstEntryAmount ?? null,
-    first_entry_tx_hash: detail.firstEntryTxHash ?? null,
-
-    total_tx_amount: detail.totalTxAmount ?? null,
-    first_tx_timestamp: detail.firstTxTimestamp ?? null,
-    first_tx_hash: detail.firstTxHash ?? null,
-    last_tx_timestamp: detail.lastTxTimestamp ?? null,
-    last_tx_hash: detail.lastTxHash ?? null,
-  };
-}
+// src/oklink.ts
+// 说明：纯前端解析 OKLink 地址页与 token-transfer 子页中内嵌的 appState JSON。
+// 链：TRON 与各 EVM 链共用同一套页面结构，路径为 /{链}/address/{地址}（链 slug：tron / eth / bsc / polygon …）。
+// 使用方式：
+// - 开发环境（vite dev）：不配 env 时默认走 /oklink，需在 vite 代理里将 /oklink -> https://www.oklink.com
+// - 生产环境（GitHub Pages 等）：在 .env.production 设置
+//     VITE_OKLINK_BASE=https://ok-proxy.<your-subdomain>.workers.dev/oklink
+//   让前端去请求你部署的 Cloudflare Worker 转发器。
+// 结构校验：取值前先按 MAIN_SCHEMA / TOKEN_SCHEMA 校验 appState 的形状，缺失或类型不符的路径
+// 以 OklinkSchemaDriftError 报出（而不是静默返回一堆 null）。页面改版、调整取值路径时同步
+// 更新 schema、OKLINK_PARSER_VERSION 与 src/fixtures/oklink 下的样本（npm run check:oklink 校验，
+// npm run capture:oklink 抓取真实页面，见 scripts/oklink-fixtures.mjs）。
+
+export type OklinkSummary = {
+  address: string | null;
+  entity_tag: string | null;                          // 单个实体标签（tagMaps.entityTag）
+  entity_tags: { text?: string; type?: string }[];    // 列表（tagStore.entityTags）
+  risk_tags: string[];                                // 风险标签（字符串）
+  property_tags: string[];                            // 属性标签（字符串）
+  is_contract: boolean | null;                        // 是否合约地址（tagMaps.isContract）
+  total_usd_value: number | null;                     // totalUsdValue
+  balance_native: number | null;                      // balance（原生币：TRX / ETH / BNB …）
+  usdt_holding: number | null;                        // token-transfer 页中的 usdtHolding
+
+  // 明细（addressDetaiInfo）
+  first_entry_from_address: string | null;
+  first_entry_timestamp: number | null;
+  first_entry_amount: number | null;
+  first_entry_tx_hash: string | null;
+
+  total_tx_amount: number | null;
+  first_tx_timestamp: number | null;
+  first_tx_hash: string | null;
+  last_tx_timestamp: number | null;
+  last_tx_hash: string | null;
+};
+
+// 解析器版本：appState 取值路径变化时 +1（漂移报错中带上，便于对照是哪一版解析器）
+export const OKLINK_PARSER_VERSION = 2;
+
+// 页面结构漂移：missing 为缺失 / 类型不符的路径（main: / token: 前缀区分两个页面）
+export class OklinkSchemaDriftError extends Error {
+  readonly missing: string[];
+  readonly version = OKLINK_PARSER_VERSION;
+  constructor(missing: string[]) {
+    super(`OKLink 页面结构已变化（解析器 v${OKLINK_PARSER_VERSION}），缺少：${missing.join(", ")}`);
+    this.name = "OklinkSchemaDriftError";
+    this.missing = missing;
+  }
+}
+
+// —— 统一请求前缀 ——
+// 开发：默认 "/oklink"（配合 Vite 代理）
+// 生产：读取 .env.production 中的 VITE_OKLINK_BASE（例如 https://ok-proxy.xxx.workers.dev/oklink）
+const BASE = (import.meta.env.VITE_OKLINK_BASE ?? "/oklink").replace(/\/$/, "");
+
+// —— appState 形状 ——
+// required：必须存在（null / 缺失即漂移）；其余字段允许为空（未打标签的地址本来就没有），
+// 但有值时类型必须相符——类型变了同样视为漂移
+type FieldKind = "object" | "array" | "string" | "number" | "boolean";
+type FieldSpec = { path: string; kind: FieldKind; required?: boolean };
+
+const PAGE_STATE = "appContext.initialProps.store.pageState";
+const INFO = `${PAGE_STATE}.infoStore.state`;
+const TAGS = `${PAGE_STATE}.tagStore`;
+const DETAIL = `${INFO}.addressDetaiInfo`;
+
+const MAIN_SCHEMA: FieldSpec[] = [
+  { path: INFO, kind: "object", required: true },
+  { path: `${INFO}.address`, kind: "string", required: true },
+  { path: `${INFO}.balance`, kind: "number", required: true },
+  { path: `${INFO}.totalUsdValue`, kind: "number" },
+  { path: TAGS, kind: "object", required: true },
+  { path: `${TAGS}.tagMaps`, kind: "object", required: true },
+  { path: `${TAGS}.tagMaps.entityTag`, kind: "string" },
+  { path: `${TAGS}.tagMaps.isContract`, kind: "boolean" },
+  { path: `${TAGS}.entityTags`, kind: "array" },
+  { path: `${TAGS}.riskTags`, kind: "array" },
+  { path: `${TAGS}.propertyTags`, kind: "array" },
+  { path: DETAIL, kind: "object", required: true },
+  { path: `${DETAIL}.firstEntryFromAddress`, kind: "string" },
+  { path: `${DETAIL}.firstEntryTimestamp`, kind: "number" },
+  { path: `${DETAIL}.firstEntryAmount`, kind: "number" },
+  { path: `${DETAIL}.firstEntryTxHash`, kind: "string" },
+  { path: `${DETAIL}.totalTxAmount`, kind: "number" },
+  { path: `${DETAIL}.firstTxTimestamp`, kind: "number" },
+  { path: `${DETAIL}.firstTxHash`, kind: "string" },
+  { path: `${DETAIL}.lastTxTimestamp`, kind: "number" },
+  { path: `${DETAIL}.lastTxHash`, kind: "string" },
+];
+
+const TOKEN_SCHEMA: FieldSpec[] = [
+  { path: INFO, kind: "object", required: true },
+  { path: `${INFO}.usdtHolding`, kind: "number" },
+];
+
+// 校验通过后的取值形状（与 MAIN_SCHEMA / TOKEN_SCHEMA 对应；非 required 字段可能为 null / 缺失）
+type DetailState = {
+  firstEntryFromAddress?: string | null;
+  firstEntryTimestamp?: number | null;
+  firstEntryAmount?: number | null;
+  firstEntryTxHash?: string | null;
+  totalTxAmount?: number | null;
+  firstTxTimestamp?: number | null;
+  firstTxHash?: string | null;
+  lastTxTimestamp?: number | null;
+  lastTxHash?: string | null;
+};
+type InfoState = {
+  address: string;
+  balance: number;
+  totalUsdValue?: number | null;
+  usdtHolding?: number | null;
+  addressDetaiInfo: DetailState;
+};
+type TagState = {
+  tagMaps: { entityTag?: string | null; isContract?: boolean | null };
+  entityTags?: { text?: string; type?: string }[] | null;
+  riskTags?: unknown;
+  propertyTags?: unknown;
+};
+
+function at(obj: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>((o, k) => (o == null ? undefined : (o as Record<string, unknown>)[k]), obj);
+}
+
+function kindOf(v: unknown): FieldKind | "other" {
+  if (Array.isArray(v)) return "array";
+  const t = typeof v;
+  return t === "object" || t === "string" || t === "number" || t === "boolean" ? t : "other";
+}
+
+// 返回不符合 schema 的路径（带页面前缀）
+function checkShape(state: unknown, schema: FieldSpec[], page: string): string[] {
+  const out: string[] = [];
+  for (const f of schema) {
+    const v = at(state, f.path);
+    const bad = v == null ? !!f.required : kindOf(v) !== f.kind;
+    if (bad) out.push(`${page}:${f.path}`);
+  }
+  return out;
+}
+
+function normTagList(items: unknown): string[] {
+  if (!Array.isArray(items)) return [];
+  return items
+    .map((it: string | { text?: string; name?: string; label?: string } | null) =>
+      typeof it === "string" ? it : (it?.text || it?.name || it?.label || "")
+    )
+    .filter(Boolean);
+}
+
+async function fetchHtml(path: string): Promise<string> {
+  const sep = path.includes("?") ? "&" : "?";
+  const url = `${BASE}${path}${sep}_ts=${Date.now()}`;
+  const res = await fetch(url, { cache: "no-store" });
+  if (!res.ok) throw new Error(`OKLink fetch failed: ${res.status}`);
+  return res.text();
+}
+
+// 不依赖 DOMParser：Node 下的样本校验与 Worker 中同样可用
+export function parseAppState(html: string): unknown {
+  const m = /<script\b[^>]*\bid=["']appState["'][^>]*>([\s\S]*?)<\/script>/i.exec(html);
+  if (!m || !m[1].trim()) throw new Error("OKLink appState not found");
+  return JSON.parse(m[1]);
+}
+
+async function fetchMainState(
+  address: string,
+  chain: string,
+  lang: "" | "zh-hans" = "zh-hans"
+): Promise<unknown> {
+  try {
+    const html = await fetchHtml(`/${lang}/${chain}/address/${address}`);
+    return parseAppState(html);
+  } catch {
+    // 失败则回退英文路径
+    const html = await fetchHtml(`/${chain}/address/${address}`);
+    return parseAppState(html);
+  }
+}
+
+async function fetchTokenState(
+  address: string,
+  chain: string,
+  lang: "" | "zh-hans" = "zh-hans"
+): Promise<unknown> {
+  try {
+    const html = await fetchHtml(`/${lang}/${chain}/address/${address}/token-transfer`);
+    return parseAppState(html);
+  } catch {
+    // 失败则回退英文路径
+    const html = await fetchHtml(`/${chain}/address/${address}/token-transfer`);
+    return parseAppState(html);
+  }
+}
+
+/** 两个页面的 appState → 摘要；形状不符时抛 OklinkSchemaDriftError */
+export function summarizeAppState(main: unknown, token: unknown): OklinkSummary {
+  const drift = [...checkShape(main, MAIN_SCHEMA, "main"), ...checkShape(token, TOKEN_SCHEMA, "token")];
+  if (drift.length) throw new OklinkSchemaDriftError(drift);
+
+  const info = at(main, INFO) as InfoState;
+  const tags = at(main, TAGS) as TagState;
+  const tagMaps = tags.tagMaps;
+  const detail = info.addressDetaiInfo;
+
+  return {
+    address: info.address,
+    entity_tag: tagMaps.entityTag ?? null,
+    entity_tags: tags.entityTags ?? [],
+    risk_tags: normTagList(tags.riskTags),
+    property_tags: normTagList(tags.propertyTags),
+    is_contract: tagMaps.isContract ?? null,
+    total_usd_value: info.totalUsdValue ?? null,
+    balance_native: info.balance,
+    usdt_holding: (at(token, INFO) as InfoState).usdtHolding ?? null,
+
+    first_entry_from_address: detail.firstEntryFromAddress ?? null,
+    first_entry_timestamp: detail.firstEntryTimestamp ?? null,
+    first_entry_amount: detail.firstEntryAmount ?? null,
+    first_entry_tx_hash: detail.firstEntryTxHash ?? null,
+
+    total_tx_amount: detail.totalTxAmount ?? null,
+    first_tx_timestamp: detail.firstTxTimestamp ?? null,
+    first_tx_hash: detail.firstTxHash ?? null,
+    last_tx_timestamp: detail.lastTxTimestamp ?? null,
+    last_tx_hash: detail.lastTxHash ?? null,
+  };
+}
+
+/** chain：OKLink 链 slug（tron / eth / bsc …，EVM 见 EvmChain.oklinkSlug） */
+export async function fetchSlimSummary(
+  address: string,
+  lang: "" | "zh-hans" = "zh-hans",
+  chain = "tron"
+): Promise<OklinkSummary> {
+  const [main, token] = await Promise.all([
+    fetchMainState(address, chain, lang),
+    fetchTokenState(address, chain, lang),
+  ]);
+  return summarizeAppState(main, token);
+}
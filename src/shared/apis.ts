@@ -0,0 +1,136 @@
+/* src/shared/apis.ts */
+import type { EvmApiMode } from "./evmChains";
+import type { FailReason, NetSpec, ProviderId, RequestResult } from "./scheduler";
+
+/* =========================
+ * TronGrid / Etherscan 请求描述（可序列化）
+ * - 主线程的单次请求与 Worker 中的翻页循环共用，经调度器发送
+ * - Etherscan 响应统一整理为 EtherscanReply（result 非数组时放在 errorText）
+ * ========================= */
+
+/** TronGrid 入口与 Key */
+export type TronGridApi = { endpoint: string; keys: string[]; timeoutMs: number };
+
+/** 路径或 links.next 返回的相对地址 → 完整 URL（已是完整 URL 的原样返回） */
+export function tronGridUrl(api: TronGridApi, path: string): string {
+  if (/^https?:\/\//i.test(path)) return path;
+  return `${api.endpoint.replace(/\/$/, "")}${path.startsWith("/") ? path : "/" + path}`;
+}
+
+/** TronGrid GET；带 body 时为 POST（/wallet/* 节点接口） */
+export function tronGridSpec(api: TronGridApi, url: string, body?: unknown): NetSpec {
+  const base = { provider: "trongrid", keys: api.keys, url, timeoutMs: api.timeoutMs, keyHeader: "TRON-PRO-API-KEY" };
+  return body === undefined
+    ? { ...base, method: "GET", headers: { "Content-Type": "application/json", "User-Agent": "Mozilla/5.0" } }
+    : { ...base, method: "POST", headers: { "Content-Type": "application/json" }, body };
+}
+
+/** 账户统计的“代币”：TRC20 合约地址，或 TRX（此常量）/ TRC10 代币 ID（纯数字） */
+export const TRON_STAT_TRX = "TRX";
+export const isTrc10Id = (s: string) => /^\d+$/.test(s);
+
+// TronGrid /v1/accounts/{addr}/transactions 的条目（普通交易；search_internal 时混有内部交易），字段都可能缺失
+export type TronContractValue = {
+  amount?: string | number;
+  call_value?: string | number;
+  owner_address?: string;
+  to_address?: string;
+  contract_address?: string;
+  asset_name?: string;
+  account_address?: string;
+  data?: string;
+};
+export type TronTxItem = {
+  txID?: string;
+  transaction_id?: string;
+  block_timestamp?: number;
+  ret?: { contractRet?: string; fee?: number }[];
+  raw_data?: { contract?: { type?: string; parameter?: { type_url?: string; value?: TronContractValue } }[] };
+  energy_fee?: number;
+  net_fee?: number;
+  energy_usage?: number;
+  energy_usage_total?: number;
+  // 内部交易
+  internal_tx_id?: string;
+  tx_id?: string;
+  from_address?: string;
+  to_address?: string;
+  data?: { rejected?: boolean; call_value?: Record<string, string | number> };
+};
+
+// TronGrid /v1/accounts/{addr}/transactions/trc20 的条目
+export type TronTrc20Item = {
+  type?: string;
+  transaction_id?: string;
+  from?: string;
+  to?: string;
+  value?: string | number;
+  block_timestamp?: number;
+  token_info?: { symbol?: string; decimals?: number; address?: string };
+};
+
+/** 没有 Key 或 Key 全部失效 */
+export function isKeyFailure(res: { ok: boolean; reason?: FailReason }): boolean {
+  return !res.ok && (res.reason === "no-key" || res.reason === "unauthorized");
+}
+
+/**
+ * Etherscan 兼容接口：base 为 ".../api"；fixed 为每个请求都带的参数（V2 统一入口的 chainid）。
+ * provider：调度器按它隔离预算 / 令牌桶 / 熔断 / Key 池，见 evmProviderOf。
+ * allowNoKey：Blockscout 不需要 Key，未填时不带 apikey 直接请求
+ */
+export type EtherscanApi = {
+  provider: ProviderId;
+  base: string;
+  fixed: Record<string, string>;
+  keys: string[];
+  allowNoKey: boolean;
+  timeoutMs: number;
+};
+
+/**
+ * Etherscan 兼容入口的 Provider id：V2 统一入口共用 "etherscan-v2"；
+ * family / Blockscout 按 Endpoint 主机区分（"family:api.bscscan.com"），各站点的限额与故障互不影响
+ */
+export function evmProviderOf(mode: EvmApiMode, endpoint: string): ProviderId {
+  if (mode === "v2") return "etherscan-v2";
+  try {
+    return `${mode}:${new URL(endpoint).host}`;
+  } catch {
+    return `${mode}:${endpoint.trim()}`;
+  }
+}
+
+export function etherscanSpec(api: EtherscanApi, params: Record<string, string>): NetSpec {
+  return {
+    provider: api.provider,
+    keys: api.keys,
+    allowNoKey: api.allowNoKey,
+    url: `${api.base}?${new URLSearchParams({ ...api.fixed, ...params }).toString()}`,
+    keyParam: "apikey",
+    timeoutMs: api.timeoutMs,
+    etherscanBody: true,
+  };
+}
+
+export type EtherscanReply = {
+  ok: boolean;
+  status: number;
+  message: string;
+  result: unknown[];
+  errorText?: string;
+  reason?: FailReason;
+};
+
+export function etherscanReply(res: RequestResult): EtherscanReply {
+  if (!res.ok) return { ok: false, status: res.status, message: res.message, result: [], reason: res.reason };
+  const json = (res.json || {}) as { status?: unknown; message?: unknown; result?: unknown };
+  const isArr = Array.isArray(json.result);
+  return {
+    ok: true,
+    status: Number(json.status ?? 0),
+    message: String(json.message ?? ""),
+    result: isArr ? (json.result as unknown[]) : [],
+    errorText: isArr ? "" : String(json.result ?? ""),
+  };
+}
@@ -0,0 +1,167 @@
+/* src/shared/evmChains.ts */
+
+/* =========================
+ * EVM 网络表（EthView 网络选择）
+ * - v2：Etherscan API V2 统一入口，一个 Key 通用，按 chainid 区分网络
+ * - family：各链自己的 Etherscan 系浏览器 API（BscScan / PolygonScan …，需要对应站点的 Key）
+ * - blockscout：Blockscout 的 Etherscan 兼容接口（Key 可不填）
+ * 三种入口的请求参数与返回结构一致（module / action / status / result）
+ * ========================= */
+
+export type EvmApiMode = "v2" | "family" | "blockscout";
+
+export type StableToken = { symbol: string; contract: string; decimals: number };
+
+export type EvmChain = {
+  id: string;
+  chainId: number;
+  name: string;
+  /** 导出文件名前缀 */
+  short: string;
+  nativeSymbol: string;
+  /** 默认稳定币：第一个用于账户统计（未填合约时） */
+  stablecoins: StableToken[];
+  explorer: string;
+  familyApi: string;
+  blockscoutApi?: string;
+  /** CoinGecko 平台 id（代币估值）与原生币 coin id */
+  coingeckoPlatform: string;
+  coingeckoNativeId: string;
+  /** OKLink 地址页的链 slug（/{slug}/address/{地址}） */
+  oklinkSlug: string;
+};
+
+/** V2 统一入口（拼 /api 后为 https://api.etherscan.io/v2/api） */
+export const ETHERSCAN_V2_BASE = "https://api.etherscan.io/v2";
+
+export const EVM_CHAINS: EvmChain[] = [
+  {
+    id: "eth",
+    chainId: 1,
+    name: "Ethereum",
+    short: "ETH",
+    nativeSymbol: "ETH",
+    stablecoins: [
+      { symbol: "USDT", contract: "0xdAC17F958D2ee523a2206206994597C13D831ec7", decimals: 6 },
+      { symbol: "USDC", contract: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", decimals: 6 },
+    ],
+    explorer: "https://etherscan.io",
+    familyApi: "https://api.etherscan.io",
+    blockscoutApi: "https://eth.blockscout.com",
+    coingeckoPlatform: "ethereum",
+    coingeckoNativeId: "ethereum",
+    oklinkSlug: "eth",
+  },
+  {
+    id: "bsc",
+    chainId: 56,
+    name: "BNB Smart Chain",
+    short: "BSC",
+    nativeSymbol: "BNB",
+    stablecoins: [
+      { symbol: "USDT", contract: "0x55d398326f99059fF775485246999027B3197955", decimals: 18 },
+      { symbol: "USDC", contract: "0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d", decimals: 18 },
+    ],
+    explorer: "https://bscscan.com",
+    familyApi: "https://api.bscscan.com",
+    coingeckoPlatform: "binance-smart-chain",
+    coingeckoNativeId: "binancecoin",
+    oklinkSlug: "bsc",
+  },
+  {
+    id: "polygon",
+    chainId: 137,
+    name: "Polygon PoS",
+    short: "POLYGON",
+    nativeSymbol: "POL",
+    stablecoins: [
+      { symbol: "USDT", contract: "0xc2132D05D31c914a87C6611C10748AEb04B58e8F", decimals: 6 },
+      { symbol: "USDC", contract: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359", decimals: 6 },
+    ],
+    explorer: "https://polygonscan.com",
+    familyApi: "https://api.polygonscan.com",
+    blockscoutApi: "https://polygon.blockscout.com",
+    coingeckoPlatform: "polygon-pos",
+    coingeckoNativeId: "polygon-ecosystem-token",
+    oklinkSlug: "polygon",
+  },
+  {
+    id: "arbitrum",
+    chainId: 42161,
+    name: "Arbitrum One",
+    short: "ARB",
+    nativeSymbol: "ETH",
+    stablecoins: [
+      { symbol: "USDT", contract: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9", decimals: 6 },
+      { symbol: "USDC", contract: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831", decimals: 6 },
+    ],
+    explorer: "https://arbiscan.io",
+    familyApi: "https://api.arbiscan.io",
+    blockscoutApi: "https://arbitrum.blockscout.com",
+    coingeckoPlatform: "arbitrum-one",
+    coingeckoNativeId: "ethereum",
+    oklinkSlug: "arbitrum-one",
+  },
+  {
+    id: "base",
+    chainId: 8453,
+    name: "Base",
+    short: "BASE",
+    nativeSymbol: "ETH",
+    stablecoins: [
+      { symbol: "USDC", contract: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", decimals: 6 },
+      { symbol: "USDT", contract: "0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2", decimals: 6 },
+    ],
+    explorer: "https://basescan.org",
+    familyApi: "https://api.basescan.org",
+    blockscoutApi: "https://base.blockscout.com",
+    coingeckoPlatform: "base",
+    coingeckoNativeId: "ethereum",
+    oklinkSlug: "base",
+  },
+  {
+    id: "optimism",
+    chainId: 10,
+    name: "OP Mainnet",
+    short: "OP",
+    nativeSymbol: "ETH",
+    stablecoins: [
+      { symbol: "USDT", contract: "0x94b008aA00579c1307B0EF2c499aD98a8ce58e58", decimals: 6 },
+      { symbol: "USDC", contract: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85", decimals: 6 },
+    ],
+    explorer: "https://optimistic.etherscan.io",
+    familyApi: "https://api-optimistic.etherscan.io",
+    blockscoutApi: "https://optimism.blockscout.com",
+    coingeckoPlatform: "optimistic-ethereum",
+    coingeckoNativeId: "ethereum",
+    oklinkSlug: "optimism",
+  },
+];
+
+/** 按 id 取网络；未知 id 回退到以太坊主网 */
+export function evmChainOf(id: string | undefined): EvmChain {
+  return EVM_CHAINS.find((c) => c.id === id) || EVM_CHAINS[0];
+}
+
+/** 某网络在某入口下的默认 Endpoint（请求时拼 /api）；该链没有 Blockscout 时回退到 V2 */
+export function defaultEndpointOf(chain: EvmChain, mode: EvmApiMode): string {
+  if (mode === "family") return chain.familyApi;
+  if (mode === "blockscout" && chain.blockscoutApi) return chain.blockscoutApi;
+  return ETHERSCAN_V2_BASE;
+}
+
+/** 入口是否可用于该网络 */
+export function apiModeSupported(chain: EvmChain, mode: EvmApiMode): boolean {
+  return mode !== "blockscout" || !!chain.blockscoutApi;
+}
+
+/** 浏览器链接 */
+export function explorerTxUrl(chain: EvmChain, hash: string): string {
+  return `${chain.explorer}/tx/${hash}`;
+}
+export function explorerAddressUrl(chain: EvmChain, addr: string): string {
+  return `${chain.explorer}/address/${addr}`;
+}
+export function explorerBlockUrl(chain: EvmChain, block: string | number): string {
+  return `${chain.explorer}/block/${block}`;
+}
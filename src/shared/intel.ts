@@ -0,0 +1,391 @@
+/* src/shared/intel.ts */
+import { fetchSlimSummary, OklinkSchemaDriftError } from "../oklink";
+import { evmChainOf } from "./evmChains";
+import { labelOf, loadLabels } from "./labelStore";
+
+/* =========================
+ * 地址情报（标签 / 风险 / 合约标记 / 余额 / 首笔入金）
+ * - 每个来源（provider）把自己的数据整理成 IntelSummary；标签逐条带上来源
+ * - createIntelClient().lookup()：按优先级并行查询已启用的来源，合并为 IntelResult
+ *   · 标签：同类同名只保留优先级最高的来源；其余单值字段取第一个有值的来源
+ *   · 每个来源各自排队 / 软超时 / 重试 / 缓存 5 分钟；失败只记在 failed 中，不影响其他来源
+ * - chain：TRON 为 "tron"，EVM 为 EvmChain.id（eth / bsc / polygon …）
+ * ========================= */
+
+export type IntelTagKind = "entity" | "risk" | "property";
+
+export type IntelTag = { text: string; kind: IntelTagKind; source: string };
+
+export type IntelFunder = { address: string; ts: number | null; amount: number | null; txHash: string | null };
+
+/** 单个来源的规范化结果；source 为来源名称（导出时标注在标签后） */
+export type IntelSummary = {
+  source: string;
+  tags: IntelTag[];
+  isContract: boolean | null;
+  /** 原生币余额（TRX / ETH …）与总资产（USD） */
+  balanceNative: number | null;
+  totalUsdValue: number | null;
+  usdtHolding: number | null;
+  firstFunder: IntelFunder | null;
+};
+
+type Sourced<T> = { value: T; source: string };
+
+export type IntelResult = {
+  tags: IntelTag[];
+  isContract: Sourced<boolean> | null;
+  balanceNative: Sourced<number> | null;
+  totalUsdValue: Sourced<number> | null;
+  usdtHolding: Sourced<number> | null;
+  firstFunder: Sourced<IntelFunder> | null;
+  /** 有结果的来源（按优先级） */
+  answered: string[];
+  /** 查询失败的来源；drift 为页面结构变化等需要人工处理的错误 */
+  failed: { source: string; message: string; drift?: boolean }[];
+};
+
+export type IntelProvider = {
+  id: IntelProviderId;
+  name: string;
+  supports: (chain: string) => boolean;
+  /** 没有该地址的数据返回 null；请求失败抛错 */
+  fetch: (address: string, chain: string) => Promise<IntelSummary | null>;
+  /** 串行排队（抓页面的来源需要控制节奏），每次请求后停顿 pauseMs～2×pauseMs */
+  serial?: boolean;
+  pauseMs?: number;
+  timeoutMs?: number;
+};
+
+/* ========== 来源配置 ========== */
+
+export type IntelProviderId = "labels" | "oklink" | "tronscan" | "http";
+
+export type IntelConfig = {
+  /** 优先级（靠前优先） */
+  order: IntelProviderId[];
+  enabled: Record<IntelProviderId, boolean>;
+  /** Tronscan API Key（可不填，限速更严） */
+  tronscanKey: string;
+  /** 自定义 JSON 接口：URL 模板，{address} / {chain} 会被替换 */
+  httpUrl: string;
+};
+
+export const INTEL_PROVIDER_NAMES: Record<IntelProviderId, string> = {
+  labels: "本地标签",
+  oklink: "OKLink",
+  tronscan: "Tronscan",
+  http: "自定义接口",
+};
+
+export const DEFAULT_INTEL_CONFIG: IntelConfig = {
+  order: ["labels", "oklink", "tronscan", "http"],
+  enabled: { labels: true, oklink: true, tronscan: false, http: false },
+  tronscanKey: "",
+  httpUrl: "",
+};
+
+/** 按配置生成已启用的来源（优先级顺序） */
+export function providersOf(cfg: IntelConfig): IntelProvider[] {
+  const make: Record<IntelProviderId, () => IntelProvider | null> = {
+    labels: () => labelFileProvider,
+    oklink: () => oklinkProvider,
+    tronscan: () => tronscanProvider(cfg.tronscanKey.trim()),
+    http: () => (cfg.httpUrl.trim() ? httpProvider(cfg.httpUrl.trim()) : null),
+  };
+  return cfg.order.filter((id) => cfg.enabled[id]).map((id) => make[id]()).filter((p): p is IntelProvider => !!p);
+}
+
+/* ========== 来源实现 ========== */
+
+function emptySummary(source: string): IntelSummary {
+  return { source, tags: [], isContract: null, balanceNative: null, totalUsdValue: null, usdtHolding: null, firstFunder: null };
+}
+
+const num = (v: unknown): number | null => (typeof v === "number" && Number.isFinite(v) ? v : null);
+
+// —— OKLink：地址页 appState（src/oklink.ts） —— //
+const oklinkProvider: IntelProvider = {
+  id: "oklink",
+  name: INTEL_PROVIDER_NAMES.oklink,
+  supports: () => true,
+  serial: true,
+  pauseMs: 1000,
+  timeoutMs: 9000,
+  async fetch(address, chain) {
+    const slug = chain === "tron" ? "tron" : evmChainOf(chain).oklinkSlug;
+    const ok = await fetchSlimSummary(chain === "tron" ? address : address.toLowerCase(), "zh-hans", slug);
+    const source = INTEL_PROVIDER_NAMES.oklink;
+    const entities = ok.entity_tag ? [ok.entity_tag] : ok.entity_tags.map((t) => t?.text || "").filter(Boolean);
+    return {
+      source,
+      tags: [
+        ...entities.map((text) => ({ text, kind: "entity" as const, source })),
+        ...ok.risk_tags.map((text) => ({ text, kind: "risk" as const, source })),
+        ...ok.property_tags.map((text) => ({ text, kind: "property" as const, source })),
+      ],
+      isContract: ok.is_contract,
+      balanceNative: ok.balance_native,
+      totalUsdValue: ok.total_usd_value,
+      usdtHolding: ok.usdt_holding,
+      firstFunder: ok.first_entry_from_address
+        ? {
+            address: ok.first_entry_from_address,
+            ts: ok.first_entry_timestamp,
+            amount: ok.first_entry_amount,
+            txHash: ok.first_entry_tx_hash,
+          }
+        : null,
+    };
+  },
+};
+
+// —— Tronscan：/api/accountv2（公开标签 + 红 / 灰标风险 + 余额；accountType 2 为合约） —— //
+function tronscanProvider(apiKey: string): IntelProvider {
+  return {
+    id: "tronscan",
+    name: INTEL_PROVIDER_NAMES.tronscan,
+    supports: (chain) => chain === "tron",
+    timeoutMs: 8000,
+    async fetch(address) {
+      const res = await fetch(`https://apilist.tronscanapi.com/api/accountv2?address=${encodeURIComponent(address)}`, {
+        headers: apiKey ? { "TRON-PRO-API-KEY": apiKey } : {},
+      });
+      if (!res.ok) throw new Error(`Tronscan 查询失败：${res.status}`);
+      const j: Record<string, unknown> | null = await res.json();
+      if (!j || typeof j !== "object") return null;
+      const source = INTEL_PROVIDER_NAMES.tronscan;
+      const s = emptySummary(source);
+      const add = (text: unknown, kind: IntelTagKind) => {
+        const t = typeof text === "string" ? text.trim() : "";
+        if (t && !s.tags.some((x) => x.kind === kind && x.text === t)) s.tags.push({ text: t, kind, source });
+      };
+      add(j.addressTag, "entity");
+      add(j.publicTag, "property");
+      add(j.blueTag, "property");
+      add(j.redTag, "risk");
+      add(j.greyTag, "risk");
+      if (j.feedbackRisk === true) add("用户举报风险", "risk");
+      s.isContract = typeof j.accountType === "number" ? j.accountType === 2 : null;
+      // balance 单位为 sun
+      const sun = num(j.balance);
+      s.balanceNative = sun !== null ? sun / 1e6 : null;
+      s.totalUsdValue = num(j.totalAssetInUsd);
+      return s;
+    },
+  };
+}
+
+// —— 本地标签：IndexedDB 标签库（shared/labelStore，导入 / 表格中编辑）+ 站点根目录的 labels.json —— //
+// labels.json 随部署放置，没有该文件视为无数据；格式：[{ "address": "T…/0x…", "chain": "tron|eth|…（可省略=任意链）", "label": "…", "kind": "entity|risk|property（缺省 entity）" }]
+type LabelEntry = { address: string; chain?: string; label: string; kind?: IntelTagKind };
+let labelFile: Promise<LabelEntry[]> | null = null;
+
+function loadLabelFile(): Promise<LabelEntry[]> {
+  labelFile ||= fetch(`${import.meta.env.BASE_URL}labels.json`, { cache: "no-store" })
+    .then((r) => (r.ok ? r.json() : []))
+    .then((j) => (Array.isArray(j) ? j.filter((e) => e && typeof e.address === "string" && typeof e.label === "string") : []))
+    .catch(() => []);
+  return labelFile;
+}
+
+const sameAddr = (a: string, b: string) => (a.startsWith("0x") ? a.toLowerCase() === b.toLowerCase() : a === b);
+
+// 标签库的类别是自由文本：像风险的归为风险标签，其余按实体标签
+const RISK_CATEGORY = /风险|可疑|涉案|诈骗|欺诈|钓鱼|黑|洗钱|混币|制裁|冻结|scam|fraud|phish|mixer|suspect|sanction|hack|risk/i;
+
+const labelFileProvider: IntelProvider = {
+  id: "labels",
+  name: INTEL_PROVIDER_NAMES.labels,
+  supports: () => true,
+  async fetch(address, chain) {
+    await loadLabels();
+    const source = INTEL_PROVIDER_NAMES.labels;
+    const s = emptySummary(source);
+    const rec = labelOf(address, chain);
+    if (rec) {
+      s.tags.push({
+        text: rec.category ? `${rec.label}（${rec.category}）` : rec.label,
+        kind: RISK_CATEGORY.test(rec.category) ? "risk" : "entity",
+        source: rec.source ? `${source}·${rec.source}` : source,
+      });
+    }
+    const hits = (await loadLabelFile()).filter((e) => sameAddr(e.address, address) && (!e.chain || e.chain === chain));
+    for (const e of hits) {
+      const kind: IntelTagKind = e.kind === "risk" || e.kind === "property" ? e.kind : "entity";
+      s.tags.push({ text: e.label, kind, source });
+    }
+    return s.tags.length ? s : null;
+  },
+};
+
+// —— 自定义 JSON 接口：GET 模板 URL，返回 { tags: [{ text, kind }], isContract, balance, totalUsdValue, firstFunder: { address, timestamp, amount, txHash } } —— //
+function httpProvider(template: string): IntelProvider {
+  return {
+    id: "http",
+    name: INTEL_PROVIDER_NAMES.http,
+    supports: () => true,
+    timeoutMs: 8000,
+    async fetch(address, chain) {
+      const url = template.replace(/\{address\}/g, encodeURIComponent(address)).replace(/\{chain\}/g, encodeURIComponent(chain));
+      const res = await fetch(url, { headers: { accept: "application/json" } });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`自定义接口查询失败：${res.status}`);
+      const j: Record<string, unknown> | null = await res.json();
+      if (!j || typeof j !== "object") return null;
+      const source = typeof j.source === "string" && j.source ? j.source : INTEL_PROVIDER_NAMES.http;
+      const s = emptySummary(source);
+      const tags: (string | { text?: unknown; kind?: unknown } | null)[] = Array.isArray(j.tags) ? j.tags : [];
+      for (const t of tags) {
+        const text = typeof t === "string" ? t : t?.text;
+        if (typeof text !== "string" || !text) continue;
+        const k = typeof t === "string" ? undefined : t?.kind;
+        const kind: IntelTagKind = k === "risk" || k === "property" ? k : "entity";
+        s.tags.push({ text, kind, source });
+      }
+      s.isContract = typeof j.isContract === "boolean" ? j.isContract : null;
+      s.balanceNative = num(j.balance);
+      s.totalUsdValue = num(j.totalUsdValue);
+      const f = j.firstFunder as { address?: unknown; timestamp?: unknown; amount?: unknown; txHash?: unknown } | null | undefined;
+      if (f && typeof f.address === "string" && f.address) {
+        s.firstFunder = { address: f.address, ts: num(f.timestamp), amount: num(f.amount), txHash: typeof f.txHash === "string" && f.txHash ? f.txHash : null };
+      }
+      return s;
+    },
+  };
+}
+
+/* ========== 合并 ========== */
+
+/** 按 summaries 的顺序（即优先级）合并 */
+export function mergeIntel(summaries: IntelSummary[], failed: IntelResult["failed"] = []): IntelResult {
+  const out: IntelResult = {
+    tags: [],
+    isContract: null,
+    balanceNative: null,
+    totalUsdValue: null,
+    usdtHolding: null,
+    firstFunder: null,
+    answered: summaries.map((s) => s.source),
+    failed,
+  };
+  const seen = new Set<string>();
+  for (const s of summaries) {
+    for (const t of s.tags) {
+      const k = `${t.kind}|${t.text.toLowerCase()}`;
+      if (seen.has(k)) continue;
+      seen.add(k);
+      out.tags.push(t);
+    }
+    if (!out.isContract && s.isContract !== null) out.isContract = { value: s.isContract, source: s.source };
+    if (!out.balanceNative && s.balanceNative !== null) out.balanceNative = { value: s.balanceNative, source: s.source };
+    if (!out.totalUsdValue && s.totalUsdValue !== null) out.totalUsdValue = { value: s.totalUsdValue, source: s.source };
+    if (!out.usdtHolding && s.usdtHolding !== null) out.usdtHolding = { value: s.usdtHolding, source: s.source };
+    if (!out.firstFunder && s.firstFunder) out.firstFunder = { value: s.firstFunder, source: s.source };
+  }
+  return out;
+}
+
+/** 某类标签的导出文本：每条标签后标注来源，如 "Exchange A〔OKLink〕 | 钓鱼〔本地标签〕"；没有为 "-" */
+export function intelTagText(r: IntelResult | null, kind: IntelTagKind): string {
+  const list = (r?.tags || []).filter((t) => t.kind === kind);
+  return list.length ? list.map((t) => `${t.text}〔${t.source}〕`).join(" | ") : "-";
+}
+
+/** 来源概况：有结果的来源 + 失败的来源，如 "OKLink, Tronscan（失败）" */
+export function intelSourcesText(r: IntelResult | null): string {
+  if (!r) return "-";
+  const parts = [...r.answered, ...r.failed.map((f) => `${f.source}（失败）`)];
+  return parts.length ? parts.join(", ") : "无数据";
+}
+
+/* ========== 查询客户端 ========== */
+
+const CACHE_TTL_MS = 5 * 60_000;
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** 每个视图一个：缓存、去重与排队在视图内共享 */
+export function createIntelClient() {
+  const cache = new Map<string, { data: IntelSummary | null; ts: number }>();
+  const inflight = new Map<string, Promise<IntelSummary | null>>();
+  const queues = new Map<string, Promise<void>>();
+
+  async function attempt(p: IntelProvider, address: string, chain: string, isCancelled: () => boolean) {
+    let lastErr: unknown = null;
+    for (let i = 1; i <= 2 && !isCancelled(); i++) {
+      try {
+        return await Promise.race([
+          p.fetch(address, chain),
+          new Promise<never>((_, rej) => setTimeout(() => rej(new Error("TIMEOUT")), p.timeoutMs ?? 9000)),
+        ]);
+      } catch (e) {
+        // 页面结构变化：重试无意义
+        if (e instanceof OklinkSchemaDriftError) throw e;
+        lastErr = e;
+        const msg = String((e instanceof Error ? e.message : e) || "");
+        // 仅在超时 / 限流 / 5xx 时退避重试
+        if (i < 2 && (msg.includes("TIMEOUT") || msg.includes("429") || /\b5\d\d\b/.test(msg))) {
+          await sleep(600 * i + Math.floor(Math.random() * 300));
+          continue;
+        }
+        break;
+      }
+    }
+    throw lastErr || new Error("已取消");
+  }
+
+  function one(p: IntelProvider, address: string, chain: string, isCancelled: () => boolean): Promise<IntelSummary | null> {
+    const key = `${p.id}|${chain}|${address}`;
+    const hit = cache.get(key);
+    if (hit && Date.now() - hit.ts < CACHE_TTL_MS) return Promise.resolve(hit.data);
+    const running = inflight.get(key);
+    if (running) return running;
+
+    const run = async () => {
+      const data = await attempt(p, address, chain, isCancelled);
+      cache.set(key, { data, ts: Date.now() });
+      return data;
+    };
+    let task: Promise<IntelSummary | null>;
+    if (p.serial) {
+      const prev = queues.get(p.id) || Promise.resolve();
+      task = prev.then(async () => {
+        try {
+          return await run();
+        } finally {
+          const pause = p.pauseMs ?? 0;
+          if (pause) await sleep(pause + Math.floor(Math.random() * pause));
+        }
+      });
+      queues.set(p.id, task.then(() => undefined, () => undefined));
+    } else {
+      task = run();
+    }
+    inflight.set(key, task);
+    return task.finally(() => inflight.delete(key));
+  }
+
+  return {
+    /** 查询并合并；providers 的顺序即优先级 */
+    async lookup(address: string, chain: string, providers: IntelProvider[], isCancelled: () => boolean = () => false): Promise<IntelResult> {
+      const usable = providers.filter((p) => p.supports(chain));
+      const settled = await Promise.allSettled(usable.map((p) => one(p, address, chain, isCancelled)));
+      const summaries: IntelSummary[] = [];
+      const failed: IntelResult["failed"] = [];
+      settled.forEach((r, i) => {
+        if (r.status === "fulfilled") {
+          if (r.value) summaries.push(r.value);
+        } else {
+          const e: unknown = r.reason;
+          failed.push({ source: usable[i].name, message: String(e instanceof Error ? e.message : e), drift: e instanceof OklinkSchemaDriftError });
+        }
+      });
+      return mergeIntel(summaries, failed);
+    },
+    clearCache(): void {
+      cache.clear();
+    },
+  };
+}
+
+export type IntelClient = ReturnType<typeof createIntelClient>;
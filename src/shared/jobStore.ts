@@ -0,0 +1,255 @@
+/* src/shared/jobStore.ts */
+import type { EvmApiMode } from "./evmChains";
+
+/* =========================
+ * 批量任务断点（IndexedDB）
+ * - jobs：任务元信息 + 每个 (地址, 类型) 的游标
+ * - pages：每页已拉取的行与去重 Key（按页追加，恢复时按顺序拼回）
+ * 游标含义由调用方决定：Etherscan 为 startBlock 等累计状态，TronGrid 为下一页 URL（links.next / fingerprint）
+ * ========================= */
+
+export type JobChain = "tron" | "eth";
+export type JobStatus = "running" | "paused";
+
+export type Checkpoint = {
+  cursor: unknown; // 可 JSON 化的游标；null 表示从头开始
+  done: boolean;   // 该 (地址, 类型) 已拉取完毕
+  pages: number;
+};
+
+export type JobRecord = {
+  id: string;
+  chain: JobChain;
+  status: JobStatus;
+  createdAt: number;
+  updatedAt: number;
+  addresses: string[];
+  params: JobParams;                           // endpoint / contract / queryType 等（不含 API Key）
+  kinds: string[];                             // 每个地址需要完成的类型（如 trc20 / stat / tx）
+  checkpoints: Record<string, Checkpoint>;     // key = `${addr}|${kind}`
+};
+
+/** 任务查询参数（恢复时回填表单；旧任务可能缺字段） */
+export type JobParams = {
+  endpoint?: string;
+  contract?: string;
+  startTime?: string;
+  endTime?: string;
+  statContracts?: string[]; // TRON：账户统计的代币合约（TRX / TRC10 代币 ID）
+  network?: string;         // EVM：网络 / API 入口 / 统计代币 / 查询类型
+  apiMode?: EvmApiMode;
+  statTokens?: string[];
+  countFailed?: boolean;    // TRON / EVM：失败交易计入统计
+  queryType?: string;
+};
+
+/** 落盘的行（结果表的一行，字段为表头） */
+export type StoredRow = Record<string, unknown>;
+
+type PageRecord = { jobId: string; addr: string; kind: string; rows: StoredRow[]; keys: string[] };
+
+const DB_NAME = "multichain-exporter";
+const DB_VERSION = 1;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// 本页面内正在运行的任务（崩溃/关页遗留的 "running" 任务不在其中，可被恢复）
+const liveJobs = new Set<string>();
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((fn) => fn());
+}
+
+/** 订阅任务列表变化（新建/状态变更/删除），返回取消订阅函数 */
+export function subscribeJobs(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+/** 任务是否正在本页面中运行 */
+export function isJobLive(id: string): boolean {
+  return liveJobs.has(id);
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains("jobs")) db.createObjectStore("jobs", { keyPath: "id" });
+      if (!db.objectStoreNames.contains("pages")) {
+        const pages = db.createObjectStore("pages", { autoIncrement: true });
+        pages.createIndex("byJob", "jobId");
+        pages.createIndex("byJobAddrKind", ["jobId", "addr", "kind"]);
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+}
+
+function reqDone<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function txDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function cpKey(addr: string, kind: string): string {
+  return `${addr}|${kind}`;
+}
+
+/** 新建任务（返回任务 ID） */
+export async function createJob(
+  chain: JobChain,
+  addresses: string[],
+  params: JobParams,
+  kinds: string[]
+): Promise<string> {
+  const db = await openDb();
+  const now = Date.now();
+  const job: JobRecord = {
+    id: `${chain}-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    chain,
+    status: "running",
+    createdAt: now,
+    updatedAt: now,
+    addresses,
+    params,
+    kinds,
+    checkpoints: {},
+  };
+  const tx = db.transaction("jobs", "readwrite");
+  tx.objectStore("jobs").put(job);
+  await txDone(tx);
+  liveJobs.add(job.id);
+  notify();
+  return job.id;
+}
+
+export async function getJob(id: string): Promise<JobRecord | null> {
+  const db = await openDb();
+  const job = await reqDone(db.transaction("jobs").objectStore("jobs").get(id));
+  return (job as JobRecord) ?? null;
+}
+
+/** 所有未完成任务（按创建时间倒序） */
+export async function listJobs(): Promise<JobRecord[]> {
+  const db = await openDb();
+  const all = (await reqDone(db.transaction("jobs").objectStore("jobs").getAll())) as JobRecord[];
+  return all.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function setJobStatus(id: string, status: JobStatus): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction("jobs", "readwrite");
+  const store = tx.objectStore("jobs");
+  const job = (await reqDone(store.get(id))) as JobRecord | undefined;
+  if (job) store.put({ ...job, status, updatedAt: Date.now() });
+  await txDone(tx);
+  if (status === "running") liveJobs.add(id);
+  notify();
+}
+
+/**
+ * 写入一页断点：追加本页新增行 + 更新游标（同一事务，保证二者一致）。
+ * 同一任务的调用按发起顺序落盘（IndexedDB 对重叠作用域的事务串行执行）。
+ */
+export async function saveCheckpoint(
+  jobId: string,
+  addr: string,
+  kind: string,
+  cp: Checkpoint,
+  rows: StoredRow[] = [],
+  keys: string[] = []
+): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(["jobs", "pages"], "readwrite");
+  const jobs = tx.objectStore("jobs");
+  if (rows.length || keys.length) {
+    const page: PageRecord = { jobId, addr, kind, rows, keys };
+    tx.objectStore("pages").add(page);
+  }
+  const job = (await reqDone(jobs.get(jobId))) as JobRecord | undefined;
+  if (job) {
+    job.checkpoints[cpKey(addr, kind)] = cp;
+    job.updatedAt = Date.now();
+    jobs.put(job);
+  }
+  await txDone(tx);
+}
+
+/** 读取 (地址, 类型) 的断点与已落盘的行；无断点返回 null */
+export async function loadCheckpoint(
+  jobId: string,
+  addr: string,
+  kind: string
+): Promise<{ checkpoint: Checkpoint; rows: StoredRow[]; keys: string[] } | null> {
+  const db = await openDb();
+  const tx = db.transaction(["jobs", "pages"]);
+  const job = (await reqDone(tx.objectStore("jobs").get(jobId))) as JobRecord | undefined;
+  const checkpoint = job?.checkpoints[cpKey(addr, kind)];
+  if (!checkpoint) return null;
+  const pages = (await reqDone(
+    tx.objectStore("pages").index("byJobAddrKind").getAll(IDBKeyRange.only([jobId, addr, kind]))
+  )) as PageRecord[];
+  const rows: StoredRow[] = [];
+  const keys: string[] = [];
+  for (const p of pages) {
+    for (const r of p.rows) rows.push(r);
+    for (const k of p.keys) keys.push(k);
+  }
+  return { checkpoint, rows, keys };
+}
+
+/** 删除任务及其全部分页 */
+export async function deleteJob(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(["jobs", "pages"], "readwrite");
+  tx.objectStore("jobs").delete(id);
+  const idx = tx.objectStore("pages").index("byJob");
+  const keys = await reqDone(idx.getAllKeys(IDBKeyRange.only(id)));
+  for (const k of keys) tx.objectStore("pages").delete(k);
+  await txDone(tx);
+  liveJobs.delete(id);
+  notify();
+}
+
+/** 任务进度：所有类型均已完成的地址数 */
+export function jobProgress(job: JobRecord): { done: number; total: number } {
+  let done = 0;
+  for (const a of job.addresses) {
+    if (job.kinds.every((k) => job.checkpoints[cpKey(a, k)]?.done)) done++;
+  }
+  return { done, total: job.addresses.length };
+}
+
+/**
+ * 收尾：全部完成则删除任务（数据已在内存/导出），否则标记为暂停以便恢复。
+ * 返回任务是否已全部完成。
+ */
+export async function settleJob(id: string): Promise<boolean> {
+  liveJobs.delete(id);
+  const job = await getJob(id);
+  if (!job) return true;
+  const { done, total } = jobProgress(job);
+  if (done >= total) await deleteJob(id);
+  else await setJobStatus(id, "paused");
+  return done >= total;
+}
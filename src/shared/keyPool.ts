@@ -0,0 +1,175 @@
+/* src/shared/keyPool.ts */
+
+/* =========================
+ * API Key 池（按 Provider 隔离）
+ * - 记录每个 Key 的成功率、平均延迟、429/403 冷却、401 失效（长冷却后重新探测，成功即恢复）
+ * - 选择 Key：排除冷却中（含失效冷却中）的 Key，按健康度加权随机
+ * - 提供快照 + 订阅，供 KeyHealthTable 实时展示
+ * - 选择与记录在 Worker 中（随调度器）；主线程的这份由 Worker 推送的状态镜像而来，只供展示
+ * ========================= */
+
+import type { ProviderId } from "./scheduler";
+
+export type KeyState = "healthy" | "cooling" | "dead";
+
+export type KeyHealth = {
+  key: string;
+  state: KeyState;
+  ok: number;
+  fail: number;
+  successRate: number;       // 0–1；无样本时为 1
+  avgLatencyMs: number;      // 指数滑动平均；无样本时为 0
+  coolUntil: number;         // 冷却截止时间戳（ms）；失效 Key 为下次重新探测的时间
+  lastStatus: number;        // 最近一次 HTTP 状态（0 = 网络错误）
+};
+
+export type KeyStat = {
+  ok: number;
+  fail: number;
+  latency: number;
+  coolUntil: number;
+  dead: boolean;
+  lastStatus: number;
+};
+
+/** 各 Provider 的 Key 统计（Worker → 主线程镜像） */
+export type KeyPoolState = Record<string, Record<string, KeyStat>>;
+
+const LATENCY_ALPHA = 0.2;        // 延迟滑动平均系数
+const COOL_403_MS = 30_000;       // 403 惩罚期
+const COOL_429_MIN_MS = 2_000;    // 429 无 Retry-After 时的最短冷却
+const COOL_401_MS = 10 * 60_000;  // 401 失效后的长冷却；到期后允许再用一次作为探测（Key 可能只是临时被停用）
+
+const pools = new Map<ProviderId, Map<string, KeyStat>>();
+const listeners = new Set<() => void>();
+
+function statOf(provider: ProviderId, key: string): KeyStat {
+  let pool = pools.get(provider);
+  if (!pool) {
+    pool = new Map();
+    pools.set(provider, pool);
+  }
+  let st = pool.get(key);
+  if (!st) {
+    st = { ok: 0, fail: 0, latency: 0, coolUntil: 0, dead: false, lastStatus: 0 };
+    pool.set(key, st);
+  }
+  return st;
+}
+
+function notify() {
+  listeners.forEach((fn) => fn());
+}
+
+/** 订阅 Key 状态变化，返回取消订阅函数 */
+export function subscribeKeyPool(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+// —— 健康度权重：成功率为主，延迟为辅（1s 以内几乎不扣分）
+function weightOf(st: KeyStat): number {
+  const total = st.ok + st.fail;
+  const rate = total ? (st.ok + 1) / (total + 2) : 1; // 拉普拉斯平滑，避免单次失败直接归零
+  const latencyFactor = 1000 / (1000 + st.latency);
+  return Math.max(0.01, rate * latencyFactor);
+}
+
+/**
+ * 选择一个可用 Key。
+ * - key：选中的 Key；全部冷却中时为 undefined，waitMs 为最早恢复的等待时长
+ * - 全部失效（401，且都未到重新探测时间）或列表为空时 key 与 waitMs 均为空
+ * - 失效 Key 冷却到期后重新参与选择，相当于一次探测：成功即恢复，再次 401 则重新冷却
+ */
+export function pickKey(provider: ProviderId, keys: string[]): { key?: string; waitMs?: number } {
+  const now = Date.now();
+  const alive = keys.filter((k) => {
+    const st = statOf(provider, k);
+    return !st.dead || st.coolUntil <= now;
+  });
+  if (!alive.length) return {};
+
+  const ready = alive.filter((k) => statOf(provider, k).coolUntil <= now);
+  if (!ready.length) {
+    const soonest = Math.min(...alive.map((k) => statOf(provider, k).coolUntil));
+    return { waitMs: Math.max(0, soonest - now) };
+  }
+
+  const weights = ready.map((k) => weightOf(statOf(provider, k)));
+  let r = Math.random() * weights.reduce((a, b) => a + b, 0);
+  for (let i = 0; i < ready.length; i++) {
+    r -= weights[i];
+    if (r <= 0) return { key: ready[i] };
+  }
+  return { key: ready[ready.length - 1] };
+}
+
+/** 记录一次成功请求 */
+export function reportKeySuccess(provider: ProviderId, key: string, latencyMs: number, status = 200): void {
+  const st = statOf(provider, key);
+  st.ok += 1;
+  st.dead = false;
+  st.latency = st.latency ? st.latency * (1 - LATENCY_ALPHA) + latencyMs * LATENCY_ALPHA : latencyMs;
+  st.lastStatus = status;
+  notify();
+}
+
+/**
+ * 记录一次失败请求：401 → 失效并冷却 10 分钟（之后重新探测）；403 → 30s 冷却；429 / 响应体限流 → 按 Retry-After（或最短冷却）冷却。
+ * 其它失败（5xx / 网络）只计入失败次数，降低权重。
+ */
+export function reportKeyFailure(provider: ProviderId, key: string, status: number, retryAfterSec = NaN): void {
+  const st = statOf(provider, key);
+  st.fail += 1;
+  st.lastStatus = status;
+  const now = Date.now();
+  if (status === 401) {
+    st.dead = true;
+    st.coolUntil = now + COOL_401_MS;
+  }
+  else if (status === 403) st.coolUntil = Math.max(st.coolUntil, now + COOL_403_MS);
+  else if (status === 429) {
+    const ms = Number.isFinite(retryAfterSec) && retryAfterSec > 0 ? retryAfterSec * 1000 : COOL_429_MIN_MS;
+    st.coolUntil = Math.max(st.coolUntil, now + ms);
+  }
+  notify();
+}
+
+/** 当前列表中各 Key 的健康快照（顺序与输入一致） */
+export function keyHealthSnapshot(provider: ProviderId, keys: string[]): KeyHealth[] {
+  const now = Date.now();
+  return keys.map((key) => {
+    const st = statOf(provider, key);
+    const total = st.ok + st.fail;
+    return {
+      key,
+      state: st.dead ? "dead" : st.coolUntil > now ? "cooling" : "healthy",
+      ok: st.ok,
+      fail: st.fail,
+      successRate: total ? st.ok / total : 1,
+      avgLatencyMs: Math.round(st.latency),
+      coolUntil: st.coolUntil,
+      lastStatus: st.lastStatus,
+    };
+  });
+}
+
+/** 导出全部 Key 统计（可结构化克隆） */
+export function keyPoolState(): KeyPoolState {
+  const out: KeyPoolState = {};
+  pools.forEach((pool, provider) => {
+    const o: Record<string, KeyStat> = {};
+    pool.forEach((st, key) => (o[key] = { ...st }));
+    out[provider] = o;
+  });
+  return out;
+}
+
+/** 用 Worker 推送的状态替换本地统计（主线程镜像） */
+export function applyKeyPoolState(state: KeyPoolState): void {
+  pools.clear();
+  for (const [provider, keys] of Object.entries(state)) pools.set(provider, new Map(Object.entries(keys)));
+  notify();
+}
@@ -0,0 +1,284 @@
+/* src/shared/labelStore.ts */
+import * as XLSX from "xlsx";
+
+/* =========================
+ * 本地地址标签库（IndexedDB）
+ * - 记录：地址 + 链 + 标签 + 类别 + 来源；链为空表示不区分链（同一地址在各链通用）
+ * - 从 CSV / XLSX 导入（表头见 HEADER_ALIASES），也可在结果表中逐条编辑
+ * - 内存中保留一份索引：表格单元格与导出按地址同步查询；变化时通知订阅者
+ * EVM 地址不区分大小写（统一小写作键）；TRON Base58 区分大小写
+ * ========================= */
+
+export type LabelRecord = {
+  /** `${链}|${地址}`（链为空记为 "*"） */
+  key: string;
+  address: string;
+  chain: string;
+  label: string;
+  category: string;
+  source: string;
+  updatedAt: number;
+};
+
+export type LabelInput = Pick<LabelRecord, "address" | "chain" | "label"> & Partial<Pick<LabelRecord, "category" | "source">>;
+
+export type LabelImportResult = { imported: number; skipped: number };
+
+const DB_NAME = "multichain-exporter-labels";
+const DB_VERSION = 1;
+const STORE = "labels";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let index: Map<string, LabelRecord> | null = null;
+let loading: Promise<void> | null = null;
+let version = 0;
+const listeners = new Set<() => void>();
+
+function notify() {
+  version++;
+  listeners.forEach((fn) => fn());
+}
+
+/** 订阅标签库变化（导入 / 编辑 / 删除），返回取消订阅函数 */
+export function subscribeLabels(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+/** 标签库版本（每次变化 +1；可配合 useSyncExternalStore） */
+export function labelsVersion(): number {
+  return version;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: "key" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+}
+
+function reqDone<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function txDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** 地址归一：EVM 小写，其余原样 */
+export function normLabelAddress(address: string): string {
+  const a = address.trim();
+  return /^0x/i.test(a) ? a.toLowerCase() : a;
+}
+
+// 表格里常见的链写法 → 本项目的链 ID（tron / EvmChain.id）
+const CHAIN_ALIASES: Record<string, string> = {
+  trx: "tron",
+  trc20: "tron",
+  波场: "tron",
+  ethereum: "eth",
+  erc20: "eth",
+  以太坊: "eth",
+  bnb: "bsc",
+  bep20: "bsc",
+  matic: "polygon",
+  arb: "arbitrum",
+  "arbitrum-one": "arbitrum",
+  op: "optimism",
+};
+
+export function normLabelChain(chain: string): string {
+  const c = (chain || "").trim().toLowerCase();
+  return CHAIN_ALIASES[c] ?? c;
+}
+
+export function labelKey(address: string, chain: string): string {
+  return `${normLabelChain(chain) || "*"}|${normLabelAddress(address)}`;
+}
+
+function toRecord(input: LabelInput): LabelRecord {
+  const chain = normLabelChain(input.chain);
+  const address = input.address.trim();
+  return {
+    key: labelKey(address, chain),
+    address,
+    chain,
+    label: input.label.trim(),
+    category: (input.category || "").trim(),
+    source: (input.source || "").trim(),
+    updatedAt: Date.now(),
+  };
+}
+
+/** 载入索引（首次调用时读库；之后直接返回） */
+export function loadLabels(): Promise<void> {
+  if (index) return Promise.resolve();
+  loading ||= openDb()
+    .then((db) => reqDone(db.transaction(STORE).objectStore(STORE).getAll()))
+    .then((all) => {
+      index = new Map((all as LabelRecord[]).map((r) => [r.key, r]));
+      notify();
+    })
+    .catch(() => {
+      // IndexedDB 不可用（隐私模式等）：按空库处理，编辑只在本页有效
+      index = new Map();
+    })
+    .finally(() => {
+      loading = null;
+    });
+  return loading;
+}
+
+/** 同步查询：先查该链的记录，再查不区分链的记录；索引未载入时返回 undefined */
+export function labelOf(address: string, chain: string): LabelRecord | undefined {
+  if (!index || !address) return undefined;
+  return index.get(labelKey(address, chain)) ?? index.get(labelKey(address, ""));
+}
+
+/** 标签展示文本："标签（类别）" */
+export function labelText(r: LabelRecord): string {
+  return r.category ? `${r.label}（${r.category}）` : r.label;
+}
+
+/** 导出用：某条链适用的全部标签，键为归一后的地址 */
+export function labelMapFor(chain: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  if (!index) return out;
+  const c = normLabelChain(chain);
+  // 先写通用记录，再用该链的记录覆盖
+  for (const r of index.values()) if (!r.chain) out[normLabelAddress(r.address)] = labelText(r);
+  for (const r of index.values()) if (r.chain === c) out[normLabelAddress(r.address)] = labelText(r);
+  return out;
+}
+
+export async function listLabels(): Promise<LabelRecord[]> {
+  await loadLabels();
+  return [...(index?.values() ?? [])].sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function labelCount(): number {
+  return index?.size ?? 0;
+}
+
+/** 批量写入（同键覆盖） */
+export async function putLabels(inputs: LabelInput[]): Promise<number> {
+  await loadLabels();
+  const recs = inputs.filter((x) => x.address?.trim() && x.label?.trim()).map(toRecord);
+  if (!recs.length) return 0;
+  try {
+    const db = await openDb();
+    const tx = db.transaction(STORE, "readwrite");
+    const store = tx.objectStore(STORE);
+    for (const r of recs) store.put(r);
+    await txDone(tx);
+  } finally {
+    // 写库失败也更新内存索引（本页仍可用），错误交给调用方提示
+    recs.forEach((r) => index!.set(r.key, r));
+    notify();
+  }
+  return recs.length;
+}
+
+export async function putLabel(input: LabelInput): Promise<void> {
+  await putLabels([input]);
+}
+
+export async function deleteLabel(address: string, chain: string): Promise<void> {
+  await loadLabels();
+  const key = labelKey(address, chain);
+  const db = await openDb();
+  const tx = db.transaction(STORE, "readwrite");
+  tx.objectStore(STORE).delete(key);
+  await txDone(tx);
+  index!.delete(key);
+  notify();
+}
+
+export async function clearLabels(): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(STORE, "readwrite");
+  tx.objectStore(STORE).clear();
+  await txDone(tx);
+  index = new Map();
+  notify();
+}
+
+/* ========== 导入 / 导出 ========== */
+
+// 表头别名（不区分大小写，去空格）
+const HEADER_ALIASES: Record<keyof LabelInput, string[]> = {
+  address: ["address", "地址", "addr"],
+  chain: ["chain", "链", "网络", "network"],
+  label: ["label", "标签", "名称", "name", "tag"],
+  category: ["category", "类别", "分类", "类型", "type"],
+  source: ["source", "来源", "出处"],
+};
+
+function fieldOf(header: string): keyof LabelInput | null {
+  const h = header.trim().toLowerCase().replace(/\s+/g, "");
+  for (const [field, names] of Object.entries(HEADER_ALIASES) as [keyof LabelInput, string[]][]) {
+    if (names.includes(h)) return field;
+  }
+  return null;
+}
+
+/** 解析 CSV / XLSX（第一个工作表；第一行为表头） */
+export async function parseLabelFile(file: File): Promise<{ rows: LabelInput[]; skipped: number }> {
+  // CSV 按文本读（UTF-8 中文表头 / 标签不会被当成单字节编码）
+  const wb = /\.csv$/i.test(file.name)
+    ? XLSX.read(await file.text(), { type: "string" })
+    : XLSX.read(await file.arrayBuffer(), { type: "array" });
+  const ws = wb.Sheets[wb.SheetNames[0]];
+  if (!ws) return { rows: [], skipped: 0 };
+  const raw = XLSX.utils.sheet_to_json<Record<string, unknown>>(ws, { defval: "", raw: false });
+  const rows: LabelInput[] = [];
+  let skipped = 0;
+  for (const r of raw) {
+    const rec: Record<string, string> = {};
+    for (const [h, v] of Object.entries(r)) {
+      const f = fieldOf(h);
+      if (f) rec[f] = String(v ?? "").trim();
+    }
+    if (!rec.address || !rec.label) {
+      skipped++;
+      continue;
+    }
+    rows.push({ address: rec.address, chain: rec.chain || "", label: rec.label, category: rec.category, source: rec.source || file.name });
+  }
+  return { rows, skipped };
+}
+
+export async function importLabelFile(file: File): Promise<LabelImportResult> {
+  const { rows, skipped } = await parseLabelFile(file);
+  const imported = await putLabels(rows);
+  return { imported, skipped: skipped + rows.length - imported };
+}
+
+/** 整库导出为 XLSX（表头与导入一致，可直接再导入） */
+export async function exportLabelsXlsx(): Promise<Blob> {
+  const all = await listLabels();
+  const rows = all.map((r) => ({ address: r.address, chain: r.chain, label: r.label, category: r.category, source: r.source }));
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows.length ? rows : [{ address: "", chain: "", label: "", category: "", source: "" }]), "labels");
+  const buf = XLSX.write(wb, { bookType: "xlsx", type: "array" });
+  return new Blob([buf], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
+}
@@ -0,0 +1,66 @@
+/* src/shared/prices.ts */
+
+/* =========================
+ * USD 估值（CoinGecko 公共 API，无需 Key）
+ * - 代币：simple/token_price/{平台}，按合约查询；原生币：simple/price，按 coin id 查询
+ * - 公共接口每次只接受 1 个合约、限速较严：逐个查询，结果缓存 5 分钟
+ * - 查不到价格的合约记为 null（展示为 "-"）；限流 / 网络错误时抛出，已查到的部分保留在缓存里
+ * ========================= */
+
+const BASE = "https://api.coingecko.com/api/v3";
+const TTL_MS = 5 * 60_000;
+
+const cache = new Map<string, { price: number | null; ts: number }>();
+
+function cached(k: string): number | null | undefined {
+  const hit = cache.get(k);
+  return hit && Date.now() - hit.ts < TTL_MS ? hit.price : undefined;
+}
+
+// 两个接口的返回都是 id → { usd }
+type UsdPrices = Record<string, { usd?: unknown } | undefined>;
+
+async function getJson(path: string): Promise<UsdPrices | null> {
+  const res = await fetch(`${BASE}${path}`, { headers: { accept: "application/json" } });
+  if (!res.ok) throw new Error(res.status === 429 ? "价格接口限流，请稍后重试" : `价格查询失败：${res.status}`);
+  return res.json();
+}
+
+/** 代币 USD 单价：返回 合约（原样）→ 单价 / null；platform 为 CoinGecko 平台 id（ethereum / tron …） */
+export async function fetchTokenUsdPrices(
+  platform: string,
+  contracts: string[]
+): Promise<Record<string, number | null>> {
+  const out: Record<string, number | null> = {};
+  for (const c of contracts) {
+    // EVM 合约不区分大小写；TRON Base58 区分
+    const id = c.startsWith("0x") ? c.toLowerCase() : c;
+    const k = `${platform}:${id}`;
+    const hit = cached(k);
+    if (hit !== undefined) {
+      out[c] = hit;
+      continue;
+    }
+    const json = await getJson(
+      `/simple/token_price/${encodeURIComponent(platform)}?contract_addresses=${encodeURIComponent(id)}&vs_currencies=usd`
+    );
+    // 返回的键大小写不固定：按不区分大小写匹配
+    const entry = Object.entries(json || {}).find(([key]) => key.toLowerCase() === id.toLowerCase())?.[1];
+    const price: number | null = typeof entry?.usd === "number" ? entry.usd : null;
+    cache.set(k, { price, ts: Date.now() });
+    out[c] = price;
+  }
+  return out;
+}
+
+/** 原生币 USD 单价（coinId：ethereum / tron / binancecoin …）；查不到返回 null */
+export async function fetchNativeUsdPrice(coinId: string): Promise<number | null> {
+  const k = `coin:${coinId}`;
+  const hit = cached(k);
+  if (hit !== undefined) return hit;
+  const json = await getJson(`/simple/price?ids=${encodeURIComponent(coinId)}&vs_currencies=usd`);
+  const usd = json?.[coinId]?.usd;
+  const price = typeof usd === "number" ? usd : null;
+  cache.set(k, { price, ts: Date.now() });
+  return price;
+}
@@ -0,0 +1,380 @@
+/* src/shared/rowStore.ts */
+import type { EtherscanApi, TronGridApi } from "./apis";
+import { applyKeyPoolState, type KeyPoolState } from "./keyPool";
+import type { NetSpec, ProviderId, RequestResult } from "./scheduler";
+import type { ScreenExposure, ScreenHitRow, ScreenIndex } from "./screening";
+
+/* =========================
+ * 结果行存储（Web Worker 客户端）
+ * - 翻页抓取、行映射、去重（makeCompositeKey）、账户聚合、断点分页写入、xlsx/csv 序列化都在 Worker 中完成
+ * - 调度器（令牌桶 / 熔断 / Key 池）也在 Worker 中：两个视图共用一个 Worker，预算与 Key 状态按 Provider 共享
+ * - 每个视图一个 store（Worker 内按 store 隔离行数据与调度会话）
+ * - 主线程只拿到：每页进度、各表行数、聚合快照、展示窗口（少量行）、导出文件 Blob、Key 状态镜像
+ * ========================= */
+
+/** 结果行：列名 → 单元格 */
+export type Row = Record<string, string>;
+
+/** 原始条目 → 行 的映射器（与 TronGrid / Etherscan 返回结构对应） */
+export type MapperId =
+  | "tron-trc20"
+  | "tron-tx"
+  | "tron-ledger"
+  | "eth-erc20"
+  | "eth-normal"
+  | "eth-internal"
+  | "eth-erc721"
+  | "eth-erc1155"
+  | "eth-beacon"
+  | "eth-mined"
+  | "holding";
+
+/** TRC10 代币元数据（TronGrid /v1/assets/{id}） */
+export type Trc10Meta = { name: string; abbr: string; precision: number };
+
+/** 持仓快照条目（holding 映射器的输入，由视图从余额接口整理）；原生币 contract 为空 */
+export type HoldingItem = {
+  symbol: string;
+  name?: string;
+  contract: string;
+  raw: string;
+  decimals: number;
+  /** USD 单价；未估值或查不到为 null */
+  usd?: number | null;
+  ts: number;
+};
+
+/** 单个代币的账户累计；金额为 BigInt 十进制字符串（未按精度缩放） */
+export type TokenAgg = {
+  symbol: string;
+  decimals: number;
+  /** 代币合约（原生币为空） */
+  contract: string;
+  inRaw: string;
+  outRaw: string;
+  inCount: number;
+  outCount: number;
+  inAddrCount: number;
+  outAddrCount: number;
+  firstTs?: number;
+  lastTs?: number;
+  lastOutTs?: number;
+};
+
+/**
+ * Worker 内按 (表, 地址) 累计的聚合快照：按代币的流入/流出，以及本地址发起交易付出的手续费。
+ * 代币键：原生币为 "native"，ERC20 为小写合约地址（只统计 accTokens 中的合约，按合约而非符号区分）
+ * feeRaw：原生币最小单位（wei / sun）的 BigInt 十进制字符串；feeCount：付费交易笔数
+ */
+export type RowAgg = { tokens: Record<string, TokenAgg>; feeRaw: string; feeCount: number };
+
+/** 跨表合并的账户统计（对手地址数按并集计）；parts 为各表分别的流入/流出原始量 */
+export type AcctAgg = RowAgg & {
+  parts: Record<string, Record<string, { inRaw: string; outRaw: string }>>;
+};
+
+export type IngestParams = {
+  table: string;
+  addr: string;
+  mapper: MapperId;
+  /** 接口返回的原始条目（结构由 mapper 决定，Worker 中按字段逐个取值） */
+  items: unknown[];
+  /** 同时追加到的汇总表（如 ETH 的 "all"） */
+  also?: string[];
+  /** 账户统计的 ERC20 合约（eth-erc20；不区分大小写） */
+  accTokens?: string[];
+  /** TRC10 元数据（tron-ledger；按代币 ID，Worker 中累积保存） */
+  trc10?: Record<string, Trc10Meta>;
+  /** 失败 / 回滚的交易（isError / txreceipt_status）是否计入流入流出；缺省不计（行照常写入并标记） */
+  countFailed?: boolean;
+  /** EVM 原生币符号（eth-normal / eth-internal / eth-beacon / eth-mined；缺省 ETH） */
+  nativeSymbol?: string;
+  /** 本页断点：Worker 写入本页新增行与去重 Key，游标中自动带上聚合量 */
+  checkpoint?: PageCheckpoint;
+  /** 游标需按新增行数推进（Etherscan 区块游标）时：先暂存本页，待 commit() 时与游标一起写入 */
+  hold?: boolean;
+};
+
+/** 断点游标：TronGrid 为下一页 URL；Etherscan 为区块游标（出块奖励为空对象） */
+export type Cursor = string | { startBlock?: number; safetyNoProgress?: number } | null;
+
+export type PageCheckpoint = { jobId: string; kind: string; cursor: Cursor; done: boolean; pages: number };
+
+export type IngestResult = { added: number; agg: RowAgg };
+
+export type RestoreParams = {
+  table: string;
+  addr: string;
+  also?: string[];
+  jobId: string;
+  kind: string;
+};
+
+export type RestoreResult = {
+  checkpoint: { cursor: Cursor; done: boolean; pages: number } | null;
+  added: number;
+  agg: RowAgg;
+};
+
+/** 导出计划：每张表按 chunkRows 分片；名称模板中 {n} / {p} 为序号（缺省且多于一片时自动追加） */
+export type XlsxPlan = {
+  tables: { table: string; sheetName: string }[];
+  chunkRows: number;
+  maxSheetsPerWb: number;
+  fileName: string;
+  extraSheets?: { name: string; rows: object[] }[];
+  /** 本地标签库（归一地址 → 标签文本）：对手地址列后插入 "<列名>标签" 列；缺省或为空不加列 */
+  labels?: Record<string, string>;
+  /** 名单筛查：在第一个工作簿追加 “命中名单” sheet；缺省不筛查 */
+  screen?: ScreenParams;
+};
+
+export type CsvPlan = {
+  tables: { table: string; fileName: string }[];
+  chunkRows: number;
+  labels?: Record<string, string>;
+  /** 名单筛查：命中明细单独输出一个 CSV */
+  screen?: ScreenParams & { fileName: string };
+};
+
+/**
+ * 名单筛查：tables 中每行的对手地址列逐一比对（name 为 “来源表” 列的显示名），
+ * addresses 为查询地址（逐个查直接命中）；lists 为已载入的名单名称（未命中时写在 sheet 里备查）
+ */
+export type ScreenParams = {
+  tables: { table: string; name: string }[];
+  index: ScreenIndex;
+  addresses: string[];
+  lists: string[];
+};
+
+/** hits：直接命中在前，其后为逐笔的一跳命中；exposure：归一查询地址 → 直接 / 一跳命中 */
+export type ScreenResult = { hits: ScreenHitRow[]; exposure: Record<string, ScreenExposure> };
+
+export type ExportHooks = {
+  onProgress?: (done: number, total: number) => void;
+  onFile?: (name: string, blob: Blob) => void;
+};
+
+/* ========== 翻页抓取（Worker 中执行） ========== */
+
+/** 时间窗口（毫秒时间戳；缺省不限） */
+export type TimeWindowMs = { fromMs?: number; toMs?: number };
+
+/** 区块范围（Etherscan startblock / endblock） */
+export type BlockRange = { startBlock: number; endBlock: number };
+
+/** 区块游标分页的流水类型（出块奖励按页码翻页，单独处理） */
+export type EvmCursorKind = "erc20" | "normal" | "internal" | "erc721" | "erc1155" | "beacon";
+
+/**
+ * 写入行的翻页抓取：
+ * - tron-trc20：TRC20 转账（可按合约过滤）
+ * - tron-tx：交易列表（含内部交易），同时写入 TRX / TRC10 台账
+ * - evm-cursor：Etherscan 区块游标分页；action 为接口 action
+ * - evm-mined：出块奖励（按页码翻页，本地按区块范围过滤）
+ * jobId：断点任务（Worker 先恢复已落盘的页，再从保存的游标继续）
+ */
+export type CrawlParams =
+  | { kind: "tron-trc20"; api: TronGridApi; addr: string; contract: string; window: TimeWindowMs; pauseMs: number; jobId?: string }
+  | { kind: "tron-tx"; api: TronGridApi; addr: string; window: TimeWindowMs; pauseMs: number; jobId?: string }
+  | {
+      kind: "evm-cursor";
+      api: EtherscanApi;
+      addr: string;
+      fetch: EvmCursorKind;
+      action: string;
+      range: BlockRange;
+      /** 结果过滤合约（仅 erc20） */
+      contract: string;
+      accTokens: string[];
+      countFailed: boolean;
+      nativeSymbol: string;
+      pauseMs: number;
+      jobId?: string;
+    }
+  | { kind: "evm-mined"; api: EtherscanApi; addr: string; action: string; range: BlockRange; nativeSymbol: string; pauseMs: number; jobId?: string };
+
+/** 每页进度：pages / count 为累计，added 为本页新增行数；restored 为断点恢复的那一批 */
+export type CrawlPage = { pages: number; count: number; added: number; restored?: boolean };
+
+/** 结束方式：key = 没有可用的 API Key */
+export type CrawlEnd = "done" | "aborted" | "key" | "error";
+
+/** notes：不中断抓取的提示（如超出接口分页上限） */
+export type CrawlResult = { end: CrawlEnd; message: string; count: number; pages: number; notes: string[] };
+
+export type CrawlHooks = { onPage?: (page: CrawlPage) => void };
+
+/**
+ * TronGrid：单个代币的账户聚合（只聚合，不写行）。contract 为 TRC20 合约，或 TRX / TRC10 代币 ID（见 TRON_STAT_TRX）；
+ * countFailed：失败的 TRX / TRC10 转账是否计入流入流出（TRC20 失败交易不产生转账事件，不受影响）
+ */
+export type TronStatParams = { api: TronGridApi; addr: string; contract: string; window: TimeWindowMs; countFailed: boolean };
+export type TronStatResult = { end: CrawlEnd; message: string; stat: TokenAgg };
+
+/** TronGrid：本地址发起交易付出的手续费（sun）与能量消耗 */
+export type TronFeesParams = { api: TronGridApi; addr: string; window: TimeWindowMs };
+export type TronFeesResult = { end: CrawlEnd; message: string; feeRaw: string; count: number; energy: number };
+
+/** Etherscan 持仓条目：原生币余额 + 代币列表（USD 估值由视图补上） */
+export type EvmHoldingsParams = { api: EtherscanApi; addr: string; nativeSymbol: string; nativeName: string };
+export type EvmHoldingsResult = { end: CrawlEnd; message: string; items: HoldingItem[] };
+
+type CountsListener = (counts: Record<string, number>, epochs: Record<string, number>) => void;
+
+type Hooks = ExportHooks & CrawlHooks;
+
+type Pending = {
+  store: number;
+  resolve: (v: unknown) => void;
+  reject: (e: Error) => void;
+  hooks?: Hooks;
+};
+
+type WorkerMessage = {
+  id?: number;
+  store?: number;
+  event?: "counts" | "keys" | "progress" | "file" | "page";
+  ok?: boolean;
+  result?: unknown;
+  error?: string;
+  counts?: Record<string, number>;
+  epochs?: Record<string, number>;
+  state?: KeyPoolState;
+  done?: number;
+  total?: number;
+  name?: string;
+  blob?: Blob;
+  page?: CrawlPage;
+};
+
+/** 触发浏览器下载 */
+export function downloadBlob(name: string, blob: Blob): void {
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(blob);
+  a.download = name;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(a.href), 1000);
+}
+
+/* ========== 共用 Worker ========== */
+
+let worker: Worker | null = null;
+let seq = 0;
+let storeSeq = 0;
+const pending = new Map<number, Pending>();
+const countListeners = new Map<number, Set<CountsListener>>();
+
+function ensure(): Worker {
+  if (worker) return worker;
+  const w = new Worker(new URL("../workers/rowStore.worker.ts", import.meta.url), { type: "module" });
+  w.onmessage = (ev: MessageEvent<WorkerMessage>) => {
+    const msg = ev.data || {};
+    if (msg.event === "counts") {
+      countListeners.get(msg.store ?? 0)?.forEach((fn) => fn(msg.counts || {}, msg.epochs || {}));
+      return;
+    }
+    if (msg.event === "keys") {
+      applyKeyPoolState(msg.state || {});
+      return;
+    }
+    const p = pending.get(msg.id ?? 0);
+    if (!p) return;
+    if (msg.event === "progress") p.hooks?.onProgress?.(msg.done ?? 0, msg.total ?? 0);
+    else if (msg.event === "file") p.hooks?.onFile?.(msg.name || "", msg.blob as Blob);
+    else if (msg.event === "page") p.hooks?.onPage?.(msg.page as CrawlPage);
+    else {
+      pending.delete(msg.id ?? 0);
+      if (msg.ok) p.resolve(msg.result);
+      else p.reject(new Error(msg.error || "worker error"));
+    }
+  };
+  w.onerror = (ev) => {
+    pending.forEach((p) => p.reject(new Error(ev.message || "worker error")));
+    pending.clear();
+  };
+  worker = w;
+  return w;
+}
+
+/**
+ * 创建行存储（每个视图一个）。共用的 Worker 在首次调用时启动；dispose() 清空本 store 的数据并中止其请求，
+ * 之后再次调用从空表开始。
+ */
+export function createRowStore() {
+  const store = ++storeSeq;
+  const readers = new Map<string, (offset: number, limit: number) => Promise<Row[]>>();
+
+  function call<T>(op: string, payload: object, hooks?: Hooks): Promise<T> {
+    const w = ensure();
+    const id = ++seq;
+    return new Promise<T>((resolve, reject) => {
+      pending.set(id, { store, resolve: (v) => resolve(v as T), reject, hooks });
+      w.postMessage({ ...payload, id, store, op });
+    });
+  }
+
+  return {
+    /** 写入一页原始条目，返回新增行数与该地址的聚合快照 */
+    ingest: (p: IngestParams) => call<IngestResult>("ingest", p),
+    /** 把 hold 暂存的本页与游标一起写入断点 */
+    commit: (p: { table: string; addr: string; checkpoint: PageCheckpoint }) => call<void>("commit", p),
+    /** 从断点恢复某 (地址, 类型) 的行与去重 Key */
+    restore: (p: RestoreParams) => call<RestoreResult>("restore", p),
+    /** 清空（可按表 / 地址） */
+    clear: (p: { tables?: string[]; addr?: string } = {}) => call<void>("clear", p),
+    /** 读取展示窗口 */
+    window: (table: string, offset: number, limit: number) => call<Row[]>("window", { table, offset, limit }),
+    /** 某张表的窗口读取函数（同一张表返回同一个函数，可直接作为 VirtualTable 的 fetchRows） */
+    reader(table: string): (offset: number, limit: number) => Promise<Row[]> {
+      let fn = readers.get(table);
+      if (!fn) {
+        fn = (offset, limit) => call<Row[]>("window", { table, offset, limit });
+        readers.set(table, fn);
+      }
+      return fn;
+    },
+    /** 账户统计：把各表的聚合按地址合并（可只取某地址），键为 ingest 时的 addr */
+    acctStats: (p: { tables: string[]; addr?: string }) => call<Record<string, AcctAgg>>("acctStats", p),
+    /** 名单筛查（查询地址 + 各表对手地址） */
+    screen: (p: ScreenParams) => call<ScreenResult>("screen", p),
+    exportXlsx: (plan: XlsxPlan, hooks?: ExportHooks) => call<void>("exportXlsx", { plan }, hooks),
+    exportCsv: (plan: CsvPlan, hooks?: ExportHooks) => call<void>("exportCsv", { plan }, hooks),
+
+    // —— 请求与翻页抓取（经 Worker 中的调度器；本 store 的请求共用一个会话） —— //
+    /** 单次请求 */
+    request: (spec: NetSpec) => call<RequestResult>("request", { spec }),
+    /** 翻页抓取并写入行（每页回调进度） */
+    crawl: (p: CrawlParams, hooks?: CrawlHooks) => call<CrawlResult>("crawl", { params: p }, hooks),
+    tronStat: (p: TronStatParams) => call<TronStatResult>("tronStat", { params: p }),
+    tronFees: (p: TronFeesParams) => call<TronFeesResult>("tronFees", { params: p }),
+    evmHoldings: (p: EvmHoldingsParams) => call<EvmHoldingsResult>("evmHoldings", { params: p }),
+    /** 设置某 Provider 的 QPS 预算（所有视图共享） */
+    setBudget: (provider: ProviderId, qps: number) => call<void>("budget", { provider, qps }),
+    /** 中止本 store 的在途请求、退避等待与翻页循环 */
+    abort: () => call<void>("abort", {}),
+    /** 新一轮任务开始前调用，恢复可用状态 */
+    reset: () => call<void>("reset", {}),
+
+    /** 订阅各表行数与版本（clear 后版本变化）变化 */
+    onCounts(fn: CountsListener): () => void {
+      let set = countListeners.get(store);
+      if (!set) countListeners.set(store, (set = new Set()));
+      set.add(fn);
+      return () => {
+        set.delete(fn);
+      };
+    },
+    dispose(): void {
+      pending.forEach((p, id) => {
+        if (p.store !== store) return;
+        pending.delete(id);
+        p.reject(new Error("disposed"));
+      });
+      worker?.postMessage({ id: 0, store, op: "dispose" });
+    },
+  };
+}
+
+export type RowStore = ReturnType<typeof createRowStore>;
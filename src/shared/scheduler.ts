@@ -0,0 +1,414 @@
+/* src/shared/scheduler.ts */
+
+/* =========================
+ * 通用请求调度器（与具体 Provider 无关）
+ * - 令牌桶：按 Provider 共享 QPS 预算，多个视图同时运行也不会超额
+ * - 有限重试 + 抖动退避：尊重 Retry-After，403 按惩罚期等待
+ * - 熔断器：连续失败达到阈值后暂停该 Provider，冷却后放行单个探测请求
+ * - AbortController 由调度器持有：超时与“停止”统一经由 session.abort()
+ * - Key 选择交给 keyPool：跳过 401 失效与冷却中的 Key，按健康度加权
+ * - 运行在行存储 Worker 中（两个视图共用一个 Worker）；主线程经 NetSpec 描述请求
+ * ========================= */
+
+import { pickKey, reportKeyFailure, reportKeySuccess } from "./keyPool";
+
+export type ProviderId = "trongrid" | "etherscan-v2" | (string & {});
+
+export type RequestSpec = {
+  /** 可用 API Keys；为空时直接返回 no-key（allowNoKey 时改为不带 Key 发送） */
+  keys: string[];
+  /** 允许无 Key 请求（如 Blockscout）：keys 为空时不经 Key 池，build 收到空串 */
+  allowNoKey?: boolean;
+  /** 按选中的 Key 构造请求（Key 放在 Header 还是 Query 由调用方决定） */
+  build: (key: string) => { url: string; init?: RequestInit };
+  timeoutMs: number;
+  /** 最大重试次数（不含首次），默认 5 */
+  maxRetries?: number;
+  /** HTTP 200 但响应体表示限流（如 Etherscan "Max rate limit reached"） */
+  isThrottled?: (json: unknown) => boolean;
+  /** HTTP 200 但响应体表示 Key 无效（如 Etherscan "Invalid API Key"），按 401 处理 */
+  isKeyInvalid?: (json: unknown) => boolean;
+};
+
+/** 可序列化的请求描述（主线程 → Worker）；由 specOf 转成 RequestSpec */
+export type NetSpec = {
+  provider: ProviderId;
+  keys: string[];
+  allowNoKey?: boolean;
+  url: string;
+  method?: "GET" | "POST";
+  headers?: Record<string, string>;
+  /** JSON 请求体（POST） */
+  body?: unknown;
+  /** Key 放在该请求头中 */
+  keyHeader?: string;
+  /** Key 放在该 Query 参数中（空 Key 不带） */
+  keyParam?: string;
+  timeoutMs: number;
+  maxRetries?: number;
+  /** 按 Etherscan 约定识别 HTTP 200 响应体里的限流与无效 Key */
+  etherscanBody?: boolean;
+};
+
+export type FailReason = "no-key" | "unauthorized" | "http" | "exhausted" | "aborted";
+
+export type RequestResult =
+  | { ok: true; status: number; json: unknown }
+  | { ok: false; status: number; reason: FailReason; message: string };
+
+/* ========== NetSpec → RequestSpec ========== */
+
+type EtherscanBody = { status?: unknown; message?: unknown; result?: unknown };
+
+// Etherscan 限流 / 无效 Key 时常返回 200 + status "0"
+function etherscanThrottled(json: unknown): boolean {
+  const j = (json || {}) as EtherscanBody;
+  return (
+    String(j.status) === "0" &&
+    /Max rate|rate limit|limit reached|busy|throttle/i.test(`${j.message ?? ""} ${typeof j.result === "string" ? j.result : ""}`)
+  );
+}
+function etherscanKeyInvalid(json: unknown): boolean {
+  const j = (json || {}) as EtherscanBody;
+  return String(j.status) === "0" && /Invalid API Key/i.test(String(j.result ?? ""));
+}
+
+export function specOf(n: NetSpec): RequestSpec {
+  return {
+    keys: n.keys,
+    allowNoKey: n.allowNoKey,
+    timeoutMs: n.timeoutMs,
+    maxRetries: n.maxRetries,
+    build: (key) => {
+      let url = n.url;
+      if (n.keyParam && key) {
+        const u = new URL(n.url);
+        u.searchParams.set(n.keyParam, key);
+        url = u.toString();
+      }
+      const headers: Record<string, string> = { ...n.headers };
+      if (n.keyHeader) headers[n.keyHeader] = key;
+      return {
+        url,
+        init: {
+          method: n.method || "GET",
+          headers,
+          body: n.body === undefined ? undefined : JSON.stringify(n.body),
+        },
+      };
+    },
+    isThrottled: n.etherscanBody ? etherscanThrottled : undefined,
+    isKeyInvalid: n.etherscanBody ? etherscanKeyInvalid : undefined,
+  };
+}
+
+/* ========== 令牌桶（按 Provider 共享） ========== */
+
+type Bucket = { qps: number; tokens: number; last: number };
+const buckets = new Map<ProviderId, Bucket>();
+
+function bucketOf(provider: ProviderId): Bucket {
+  let b = buckets.get(provider);
+  if (!b) {
+    b = { qps: 5, tokens: 5, last: Date.now() };
+    buckets.set(provider, b);
+  }
+  return b;
+}
+
+/** 设置某 Provider 的 QPS 预算（所有会话共享；桶容量 = QPS，允许 1 秒突发） */
+export function setProviderBudget(provider: ProviderId, qps: number): void {
+  const b = bucketOf(provider);
+  b.qps = Math.max(1, qps);
+  b.tokens = Math.min(b.tokens, b.qps);
+}
+
+function refill(b: Bucket) {
+  const now = Date.now();
+  b.tokens = Math.min(b.qps, b.tokens + ((now - b.last) / 1000) * b.qps);
+  b.last = now;
+}
+
+/* ========== 熔断器（按 Provider 共享） ========== */
+
+const BREAKER_THRESHOLD = 5;        // 连续失败次数
+const BREAKER_COOLDOWN_MS = 20_000; // 首次熔断时长
+const BREAKER_MAX_COOLDOWN_MS = 120_000;
+
+type Breaker = { failures: number; openUntil: number; cooldown: number; probing: boolean };
+const breakers = new Map<ProviderId, Breaker>();
+
+function breakerOf(provider: ProviderId): Breaker {
+  let br = breakers.get(provider);
+  if (!br) {
+    br = { failures: 0, openUntil: 0, cooldown: BREAKER_COOLDOWN_MS, probing: false };
+    breakers.set(provider, br);
+  }
+  return br;
+}
+
+function recordSuccess(provider: ProviderId) {
+  const br = breakerOf(provider);
+  br.failures = 0;
+  br.openUntil = 0;
+  br.cooldown = BREAKER_COOLDOWN_MS;
+}
+
+// probe：失败的是半开探测请求。熔断打开后陆续返回的在途失败只计数，不再延长冷却
+function recordFailure(provider: ProviderId, probe: boolean) {
+  const br = breakerOf(provider);
+  br.failures += 1;
+  if (probe) {
+    // 半开探测失败 → 冷却时间翻倍
+    br.cooldown = Math.min(BREAKER_MAX_COOLDOWN_MS, br.cooldown * 2);
+    br.openUntil = Date.now() + br.cooldown;
+  } else if (br.openUntil === 0 && br.failures >= BREAKER_THRESHOLD) {
+    br.openUntil = Date.now() + br.cooldown;
+  }
+}
+
+/* ========== 工具 ========== */
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((res) => {
+    if (signal.aborted) return res();
+    const t = setTimeout(done, ms);
+    function done() {
+      clearTimeout(t);
+      signal.removeEventListener("abort", done);
+      res();
+    }
+    signal.addEventListener("abort", done);
+  });
+}
+
+/** 退避时长：Retry-After 优先；403 至少 30s；其余指数退避（上限 15s）+ 抖动 */
+function backoffMs(attempt: number, status: number, retryAfter: number): number {
+  if (Number.isFinite(retryAfter) && retryAfter > 0) return Math.max(1000, retryAfter * 1000);
+  if (status === 403) return 30_000;
+  const base = Math.min(15_000, 1000 * 2 ** (attempt - 1));
+  return Math.floor(base * (0.5 + Math.random() * 0.5));
+}
+
+const RETRYABLE_STATUS = [429, 403, 500, 502, 503, 504];
+const KEY_SCOPED_STATUS = [429, 403]; // 只惩罚当前 Key，其它 Key 可立即接手
+
+/* ========== 会话 ========== */
+
+/**
+ * 创建调度会话：令牌桶与熔断器按 Provider 共享，AbortController 按会话归属。
+ * 视图在“开始”时 reset()，在“停止”时 abort()。
+ */
+export function createSession(provider: ProviderId, fetcher: typeof fetch = (...args) => fetch(...args)) {
+  const controllers = new Set<AbortController>();
+  let lifetime = new AbortController();
+
+  async function acquireToken(signal: AbortSignal): Promise<void> {
+    const b = bucketOf(provider);
+    while (!signal.aborted) {
+      refill(b);
+      if (b.tokens >= 1) {
+        b.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - b.tokens) / b.qps) * 1000), signal);
+    }
+  }
+
+  /** 熔断打开时等待冷却；半开时只放行一个探测请求。返回是否拿到探测权 */
+  async function passBreaker(signal: AbortSignal): Promise<boolean> {
+    const br = breakerOf(provider);
+    while (!signal.aborted && br.failures >= BREAKER_THRESHOLD) {
+      const wait = br.openUntil - Date.now();
+      if (wait > 0) {
+        await sleep(wait, signal);
+        continue;
+      }
+      if (!br.probing) {
+        br.probing = true;
+        return true;
+      }
+      await sleep(250, signal);
+    }
+    return false;
+  }
+
+  /** 从 Key 池取一个可用 Key；全部冷却时等待最早恢复的那个。全部失效/为空时返回空串 */
+  async function acquireKey(keys: string[], signal: AbortSignal): Promise<string> {
+    while (!signal.aborted) {
+      const { key, waitMs } = pickKey(provider, keys);
+      if (key) return key;
+      if (waitMs === undefined) return "";
+      await sleep(Math.max(250, waitMs), signal);
+    }
+    return "";
+  }
+
+  async function request(spec: RequestSpec): Promise<RequestResult> {
+    const signal = lifetime.signal;
+    const maxRetries = spec.maxRetries ?? 5;
+    let lastStatus = 0;
+    let lastMessage = "";
+    const keyless = !spec.keys.length && !!spec.allowNoKey;
+
+    for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+      if (signal.aborted) return { ok: false, status: 0, reason: "aborted", message: "aborted" };
+
+      const key = keyless ? "" : await acquireKey(spec.keys, signal);
+      if (signal.aborted) return { ok: false, status: 0, reason: "aborted", message: "aborted" };
+      if (!key && !keyless) {
+        return spec.keys.length
+          ? { ok: false, status: 401, reason: "unauthorized", message: "请输入有效的 API Key" }
+          : { ok: false, status: 0, reason: "no-key", message: "请输入有效的 API Key" };
+      }
+
+      const probe = await passBreaker(signal);
+      await acquireToken(signal);
+      if (signal.aborted) {
+        if (probe) breakerOf(provider).probing = false;
+        return { ok: false, status: 0, reason: "aborted", message: "aborted" };
+      }
+
+      const { url, init } = spec.build(key);
+      const ctrl = new AbortController();
+      controllers.add(ctrl);
+      const timer = setTimeout(() => ctrl.abort(), spec.timeoutMs);
+
+      let resp: Response | null = null;
+      let json: unknown = null;
+      let retryable = false;
+      let retryAfter = NaN;
+      let keyDead = false;
+      const startedAt = Date.now();
+      try {
+        resp = await fetcher(url, { ...init, signal: ctrl.signal });
+        lastStatus = resp.status;
+        if (resp.ok) {
+          json = await resp.json();
+          if (spec.isKeyInvalid?.(json)) {
+            keyDead = true;
+          } else if (spec.isThrottled?.(json)) {
+            retryable = true;
+            lastStatus = 429; // 响应体限流按 429 处理（冷却该 Key）
+            lastMessage = "rate limited";
+          }
+        } else if (resp.status === 401) {
+          keyDead = true;
+        } else if (RETRYABLE_STATUS.includes(resp.status)) {
+          retryable = true;
+          retryAfter = Number(resp.headers.get("retry-after"));
+          lastMessage = `${resp.status} ${resp.statusText}`.trim();
+        } else {
+          return { ok: false, status: resp.status, reason: "http", message: `${resp.status} ${resp.statusText}`.trim() };
+        }
+      } catch {
+        // 网络错误 / 超时 / JSON 解析失败
+        if (signal.aborted) return { ok: false, status: 0, reason: "aborted", message: "aborted" };
+        retryable = true;
+        if (!resp) lastStatus = 0;
+        lastMessage = resp ? "json error" : "network error";
+      } finally {
+        clearTimeout(timer);
+        controllers.delete(ctrl);
+        if (probe) breakerOf(provider).probing = false;
+      }
+
+      // 无 Key 请求被拒：没有 Key 可换
+      if (keyDead && keyless) {
+        return { ok: false, status: 401, reason: "unauthorized", message: "请输入有效的 API Key" };
+      }
+      // 401：该 Key 失效，换 Key 重试（不计入重试次数与熔断；Key 数量有限，必然收敛）
+      if (keyDead) {
+        reportKeyFailure(provider, key, 401);
+        attempt -= 1;
+        continue;
+      }
+
+      if (!retryable) {
+        if (!keyless) reportKeySuccess(provider, key, Date.now() - startedAt, lastStatus);
+        recordSuccess(provider);
+        return { ok: true, status: lastStatus, json };
+      }
+
+      if (!keyless) reportKeyFailure(provider, key, lastStatus, retryAfter);
+      // 429/403 只关乎当前 Key（已冷却，换 Key 即可）：不计入 Provider 熔断；无 Key 请求没有 Key 可换，照常计入
+      if (keyless || !KEY_SCOPED_STATUS.includes(lastStatus)) recordFailure(provider, probe);
+      if (attempt <= maxRetries) {
+        // 429/403 只冷却当前 Key：还有可用 Key 时短暂停顿即换 Key，否则按退避等待
+        const hasOther = KEY_SCOPED_STATUS.includes(lastStatus) && !!pickKey(provider, spec.keys).key;
+        await sleep(hasOther ? 200 : backoffMs(attempt, lastStatus, retryAfter), signal);
+      }
+    }
+
+    return {
+      ok: false,
+      status: lastStatus,
+      reason: "exhausted",
+      message: `重试 ${maxRetries} 次仍失败：${lastMessage || lastStatus}`,
+    };
+  }
+
+  return {
+    provider,
+    request,
+    /** 中止所有在途请求与等待中的退避 */
+    abort(): void {
+      lifetime.abort();
+      controllers.forEach((c) => {
+        try { c.abort(); } catch { /* ignore */ }
+      });
+      controllers.clear();
+    },
+    /** 新一轮任务开始前调用，恢复可用状态 */
+    reset(): void {
+      if (lifetime.signal.aborted) lifetime = new AbortController();
+    },
+    /** 是否已被 abort()（翻页循环据此结束） */
+    aborted(): boolean {
+      return lifetime.signal.aborted;
+    },
+    /** 页间停顿：abort() 时立即返回 */
+    pause(ms: number): Promise<void> {
+      return sleep(ms, lifetime.signal);
+    },
+  };
+}
+
+export type SchedulerSession = ReturnType<typeof createSession>;
+
+/* ========== DEV 快速自检（离线；桩 fetch，不会影响生产） ========== */
+if (import.meta?.env?.DEV) {
+  const urls: string[] = [];
+  const session = createSession("dev-selfcheck", async (input) => {
+    urls.push(String(input));
+    return new Response('{"status":"1","message":"OK","result":[]}', { status: 200 });
+  });
+  const net: NetSpec = {
+    provider: "dev-selfcheck",
+    keys: [],
+    url: "https://blockscout.invalid/api?module=account",
+    keyParam: "apikey",
+    timeoutMs: 1000,
+    etherscanBody: true,
+  };
+  void (async () => {
+    // 没有 Key 且不允许无 Key：不发请求
+    const noKey = await session.request(specOf(net));
+    console.assert(!noKey.ok && noKey.reason === "no-key" && urls.length === 0, "无 Key 拦截断言失败", noKey);
+    // Blockscout 等无 Key 入口：照常发送，且不带 apikey
+    const keyless = await session.request(specOf({ ...net, allowNoKey: true }));
+    console.assert(keyless.ok && urls.length === 1 && !urls[0].includes("apikey"), "无 Key 请求断言失败", keyless, urls);
+    // 有 Key：按 keyParam 放进 Query
+    const keyed = await session.request(specOf({ ...net, keys: ["K1"] }));
+    console.assert(keyed.ok && urls[1]?.includes("apikey=K1"), "Key 参数断言失败", keyed, urls);
+  })();
+
+  // 熔断：并发的在途失败只打开一次；只有半开探测失败才翻倍冷却
+  for (let i = 0; i < BREAKER_THRESHOLD * 2; i++) recordFailure("dev-breaker", false);
+  const br = breakerOf("dev-breaker");
+  console.assert(br.cooldown === BREAKER_COOLDOWN_MS && br.openUntil > 0, "熔断冷却断言失败", { ...br });
+  recordFailure("dev-breaker", true);
+  console.assert(br.cooldown === BREAKER_COOLDOWN_MS * 2, "半开探测翻倍断言失败", { ...br });
+  recordSuccess("dev-breaker");
+  console.assert(br.failures === 0 && br.openUntil === 0 && br.cooldown === BREAKER_COOLDOWN_MS, "熔断恢复断言失败", { ...br });
+}
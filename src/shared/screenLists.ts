@@ -0,0 +1,228 @@
+/* src/shared/screenLists.ts */
+import * as XLSX from "xlsx";
+import { normScreenAddress, type ScreenIndex, type ScreenListKind } from "./screening";
+
+/* =========================
+ * 本地名单库（IndexedDB）：OFAC SDN 数字货币地址、内部关注名单、Tether 冻结名单等
+ * - 每次导入一个文件为一份名单；同名名单再次导入时整份替换
+ * - 支持：OFAC sdn.xml（取 "Digital Currency Address - *" 标识）、TXT（每行一个地址）、CSV / XLSX
+ *   （有 address / 地址 列时按列取，另认 note / name / 备注 / 名称 列为备注；否则逐格识别地址）
+ * - 只保留 TRON / EVM 格式的地址（其他链的地址本工具查询不到）
+ * - 内存中保留合并后的索引 screenIndex()：筛查在主线程与 Worker 中都按它同步查询
+ * ========================= */
+
+export type ScreenEntry = { address: string; note: string };
+
+export type ScreenList = {
+  id: string;
+  name: string;
+  kind: ScreenListKind;
+  /** 导入的文件名 */
+  source: string;
+  importedAt: number;
+  entries: ScreenEntry[];
+};
+
+export type ScreenListInfo = Omit<ScreenList, "entries"> & { count: number };
+
+const DB_NAME = "multichain-exporter-screening";
+const DB_VERSION = 1;
+const STORE = "lists";
+
+const ADDRESS_RE = /^(T[1-9A-HJ-NP-Za-km-z]{33}|0x[0-9a-fA-F]{40})$/;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let lists: ScreenList[] | null = null;
+let loading: Promise<void> | null = null;
+let index: ScreenIndex = {};
+let version = 0;
+const listeners = new Set<() => void>();
+
+function rebuild() {
+  const next: ScreenIndex = {};
+  for (const l of lists || []) {
+    for (const e of l.entries) {
+      const k = normScreenAddress(e.address);
+      (next[k] ||= []).push({ list: l.name, kind: l.kind, note: e.note });
+    }
+  }
+  index = next;
+  version++;
+  listeners.forEach((fn) => fn());
+}
+
+/** 订阅名单变化（导入 / 删除），返回取消订阅函数 */
+export function subscribeScreenLists(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+/** 名单版本（每次变化 +1；可配合 useSyncExternalStore） */
+export function screenListsVersion(): number {
+  return version;
+}
+
+/** 合并后的索引（归一地址 → 命中条目）；未载入时为空 */
+export function screenIndex(): ScreenIndex {
+  return index;
+}
+
+export function screenListInfos(): ScreenListInfo[] {
+  return (lists || []).map(({ entries, ...rest }) => ({ ...rest, count: entries.length }));
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: "id" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+}
+
+function reqDone<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function txDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** 载入名单（首次调用时读库；之后直接返回） */
+export function loadScreenLists(): Promise<void> {
+  if (lists) return Promise.resolve();
+  loading ||= openDb()
+    .then((db) => reqDone(db.transaction(STORE).objectStore(STORE).getAll()))
+    .then((all) => {
+      lists = (all as ScreenList[]).sort((a, b) => a.importedAt - b.importedAt);
+      rebuild();
+    })
+    .catch(() => {
+      // IndexedDB 不可用：按无名单处理
+      lists = [];
+    })
+    .finally(() => {
+      loading = null;
+    });
+  return loading;
+}
+
+export async function deleteScreenList(id: string): Promise<void> {
+  await loadScreenLists();
+  const db = await openDb();
+  const tx = db.transaction(STORE, "readwrite");
+  tx.objectStore(STORE).delete(id);
+  await txDone(tx);
+  lists = (lists || []).filter((l) => l.id !== id);
+  rebuild();
+}
+
+/* ========== 解析 ========== */
+
+// OFAC SDN（sdn.xml）：每个 sdnEntry 的实体名 + "Digital Currency Address - 币种" 标识
+function parseSdnXml(xml: string): ScreenEntry[] {
+  const out: ScreenEntry[] = [];
+  const tag = (s: string, t: string) => new RegExp(`<${t}>([^<]*)</${t}>`).exec(s)?.[1]?.trim() || "";
+  for (const m of xml.matchAll(/<sdnEntry>([\s\S]*?)<\/sdnEntry>/g)) {
+    const body = m[1];
+    const name = [tag(body, "firstName"), tag(body, "lastName")].filter(Boolean).join(" ");
+    for (const id of body.matchAll(/<id>([\s\S]*?)<\/id>/g)) {
+      const type = /Digital Currency Address - ([^<]+)/.exec(tag(id[1], "idType"))?.[1];
+      const address = tag(id[1], "idNumber");
+      if (type && ADDRESS_RE.test(address)) out.push({ address, note: name ? `${name}（${type}）` : type });
+    }
+  }
+  return out;
+}
+
+const ADDRESS_HEADERS = ["address", "地址", "addr", "钱包地址"];
+const NOTE_HEADERS = ["note", "name", "备注", "名称", "entity", "实体", "说明", "reason", "原因"];
+
+// total：非空数据行数（不含表头）
+function parseTable(rows: unknown[][]): { entries: ScreenEntry[]; total: number } {
+  const out: ScreenEntry[] = [];
+  let total = 0;
+  const head = (rows[0] || []).map((c) => String(c ?? "").trim().toLowerCase());
+  const addrCol = head.findIndex((h) => ADDRESS_HEADERS.includes(h));
+  const noteCol = head.findIndex((h) => NOTE_HEADERS.includes(h));
+  for (const r of addrCol >= 0 ? rows.slice(1) : rows) {
+    const cells = (r || []).map((c) => String(c ?? "").trim());
+    if (!cells.some(Boolean)) continue;
+    total++;
+    const address = addrCol >= 0 ? cells[addrCol] : cells.find((c) => ADDRESS_RE.test(c));
+    if (!address || !ADDRESS_RE.test(address)) continue;
+    out.push({ address, note: noteCol >= 0 ? cells[noteCol] || "" : "" });
+  }
+  return { entries: out, total };
+}
+
+/** 解析名单文件；返回去重后的条目与被跳过（非 TRON / EVM 地址）的行数 */
+export async function parseScreenFile(file: File): Promise<{ entries: ScreenEntry[]; skipped: number }> {
+  let entries: ScreenEntry[];
+  let total: number;
+  if (/\.xml$/i.test(file.name)) {
+    const xml = await file.text();
+    entries = parseSdnXml(xml);
+    total = (xml.match(/Digital Currency Address - /g) || []).length;
+  } else {
+    // TXT / CSV 按文本读（UTF-8）；XLSX 按二进制读
+    const wb = /\.(txt|csv)$/i.test(file.name)
+      ? XLSX.read(await file.text(), { type: "string" })
+      : XLSX.read(await file.arrayBuffer(), { type: "array" });
+    const ws = wb.Sheets[wb.SheetNames[0]];
+    const rows = ws ? XLSX.utils.sheet_to_json<unknown[]>(ws, { header: 1, defval: "", raw: false }) : [];
+    ({ entries, total } = parseTable(rows));
+  }
+  const seen = new Set<string>();
+  const unique = entries.filter((e) => {
+    const k = normScreenAddress(e.address);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+  return { entries: unique, skipped: Math.max(0, total - entries.length) };
+}
+
+/** 导入一份名单（同名替换）；返回条目数与跳过行数 */
+export async function importScreenList(
+  file: File,
+  kind: ScreenListKind,
+  name: string
+): Promise<{ count: number; skipped: number }> {
+  await loadScreenLists();
+  const { entries, skipped } = await parseScreenFile(file);
+  if (!entries.length) throw new Error("文件中没有识别到 TRON / EVM 地址");
+  const old = (lists || []).find((l) => l.name === name);
+  const list: ScreenList = {
+    id: old?.id || `${kind}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    kind,
+    source: file.name,
+    importedAt: Date.now(),
+    entries,
+  };
+  const db = await openDb();
+  const tx = db.transaction(STORE, "readwrite");
+  tx.objectStore(STORE).put(list);
+  await txDone(tx);
+  lists = [...(lists || []).filter((l) => l.id !== list.id), list];
+  rebuild();
+  return { count: entries.length, skipped };
+}
@@ -0,0 +1,129 @@
+/* src/shared/screening.ts */
+
+/* =========================
+ * 名单筛查（制裁 / 黑名单）：纯函数，主线程与 Worker 共用
+ * - 名单本身由 shared/screenLists 维护（IndexedDB），这里只接收合并后的索引 ScreenIndex
+ * - 直接命中：查询地址本身在名单上；一跳：与查询地址有往来的对手地址在名单上
+ * - 地址归一：EVM 小写，TRON Base58 原样
+ * ========================= */
+
+export type ScreenListKind = "ofac" | "watchlist" | "tether" | "other";
+
+export const SCREEN_KIND_NAMES: Record<ScreenListKind, string> = {
+  ofac: "OFAC SDN",
+  watchlist: "内部关注名单",
+  tether: "Tether 冻结",
+  other: "其他名单",
+};
+
+/** 命中的名单条目：list 为名单名称，note 为条目备注（如 SDN 实体名） */
+export type ScreenHit = { list: string; kind: ScreenListKind; note: string };
+
+/** 归一地址 → 命中的名单条目 */
+export type ScreenIndex = Record<string, ScreenHit[]>;
+
+export type ScreenDir = "转入" | "转出" | "双向";
+
+export type ScreenHop = { address: string; dir: ScreenDir; hits: ScreenHit[] };
+
+export type ScreenExposure = { direct: ScreenHit[]; hop: ScreenHop[] };
+
+/** “命中名单” sheet 的一行（Worker 与视图共用同一组列） */
+export type ScreenHitRow = {
+  查询地址: string;
+  命中方式: string;
+  命中地址: string;
+  名单: string;
+  名单类型: string;
+  备注: string;
+  来源表: string;
+  哈希: string;
+  时间: string;
+};
+
+export function normScreenAddress(address: string): string {
+  const a = String(address || "").trim();
+  return /^0x/i.test(a) ? a.toLowerCase() : a;
+}
+
+export function screenAddress(index: ScreenIndex, address: string): ScreenHit[] {
+  return (address && index[normScreenAddress(address)]) || [];
+}
+
+/** 名单命中的展示文本："OFAC SDN（Lazarus Group） | Tether 冻结"；没有为 "" */
+export function hitsText(hits: ScreenHit[]): string {
+  return [...new Set(hits.map((h) => (h.note ? `${h.list}（${h.note}）` : h.list)))].join(" | ");
+}
+
+/** 由对手地址集合计算直接 / 一跳命中 */
+export function exposureOf(
+  index: ScreenIndex,
+  addr: string,
+  inAddrs: Iterable<string>,
+  outAddrs: Iterable<string>
+): ScreenExposure {
+  const self = normScreenAddress(addr);
+  const hop = new Map<string, ScreenHop>();
+  const add = (a: string, dir: "转入" | "转出") => {
+    const k = normScreenAddress(a);
+    if (!k || k === self) return;
+    const prev = hop.get(k);
+    if (prev) {
+      if (prev.dir !== dir) prev.dir = "双向";
+      return;
+    }
+    const hits = index[k];
+    if (hits?.length) hop.set(k, { address: a, dir, hits });
+  };
+  for (const a of inAddrs) add(a, "转入");
+  for (const a of outAddrs) add(a, "转出");
+  return { direct: screenAddress(index, addr), hop: [...hop.values()] };
+}
+
+/** 一跳命中的摘要："2 个对手地址：OFAC SDN, Tether 冻结（转入 1 / 转出 1）"；没有为 "" */
+export function hopText(hop: ScreenHop[]): string {
+  if (!hop.length) return "";
+  const lists = [...new Set(hop.flatMap((h) => h.hits.map((x) => x.list)))].join(", ");
+  const ins = hop.filter((h) => h.dir !== "转出").length;
+  const outs = hop.filter((h) => h.dir !== "转入").length;
+  return `${hop.length} 个对手地址：${lists}（转入 ${ins} / 转出 ${outs}）`;
+}
+
+/** 直接 / 一跳命中 → “命中名单” sheet 的行（不含交易明细） */
+export function exposureRows(addr: string, e: ScreenExposure, table = "账户情况"): ScreenHitRow[] {
+  const row = (how: string, hit: string, h: ScreenHit): ScreenHitRow => ({
+    查询地址: addr,
+    命中方式: how,
+    命中地址: hit,
+    名单: h.list,
+    名单类型: SCREEN_KIND_NAMES[h.kind],
+    备注: h.note,
+    来源表: table,
+    哈希: "-",
+    时间: "-",
+  });
+  return [
+    ...e.direct.map((h) => row("直接（查询地址）", addr, h)),
+    ...e.hop.flatMap((p) => p.hits.map((h) => row(`一跳（${p.dir}）`, p.address, h))),
+  ];
+}
+
+/**
+ * 结果行里的对手地址列与资金方向（相对查询地址）：来源类列为转入，去向类列为转出；
+ * 对方地址（TRX / TRC10 台账）看同一行的“方向”
+ */
+export const COUNTERPARTY_DIR: Record<string, "转入" | "转出" | null> = {
+  发起地址: "转入",
+  转入地址: "转入",
+  代币转出地址: "转入",
+  接收地址: "转出",
+  转出地址: "转出",
+  代币接收地址: "转出",
+  对方地址: null,
+};
+
+/** 高亮级别：直接命中 > 一跳命中 > 无 */
+export function exposureLevel(e: ScreenExposure | undefined): "direct" | "hop" | null {
+  if (e?.direct.length) return "direct";
+  return e?.hop.length ? "hop" : null;
+}
@@ -35,6 +35,26 @@ export function formatTime(ts: number): string {
   )}:${pad(d.getSeconds())}`;
 }
 
+// 结束时间按输入的精度补到末尾：只到分钟 → 该分钟末；带秒 → 该秒末；带毫秒不补
+function endPadMs(end: string): number {
+  if (/T\d{2}:\d{2}$/.test(end)) return 59_999;
+  if (/T\d{2}:\d{2}:\d{2}$/.test(end)) return 999;
+  return 0;
+}
+
+/**
+ * 查询时间窗口：解析 <input type="datetime-local"> 的值（本地时区）为毫秒时间戳。
+ * 留空表示不限；结束时间包含所填那一分钟（或那一秒）内的全部交易。
+ */
+export function parseTimeWindow(start: string, end: string): { fromMs?: number; toMs?: number; error?: string } {
+  const fromMs = start ? new Date(start).getTime() : undefined;
+  const toMs = end ? new Date(end).getTime() + endPadMs(end) : undefined;
+  if (fromMs !== undefined && !Number.isFinite(fromMs)) return { error: "开始时间格式不正确" };
+  if (toMs !== undefined && !Number.isFinite(toMs)) return { error: "结束时间格式不正确" };
+  if (fromMs !== undefined && toMs !== undefined && fromMs > toMs) return { error: "开始时间不能晚于结束时间" };
+  return { fromMs, toMs };
+}
+
 /** 十进制字符串按 decimals 缩放为带小数的人类可读数（避免浮点） */
 export function scaleAmount(raw: string, decimals = 0): string {
   const sign = raw.startsWith("-") ? "-" : "";
@@ -46,6 +66,24 @@ export function scaleAmount(raw: string, decimals = 0): string {
   return sign + (frac ? `${int}.${frac}` : int);
 }
 
+/** scaleAmount 的逆运算：十进制字符串 → 原始整数（超出精度的小数位截断）；不是数字时返回 null */
+export function parseAmount(s: string, decimals = 0): bigint | null {
+  const m = /^(-?)(\d*)(?:\.(\d*))?$/.exec(String(s ?? "").trim());
+  if (!m || (!m[2] && !m[3])) return null;
+  const frac = (m[3] || "").slice(0, Math.max(0, decimals)).padEnd(Math.max(0, decimals), "0");
+  const v = BigInt((m[2] || "0") + frac);
+  return m[1] ? -v : v;
+}
+
+/**
+ * 链上余额与按流水推算的余额（流入 - 流出）比对。
+ * 返回 "一致"，或 "差 x"（x = 链上 - 推算，已按精度缩放）：历史未拉全、铸造/销毁、未计手续费等都会造成差异
+ */
+export function balanceDiff(computedRaw: bigint, chainRaw: bigint, decimals: number): string {
+  const d = chainRaw - computedRaw;
+  return d === 0n ? "一致" : `差 ${d > 0n ? "+" : ""}${scaleAmount(d.toString(), decimals)}`;
+}
+
 /** 组合去重 Key（更稳，不仅依赖哈希） */
 export function makeCompositeKey(o: {
   transaction_id: string;
@@ -123,6 +161,189 @@ export async function isValidTronAddress(addr: string): Promise<boolean> {
   return true;
 }
 
+/* ---------- TRON 十六进制地址 → Base58Check ---------- */
+// Worker 中逐行映射需要同步计算，WebCrypto 只有异步接口，这里用纯 JS 的 SHA-256
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/** SHA-256（同步版，用于 Base58Check 校验位） */
+export function sha256Sync(data: Uint8Array): Uint8Array {
+  const bitLen = data.length * 8;
+  const padded = new Uint8Array(Math.ceil((data.length + 9) / 64) * 64);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const dv = new DataView(padded.buffer);
+  dv.setUint32(padded.length - 8, Math.floor(bitLen / 0x100000000));
+  dv.setUint32(padded.length - 4, bitLen >>> 0);
+
+  const h = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+  for (let off = 0; off < padded.length; off += 64) {
+    for (let i = 0; i < 16; i++) w[i] = dv.getUint32(off + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) >>> 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+    h[0] += a;
+    h[1] += b;
+    h[2] += c;
+    h[3] += d;
+    h[4] += e;
+    h[5] += f;
+    h[6] += g;
+    h[7] += hh;
+  }
+  const out = new Uint8Array(32);
+  const ov = new DataView(out.buffer);
+  for (let i = 0; i < 8; i++) ov.setUint32(i * 4, h[i]);
+  return out;
+}
+
+function base58Encode(bytes: Uint8Array): string {
+  let num = 0n;
+  for (const b of bytes) num = num * 256n + BigInt(b);
+  let out = "";
+  while (num > 0n) {
+    out = B58_ALPHABET[Number(num % 58n)] + out;
+    num = num / 58n;
+  }
+  // 前导 0x00 -> '1'
+  for (const b of bytes) {
+    if (b !== 0) break;
+    out = "1" + out;
+  }
+  return out;
+}
+
+const tronB58Cache = new Map<string, string>();
+
+/**
+ * TRON 十六进制地址（41 + 20 字节；也接受 0x + 20 字节）→ Base58Check（T...）。
+ * 已是 Base58 或形状不合法时原样返回
+ */
+export function tronHexToBase58(addr: string): string {
+  const a = String(addr || "").trim();
+  let hex: string;
+  if (/^41[0-9a-fA-F]{40}$/.test(a)) hex = a.toLowerCase();
+  else if (/^0x[0-9a-fA-F]{40}$/.test(a)) hex = "41" + a.slice(2).toLowerCase();
+  else return addr;
+  const hit = tronB58Cache.get(hex);
+  if (hit) return hit;
+  const payload = new Uint8Array(21);
+  for (let i = 0; i < 21; i++) payload[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  const check = sha256Sync(sha256Sync(payload)).slice(0, 4);
+  const full = new Uint8Array(25);
+  full.set(payload);
+  full.set(check, 21);
+  const out = base58Encode(full);
+  if (tronB58Cache.size > 50_000) tronB58Cache.clear();
+  tronB58Cache.set(hex, out);
+  return out;
+}
+
+/** TRC10 的 asset_name / tokenId：TronGrid 可能返回十六进制编码的文本（如 "31303030303031" → "1000001"） */
+export function decodeTronAssetName(v: string): string {
+  const s = String(v ?? "").trim();
+  if (!s || s.length % 2 || !/^[0-9a-fA-F]+$/.test(s)) return s;
+  let out = "";
+  for (let i = 0; i < s.length; i += 2) {
+    const c = parseInt(s.slice(i, i + 2), 16);
+    if (c < 0x20 || c > 0x7e) return s;
+    out += String.fromCharCode(c);
+  }
+  return out;
+}
+
+/* ---------- TRC20 调用数据（ABI）解码 ---------- */
+
+export type Trc20Call = {
+  method: "transfer" | "transferFrom" | "approve";
+  /** 代币转出方（transferFrom 的 _from；其余为空，即交易发起方） */
+  from?: string;
+  /** transfer / transferFrom 的收款方；approve 的被授权方 */
+  to: string;
+  /** 原始数量（未按精度缩放） */
+  amount: string;
+};
+
+const TRC20_SELECTORS: Record<string, Trc20Call["method"]> = {
+  a9059cbb: "transfer", // transfer(address,uint256)
+  "23b872dd": "transferFrom", // transferFrom(address,address,uint256)
+  "095ea7b3": "approve", // approve(address,uint256)
+};
+
+/** 解码 TriggerSmartContract 的 data（十六进制，可带 0x）；非上述三种方法或长度不足时返回 null */
+export function decodeTrc20Call(data: string): Trc20Call | null {
+  const d = String(data || "").replace(/^0x/i, "").toLowerCase();
+  const method = TRC20_SELECTORS[d.slice(0, 8)];
+  if (!method || !/^[0-9a-f]*$/.test(d)) return null;
+  const words: string[] = [];
+  for (let off = 8; off + 64 <= d.length; off += 64) words.push(d.slice(off, off + 64));
+  const need = method === "transferFrom" ? 3 : 2;
+  if (words.length < need) return null;
+  // address 参数：32 字节右对齐，取低 20 字节
+  const addrOf = (w: string) => tronHexToBase58("41" + w.slice(24));
+  const amountOf = (w: string) => BigInt("0x" + w).toString();
+  if (method === "transferFrom") {
+    return { method, from: addrOf(words[0]), to: addrOf(words[1]), amount: amountOf(words[2]) };
+  }
+  return { method, to: addrOf(words[0]), amount: amountOf(words[1]) };
+}
+
+/**
+ * 解码常量调用（symbol() / name()）的返回值：ABI 动态 string，或早期代币使用的 bytes32（右补 0）。
+ * 解不出时返回空串
+ */
+export function decodeAbiString(hex: string): string {
+  const h = String(hex || "").replace(/^0x/i, "").toLowerCase();
+  if (!h || h.length % 2 || !/^[0-9a-f]+$/.test(h)) return "";
+  let body = h.slice(0, 64); // bytes32
+  if (h.length >= 128) {
+    const off = parseInt(h.slice(0, 64), 16) * 2;
+    const len = off + 64 <= h.length ? parseInt(h.slice(off, off + 64), 16) * 2 : NaN;
+    if (Number.isFinite(len) && off + 64 + len <= h.length) body = h.slice(off + 64, off + 64 + len);
+  }
+  body = body.replace(/(00)+$/, "");
+  if (body.length % 2) body += "0";
+  const bytes = new Uint8Array(body.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(body.slice(i * 2, i * 2 + 2), 16);
+  try {
+    const text = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return Array.from(text)
+      .filter((ch) => ch.charCodeAt(0) >= 0x20)
+      .join("")
+      .trim();
+  } catch {
+    return "";
+  }
+}
+
 /* —— 自动校验候选 —— */
 
 function isBase58HeadOk(x: string): boolean {
@@ -401,14 +622,131 @@ export async function generateTronCandidates(input: string, limit = 120): Promis
  * ETH 校验 & 自动校验（轻量）
  * ========================= */
 
-/** 仅格式校验（0x + 40 十六进制）。如需 EIP-55，可在此基础上扩展 Keccak 校验。 */
-export function isValidEthAddress(addr: string): boolean {
-  return /^0x[a-fA-F0-9]{40}$/.test((addr || "").trim());
+/* ---------- Keccak-256（以太坊版：0x01 填充，非 SHA3-256）---------- */
+// 64 位 lane 拆成 [lo, hi] 两个 32 位整数，避免 BigInt 的开销（地址校验和会在行映射中大量调用）
+const KECCAK_RC: [number, number][] = [
+  [0x00000001, 0x00000000], [0x00008082, 0x00000000], [0x0000808a, 0x80000000], [0x80008000, 0x80000000],
+  [0x0000808b, 0x00000000], [0x80000001, 0x00000000], [0x80008081, 0x80000000], [0x00008009, 0x80000000],
+  [0x0000008a, 0x00000000], [0x00000088, 0x00000000], [0x80008009, 0x00000000], [0x8000000a, 0x00000000],
+  [0x8000808b, 0x00000000], [0x0000008b, 0x80000000], [0x00008089, 0x80000000], [0x00008003, 0x80000000],
+  [0x00008002, 0x80000000], [0x00000080, 0x80000000], [0x0000800a, 0x00000000], [0x8000000a, 0x80000000],
+  [0x80008081, 0x80000000], [0x00008080, 0x80000000], [0x80000001, 0x00000000], [0x80008008, 0x80000000],
+];
+// ρ 旋转位数（下标 x + 5y）
+const KECCAK_ROT = [0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18, 2, 61, 56, 14];
+
+function keccakF(s: Uint32Array): void {
+  const c = new Uint32Array(10);
+  const b = new Uint32Array(50);
+  const rotl = (lo: number, hi: number, n: number): [number, number] => {
+    if (n === 0) return [lo, hi];
+    if (n === 32) return [hi, lo];
+    if (n > 32) {
+      [lo, hi] = [hi, lo];
+      n -= 32;
+    }
+    return [((lo << n) | (hi >>> (32 - n))) >>> 0, ((hi << n) | (lo >>> (32 - n))) >>> 0];
+  };
+  for (let round = 0; round < 24; round++) {
+    // θ
+    for (let x = 0; x < 5; x++) {
+      c[2 * x] = s[2 * x] ^ s[2 * x + 10] ^ s[2 * x + 20] ^ s[2 * x + 30] ^ s[2 * x + 40];
+      c[2 * x + 1] = s[2 * x + 1] ^ s[2 * x + 11] ^ s[2 * x + 21] ^ s[2 * x + 31] ^ s[2 * x + 41];
+    }
+    for (let x = 0; x < 5; x++) {
+      const p = (x + 4) % 5, n = (x + 1) % 5;
+      const [rl, rh] = rotl(c[2 * n], c[2 * n + 1], 1);
+      const dl = c[2 * p] ^ rl, dh = c[2 * p + 1] ^ rh;
+      for (let y = 0; y < 25; y += 5) {
+        s[2 * (x + y)] ^= dl;
+        s[2 * (x + y) + 1] ^= dh;
+      }
+    }
+    // ρ + π
+    for (let i = 0; i < 25; i++) {
+      const x = i % 5, y = (i / 5) | 0;
+      const j = y + 5 * ((2 * x + 3 * y) % 5);
+      const [l, h] = rotl(s[2 * i], s[2 * i + 1], KECCAK_ROT[i]);
+      b[2 * j] = l;
+      b[2 * j + 1] = h;
+    }
+    // χ
+    for (let i = 0; i < 25; i++) {
+      const x = i % 5, y = i - x;
+      const i1 = y + ((x + 1) % 5), i2 = y + ((x + 2) % 5);
+      s[2 * i] = b[2 * i] ^ (~b[2 * i1] & b[2 * i2]);
+      s[2 * i + 1] = b[2 * i + 1] ^ (~b[2 * i1 + 1] & b[2 * i2 + 1]);
+    }
+    // ι
+    s[0] ^= KECCAK_RC[round][0];
+    s[1] ^= KECCAK_RC[round][1];
+  }
+}
+
+/** Keccak-256 摘要（小写十六进制，无 0x）；字符串按 UTF-8 编码 */
+export function keccak256(data: Uint8Array | string): string {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const rate = 136;
+  const padded = new Uint8Array(Math.floor(bytes.length / rate + 1) * rate);
+  padded.set(bytes);
+  padded[bytes.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const s = new Uint32Array(50);
+  for (let off = 0; off < padded.length; off += rate) {
+    for (let i = 0; i < rate / 4; i++) {
+      const k = off + i * 4;
+      s[i] ^= padded[k] | (padded[k + 1] << 8) | (padded[k + 2] << 16) | (padded[k + 3] << 24);
+    }
+    keccakF(s);
+  }
+  let hex = "";
+  for (let i = 0; i < 8; i++) {
+    const w = s[i];
+    for (let k = 0; k < 4; k++) hex += ((w >>> (8 * k)) & 0xff).toString(16).padStart(2, "0");
+  }
+  return hex;
 }
 
-/** 占位：如需 EIP-55 可在此实现 Keccak 版大小写校验 */
+/* ---------- EIP-55 ---------- */
+
+const checksumCache = new Map<string, string>();
+
+/** 转为 EIP-55 校验和格式；形状不合法时原样返回 */
 export function toChecksumAddress(addr: string): string {
-  return addr;
+  const a = (addr || "").trim();
+  if (!/^0x[a-fA-F0-9]{40}$/.test(a)) return addr;
+  const lower = a.slice(2).toLowerCase();
+  const hit = checksumCache.get(lower);
+  if (hit) return hit;
+  const hash = keccak256(lower);
+  let out = "0x";
+  for (let i = 0; i < 40; i++) {
+    const ch = lower[i];
+    out += ch >= "a" && parseInt(hash[i], 16) >= 8 ? ch.toUpperCase() : ch;
+  }
+  if (checksumCache.size > 50_000) checksumCache.clear();
+  checksumCache.set(lower, out);
+  return out;
+}
+
+/**
+ * ETH 地址三态校验：
+ * - valid：形状正确，且全小写 / 全大写（未带校验和）或大小写与 EIP-55 一致
+ * - checksum：形状正确但大小写混合且与 EIP-55 不符（大概率有字符输错）
+ * - invalid：形状不正确
+ */
+export function checkEthAddress(addr: string): "valid" | "checksum" | "invalid" {
+  const a = (addr || "").trim();
+  if (!/^0x[a-fA-F0-9]{40}$/.test(a)) return "invalid";
+  const body = a.slice(2);
+  if (body === body.toLowerCase() || body === body.toUpperCase()) return "valid";
+  return toChecksumAddress(a) === a ? "valid" : "checksum";
+}
+
+/** 格式 + EIP-55 校验（校验和不符视为不合法） */
+export function isValidEthAddress(addr: string): boolean {
+  return checkEthAddress(addr) === "valid";
 }
 
 /**
@@ -438,6 +776,17 @@ export async function generateEthCandidates(input: string, limit = 60): Promise<
     for (const c of HEX) { pushIf(s + c); if (out.size) break; }
     if (out.size) return Array.from(out).slice(0, limit);
   }
+  // 快路：形状正确但 EIP-55 校验和不符 → 单字符替换（含大小写翻转）中大小写恰好符合校验和的即为候选
+  if (finalOk(s) && checkEthAddress(s) === "checksum") {
+    for (let i = 2; i < 42; i++) {
+      for (const c of HEX) {
+        if (c === s[i]) continue;
+        const t = s.slice(0, i) + c + s.slice(i + 1);
+        if (checkEthAddress(t) === "valid" && t !== t.toLowerCase()) out.add(t);
+      }
+    }
+    if (out.size) return Array.from(out).slice(0, limit);
+  }
   // 形式保留：长度 42 但失败（基本不会触发）→ 替换末位
   if (/^0x[a-fA-F0-9]{40}$/.test(s) && !finalOk(s)) {
     for (const c of HEX) { pushIf(s.slice(0, 41) + c); if (out.size) break; }
@@ -528,8 +877,11 @@ export async function generateEthCandidates(input: string, limit = 60): Promise<
     }
   }
 
-  // 候选排序
-  const scored = Array.from(out).map((cand) => ({ cand, score: editDistance(s, cand) }));
+  // 候选排序：大小写符合 EIP-55 的候选优先（混合大小写输入时几乎只剩真正的地址），再按编辑距离
+  const scored = Array.from(out).map((cand) => ({
+    cand,
+    score: editDistance(s, cand) + (checkEthAddress(cand) === "valid" ? 0 : 100),
+  }));
   scored.sort((a, b) => a.score - b.score);
   return scored.slice(0, limit).map((x) => x.cand);
 }
@@ -540,4 +892,50 @@ if (import.meta?.env?.DEV) {
   console.assert(/^T[1-9A-HJ-NP-Za-km-z]{33}$/.test("TUrpa3h7bZFkmaL6pDHDaKxpc1V9ots1gm"), "TRON 基本形状断言失败");
   // ETH 形状断言
   console.assert(/^0x[a-fA-F0-9]{40}$/.test("0x4F23D5907a5cE83CD31e29Eb610e158fC1A9Ab38"), "ETH 基本形状断言失败");
+  // Keccak-256 / EIP-55 向量
+  console.assert(
+    keccak256("") === "c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470",
+    "Keccak-256 空串断言失败"
+  );
+  for (const a of [
+    "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed",
+    "0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359",
+    "0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB",
+    "0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb",
+  ]) {
+    console.assert(toChecksumAddress(a.toLowerCase()) === a, `EIP-55 断言失败：${a}`);
+  }
+  console.assert(checkEthAddress("0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAeD") === "checksum", "EIP-55 错误大小写断言失败");
+  // TRON 十六进制 → Base58Check、TRC20 调用解码
+  console.assert(
+    tronHexToBase58("41a614f803b6fd780986a42c78ec9c7f77e6ded13c") === "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t",
+    "TRON Base58Check 断言失败"
+  );
+  const call = decodeTrc20Call(
+    "a9059cbb000000000000000000000000a614f803b6fd780986a42c78ec9c7f77e6ded13c00000000000000000000000000000000000000000000000000000000000f4240"
+  );
+  console.assert(
+    call?.method === "transfer" && call.to === "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t" && call.amount === "1000000",
+    "TRC20 transfer 解码断言失败"
+  );
+  console.assert(decodeTronAssetName("31303030303031") === "1000001", "TRC10 asset_name 解码断言失败");
+  // ABI string / bytes32 解码
+  console.assert(
+    decodeAbiString(
+      "0000000000000000000000000000000000000000000000000000000000000020" +
+        "0000000000000000000000000000000000000000000000000000000000000004" +
+        "5553445400000000000000000000000000000000000000000000000000000000"
+    ) === "USDT" &&
+      decodeAbiString("4d4b520000000000000000000000000000000000000000000000000000000000") === "MKR",
+    "ABI string 解码断言失败"
+  );
+  // 金额解析 / 余额比对
+  console.assert(parseAmount("-12.3456789", 6) === -12345678n && parseAmount("abc", 6) === null, "parseAmount 断言失败");
+  console.assert(balanceDiff(1_500_000n, 1_000_000n, 6) === "差 -0.5", "balanceDiff 断言失败");
+  // 时间窗口结束时间：按输入精度补齐
+  const endOf = (v: string) => (parseTimeWindow("", v).toMs ?? 0) - new Date(v).getTime();
+  console.assert(
+    endOf("2024-01-01T10:00") === 59_999 && endOf("2024-01-01T10:00:30") === 999 && endOf("2024-01-01T10:00:30.250") === 0,
+    "parseTimeWindow 结束时间断言失败"
+  );
 }
@@ -0,0 +1,44 @@
+/* src/workers/crawl.ts */
+import type { NetSpec, RequestResult } from "../shared/scheduler";
+import type {
+  CrawlEnd,
+  CrawlPage,
+  IngestParams,
+  IngestResult,
+  PageCheckpoint,
+  RestoreParams,
+  RestoreResult,
+} from "../shared/rowStore";
+
+/* =========================
+ * Worker 内翻页抓取的公共部分
+ * - CrawlCtx：由 Worker 按 (store, Provider) 组装：调度会话 + 本 store 的写入 / 断点操作 + 进度回传
+ * - 翻页循环以会话的 abort 为停止信号（视图“停止”即 abort）
+ * ========================= */
+
+export type CrawlCtx = {
+  request(spec: NetSpec): Promise<RequestResult>;
+  /** 会话已中止：翻页循环应结束 */
+  aborted(): boolean;
+  /** 页间停顿（中止时立即返回） */
+  pause(ms: number): Promise<void>;
+  ingest(p: IngestParams): Promise<IngestResult>;
+  commit(p: { table: string; addr: string; checkpoint: PageCheckpoint }): Promise<void>;
+  restore(p: RestoreParams): Promise<RestoreResult>;
+  /** 回传每页进度 */
+  page(p: CrawlPage): void;
+};
+
+export const KEY_MESSAGE = "请输入有效的 API Key";
+
+/** 请求失败 → 结束方式（Key 缺失 / 失效统一为 key） */
+export function failOf(res: { reason?: string; message: string }): { end: CrawlEnd; message: string } {
+  if (res.reason === "aborted") return { end: "aborted", message: "" };
+  if (res.reason === "no-key" || res.reason === "unauthorized") return { end: "key", message: KEY_MESSAGE };
+  return { end: "error", message: res.message };
+}
+
+/** 页间停顿：本页只有 0–1 条时放慢翻页 */
+export function pageGap(items: number, pauseMs: number): number {
+  return items <= 1 ? Math.max(pauseMs * 5, 2000) : pauseMs;
+}
@@ -0,0 +1,286 @@
+/* src/workers/evmCrawl.ts */
+import { toChecksumAddress } from "../shared/utils";
+import { etherscanReply, etherscanSpec, type EtherscanApi, type EtherscanReply } from "../shared/apis";
+import type { CrawlParams, CrawlResult, EvmHoldingsParams, EvmHoldingsResult, HoldingItem } from "../shared/rowStore";
+import { failOf, KEY_MESSAGE, pageGap, type CrawlCtx } from "./crawl";
+
+/* =========================
+ * Etherscan 翻页（行存储 Worker 中运行）
+ * - 区块游标：sort=asc、offset=10000，按本页最后一个区块推进；整页都是重复行时跳过该区块
+ * - 出块奖励：不支持区块范围参数，按页码翻页（page × offset ≤ 10000）
+ * - 持仓：addresstokenbalance；不支持时回退为 tokentx 中出现过的代币逐个 tokenbalance
+ * ========================= */
+
+const FULL_END_BLOCK = "99999999";
+const NO_RECORDS = /No (transactions|records) found/i;
+
+function request(c: CrawlCtx, api: EtherscanApi, params: Record<string, string>): Promise<EtherscanReply> {
+  return c.request(etherscanSpec(api, params)).then(etherscanReply);
+}
+
+// status "0" 的响应体：无效 Key 按 Key 缺失处理，其余为查询失败
+function statusFail(r: EtherscanReply): { end: "key" | "error"; message: string } {
+  if (/Invalid API Key/i.test(r.errorText || "")) return { end: "key", message: KEY_MESSAGE };
+  return { end: "error", message: r.message || "查询失败" };
+}
+
+/* ========== 区块游标分页（ERC20 / 外部 / 内部 / NFT / 信标链提款 共用） ========== */
+
+// NFT（ERC-721 / ERC-1155）写入独立的 nft 表；NFT 与信标链提款都不进入 All
+export async function crawlCursor(c: CrawlCtx, p: Extract<CrawlParams, { kind: "evm-cursor" }>): Promise<CrawlResult> {
+  const kind = p.fetch;
+  const mapper = `eth-${kind}` as const;
+  const isNft = kind === "erc721" || kind === "erc1155";
+  const table = isNft ? "nft" : kind;
+  const also = isNft || kind === "beacon" ? [] : ["all"];
+  const offset = 10000;
+  let startBlock = p.range.startBlock;
+  let safetyNoProgress = 0;
+  let count = 0;
+  let page = 0;
+  let finished = false;
+
+  const checkpointOf = (done: boolean) => ({
+    jobId: p.jobId!,
+    kind,
+    cursor: { startBlock, safetyNoProgress },
+    done,
+    pages: page,
+  });
+  const result = (end: CrawlResult["end"], message = ""): CrawlResult => ({ end, message, count, pages: page, notes: [] });
+  const markDone = async () => {
+    if (p.jobId) await c.commit({ table, addr: p.addr, checkpoint: checkpointOf(true) }).catch(() => {});
+    return result("done");
+  };
+
+  // 断点：游标 = 区块游标（行、去重 Key 与聚合量一并落盘 / 恢复）
+  if (p.jobId) {
+    const r = await c.restore({ table, addr: p.addr, also, jobId: p.jobId, kind }).catch(() => null);
+    if (r?.checkpoint) {
+      const cur = r.checkpoint.cursor && typeof r.checkpoint.cursor === "object" ? r.checkpoint.cursor : {};
+      count = r.added;
+      page = r.checkpoint.pages;
+      finished = r.checkpoint.done;
+      startBlock = Number(cur.startBlock || p.range.startBlock);
+      safetyNoProgress = Number(cur.safetyNoProgress || 0);
+      c.page({ pages: page, count, added: r.added, restored: true });
+    }
+  }
+
+  while (!c.aborted() && !finished) {
+    const params: Record<string, string> = {
+      module: "account",
+      action: p.action,
+      address: p.addr,
+      startblock: String(startBlock),
+      endblock: String(p.range.endBlock),
+      sort: "asc",
+      page: "1",
+      offset: String(offset),
+    };
+    // 结果收集：填了合约则只取该合约；否则取全部 ERC-20（便于 All/TokenTransfers 展示更完整）
+    if (kind === "erc20" && p.contract.trim()) params.contractaddress = p.contract.trim();
+
+    const r = await request(c, p.api, params);
+    if (!r.ok) {
+      const f = failOf(r);
+      return result(f.end, f.message);
+    }
+    if (String(r.status) === "0") {
+      if (NO_RECORDS.test(r.message)) return markDone();
+      const f = statusFail(r);
+      return result(f.end, f.message);
+    }
+    if (!r.result.length) return markDone();
+
+    const { added } = await c.ingest({
+      table,
+      addr: p.addr,
+      mapper,
+      items: r.result,
+      also,
+      accTokens: p.accTokens,
+      countFailed: p.countFailed,
+      nativeSymbol: p.nativeSymbol,
+      hold: !!p.jobId,
+    });
+    count += added;
+    page += 1;
+    c.page({ pages: page, count, added });
+
+    // 推进游标
+    const last = r.result[r.result.length - 1] as { blockNumber?: string } | undefined;
+    const maxBlock = Number(last?.blockNumber || 0);
+    const lastPage = r.result.length < offset;
+    if (!lastPage) {
+      if (added === 0) {
+        safetyNoProgress++;
+        if (safetyNoProgress >= 2) {
+          startBlock = maxBlock + 1;
+          safetyNoProgress = 0;
+        }
+      } else {
+        safetyNoProgress = 0;
+        startBlock = maxBlock;
+      }
+    }
+    if (p.jobId) await c.commit({ table, addr: p.addr, checkpoint: checkpointOf(lastPage) }).catch(() => {});
+    if (lastPage) return result("done");
+
+    await c.pause(pageGap(r.result.length, p.pauseMs));
+  }
+
+  return result(finished ? "done" : "aborted");
+}
+
+/* ========== 出块奖励（getminedblocks）：按页码翻页，本地按区块范围过滤 ========== */
+
+// Etherscan 限制 page × offset ≤ 10000，超出部分无法取得（记一条提示）
+export async function crawlMined(c: CrawlCtx, p: Extract<CrawlParams, { kind: "evm-mined" }>): Promise<CrawlResult> {
+  const kind = "mined";
+  const offset = 1000;
+  const maxPages = 10;
+  let count = 0;
+  let page = 0;
+  let finished = false;
+  const notes: string[] = [];
+  const result = (end: CrawlResult["end"], message = ""): CrawlResult => ({ end, message, count, pages: page, notes });
+
+  // 断点：游标 = 已完成页数
+  if (p.jobId) {
+    const r = await c.restore({ table: "mined", addr: p.addr, jobId: p.jobId, kind }).catch(() => null);
+    if (r?.checkpoint) {
+      count = r.added;
+      page = r.checkpoint.pages;
+      finished = r.checkpoint.done;
+      c.page({ pages: page, count, added: r.added, restored: true });
+    }
+  }
+
+  while (!c.aborted() && !finished) {
+    const r = await request(c, p.api, {
+      module: "account",
+      action: p.action,
+      address: p.addr,
+      blocktype: "blocks",
+      page: String(page + 1),
+      offset: String(offset),
+    });
+    if (!r.ok) {
+      const f = failOf(r);
+      return result(f.end, f.message);
+    }
+    const empty = String(r.status) === "0" && NO_RECORDS.test(r.message);
+    if (String(r.status) === "0" && !empty) {
+      const f = statusFail(r);
+      return result(f.end, f.message);
+    }
+
+    const items = empty ? [] : (r.result as { blockNumber?: string }[]);
+    page += 1;
+    finished = items.length < offset || page >= maxPages;
+    if (items.length >= offset && page >= maxPages) notes.push(`出块记录超过 ${offset * maxPages} 条，超出部分未取得`);
+    const inRange = items.filter((it) => {
+      const b = Number(it?.blockNumber || 0);
+      return b >= p.range.startBlock && b <= p.range.endBlock;
+    });
+    const { added } = await c.ingest({
+      table: "mined",
+      addr: p.addr,
+      mapper: "eth-mined",
+      items: inRange,
+      nativeSymbol: p.nativeSymbol,
+      checkpoint: p.jobId ? { jobId: p.jobId, kind, cursor: {}, done: finished, pages: page } : undefined,
+    });
+    count += added;
+    c.page({ pages: page, count, added });
+    if (finished) break;
+    await c.pause(p.pauseMs);
+  }
+
+  return result(finished ? "done" : "aborted");
+}
+
+/* ========== 持仓条目：原生币 balance + 代币列表 ========== */
+
+const HOLDING_SCAN_PAGES = 10; // tokentx 回退扫描上限：offset 1000 × 10 页（Etherscan 分页上限 1 万条）
+
+type TokenBalanceItem = { TokenQuantity?: string; TokenSymbol?: string; TokenName?: string; TokenAddress?: string; TokenDivisor?: string };
+type TokenTxItem = { contractAddress?: string; tokenSymbol?: string; tokenName?: string; tokenDecimal?: string };
+
+export async function evmHoldings(c: CrawlCtx, p: EvmHoldingsParams): Promise<EvmHoldingsResult> {
+  const ts = Date.now();
+  const items: HoldingItem[] = [];
+  const stop = (end: EvmHoldingsResult["end"], message = ""): EvmHoldingsResult => ({ end, message, items });
+  // Key 缺失 / 失效：整个地址失败
+  const keyFailed = (r: EtherscanReply) => !r.ok && (r.reason === "no-key" || r.reason === "unauthorized");
+
+  const nat = await request(c, p.api, { module: "account", action: "balance", address: p.addr, tag: "latest" });
+  if (keyFailed(nat)) return stop("key", KEY_MESSAGE);
+  if (!nat.ok || String(nat.status) !== "1" || !/^\d+$/.test(nat.errorText || "")) {
+    if (nat.reason === "aborted") return stop("aborted");
+    return stop("error", `余额查询失败：${nat.errorText || nat.message || "未知错误"}`);
+  }
+  items.push({ symbol: p.nativeSymbol, name: p.nativeName, contract: "", raw: nat.errorText as string, decimals: 18, ts });
+
+  // 1) addresstokenbalance（部分入口 / 套餐不支持：status "0" 时回退）
+  let listed = false;
+  for (let page = 1; page <= HOLDING_SCAN_PAGES && !c.aborted(); page++) {
+    const r = await request(c, p.api, { module: "account", action: "addresstokenbalance", address: p.addr, page: String(page), offset: "1000" });
+    if (keyFailed(r)) return stop("key", KEY_MESSAGE);
+    if (!r.ok || String(r.status) !== "1") break;
+    listed = true;
+    for (const t of r.result as TokenBalanceItem[]) {
+      const raw = String(t?.TokenQuantity ?? "0");
+      if (!/^\d+$/.test(raw) || /^0+$/.test(raw)) continue;
+      items.push({
+        symbol: String(t?.TokenSymbol || ""),
+        name: String(t?.TokenName || ""),
+        contract: toChecksumAddress(String(t?.TokenAddress || "")),
+        raw,
+        decimals: Number(t?.TokenDivisor || 0) || 0,
+        ts,
+      });
+    }
+    if (r.result.length < 1000) break;
+  }
+
+  // 2) 回退：tokentx 中出现过的代币，逐个查 tokenbalance
+  if (!listed && !c.aborted()) {
+    const seen = new Map<string, { symbol: string; name: string; decimals: number }>();
+    for (let page = 1; page <= HOLDING_SCAN_PAGES && !c.aborted(); page++) {
+      const r = await request(c, p.api, {
+        module: "account",
+        action: "tokentx",
+        address: p.addr,
+        page: String(page),
+        offset: "1000",
+        sort: "desc",
+        startblock: "0",
+        endblock: FULL_END_BLOCK,
+      });
+      if (keyFailed(r)) return stop("key", KEY_MESSAGE);
+      if (!r.ok || String(r.status) !== "1") break;
+      for (const t of r.result as TokenTxItem[]) {
+        const ca = String(t?.contractAddress || "").toLowerCase();
+        if (ca && !seen.has(ca)) {
+          seen.set(ca, {
+            symbol: String(t?.tokenSymbol || ""),
+            name: String(t?.tokenName || ""),
+            decimals: Number(t?.tokenDecimal || 0) || 0,
+          });
+        }
+      }
+      if (r.result.length < 1000) break;
+    }
+    for (const [ca, meta] of seen) {
+      if (c.aborted()) break;
+      const r = await request(c, p.api, { module: "account", action: "tokenbalance", contractaddress: ca, address: p.addr, tag: "latest" });
+      if (keyFailed(r)) return stop("key", KEY_MESSAGE);
+      const raw = r.ok && String(r.status) === "1" ? String(r.errorText || "") : "";
+      if (!/^\d+$/.test(raw) || /^0+$/.test(raw)) continue;
+      items.push({ ...meta, contract: toChecksumAddress(ca), raw, ts });
+    }
+  }
+  return stop(c.aborted() ? "aborted" : "done");
+}
@@ -0,0 +1,1034 @@
+/* src/workers/rowStore.worker.ts */
+import * as XLSX from "xlsx";
+import {
+  decodeTronAssetName,
+  decodeTrc20Call,
+  formatTime,
+  makeCompositeKey,
+  scaleAmount,
+  toChecksumAddress,
+  tronHexToBase58,
+} from "../shared/utils";
+import type { TronTrc20Item, TronTxItem } from "../shared/apis";
+import { loadCheckpoint, saveCheckpoint } from "../shared/jobStore";
+import { keyPoolState, subscribeKeyPool } from "../shared/keyPool";
+import { createSession, setProviderBudget, specOf, type NetSpec, type SchedulerSession } from "../shared/scheduler";
+import {
+  COUNTERPARTY_DIR,
+  exposureOf,
+  exposureRows,
+  normScreenAddress,
+  SCREEN_KIND_NAMES,
+  type ScreenExposure,
+  type ScreenHitRow,
+} from "../shared/screening";
+import type {
+  AcctAgg,
+  CrawlParams,
+  Cursor,
+  CsvPlan,
+  EvmHoldingsParams,
+  HoldingItem,
+  IngestParams,
+  MapperId,
+  PageCheckpoint,
+  RestoreParams,
+  Row,
+  RowAgg,
+  ScreenParams,
+  ScreenResult,
+  TokenAgg,
+  Trc10Meta,
+  TronFeesParams,
+  TronStatParams,
+  XlsxPlan,
+} from "../shared/rowStore";
+import type { CrawlCtx } from "./crawl";
+import { crawlTronTx, crawlTrc20, tronFees, tronTokenStat } from "./tronCrawl";
+import { crawlCursor, crawlMined, evmHoldings } from "./evmCrawl";
+
+/* =========================
+ * 结果行存储 Worker（两个视图共用一个；数据按 store 隔离）
+ * - tables：表名 → 行数组（按写入顺序）
+ * - seen / aggs：按 (表, 地址) 的去重 Key 与账户聚合；held：等待 commit 的本页
+ * - 每次变更后广播该 store 各表行数；导出逐文件回传 Blob
+ * - 调度会话按 (store, Provider) 创建；令牌桶 / 熔断 / Key 池按 Provider 在 Worker 内共享，Key 状态推送给主线程展示
+ * ========================= */
+
+type Times = { firstTs?: number; lastTs?: number; lastOutTs?: number };
+
+// 单个代币的累计：金额用 BigInt，对手地址用 Set（小写）
+type TokenAcc = Times & {
+  symbol: string;
+  decimals: number;
+  contract: string;
+  inRaw: bigint;
+  outRaw: bigint;
+  inCount: number;
+  outCount: number;
+  inAddr: Set<string>;
+  outAddr: Set<string>;
+};
+
+// fee：本地址作为发起方付出的交易手续费（原生币最小单位）
+type Agg = { tokens: Map<string, TokenAcc>; feeRaw: bigint; feeCount: number };
+
+const ctx = self as unknown as {
+  postMessage: (msg: unknown) => void;
+  onmessage: ((ev: MessageEvent) => void) | null;
+};
+
+// 每个视图一个 store；epochs 为表版本：clear 会改动已有行，版本 +1 让展示端丢弃缓存的行窗口
+type Store = {
+  id: number;
+  tables: Map<string, Row[]>;
+  seen: Map<string, Set<string>>;
+  aggs: Map<string, Agg>;
+  held: Map<string, { rows: Row[]; keys: string[] }>;
+  epochs: Map<string, number>;
+};
+
+const stores = new Map<number, Store>();
+
+function storeOf(id: number): Store {
+  let st = stores.get(id);
+  if (!st) {
+    st = { id, tables: new Map(), seen: new Map(), aggs: new Map(), held: new Map(), epochs: new Map() };
+    stores.set(id, st);
+  }
+  return st;
+}
+
+function scope(table: string, addr: string) {
+  return `${table}|${addr}`;
+}
+
+function tableOf(st: Store, name: string): Row[] {
+  let t = st.tables.get(name);
+  if (!t) {
+    t = [];
+    st.tables.set(name, t);
+  }
+  return t;
+}
+
+function seenOf(st: Store, table: string, addr: string): Set<string> {
+  const k = scope(table, addr);
+  let s = st.seen.get(k);
+  if (!s) {
+    s = new Set();
+    st.seen.set(k, s);
+  }
+  return s;
+}
+
+function aggOf(st: Store, table: string, addr: string): Agg {
+  const k = scope(table, addr);
+  let a = st.aggs.get(k);
+  if (!a) {
+    a = { tokens: new Map(), feeRaw: 0n, feeCount: 0 };
+    st.aggs.set(k, a);
+  }
+  return a;
+}
+
+function tokenSnapshot(t: TokenAcc): TokenAgg {
+  return {
+    symbol: t.symbol,
+    decimals: t.decimals,
+    contract: t.contract,
+    inRaw: t.inRaw.toString(),
+    outRaw: t.outRaw.toString(),
+    inCount: t.inCount,
+    outCount: t.outCount,
+    inAddrCount: t.inAddr.size,
+    outAddrCount: t.outAddr.size,
+    firstTs: t.firstTs,
+    lastTs: t.lastTs,
+    lastOutTs: t.lastOutTs,
+  };
+}
+
+function aggSnapshot(a: Agg): RowAgg {
+  const tokens: Record<string, TokenAgg> = {};
+  a.tokens.forEach((t, k) => (tokens[k] = tokenSnapshot(t)));
+  return { tokens, feeRaw: a.feeRaw.toString(), feeCount: a.feeCount };
+}
+
+// 断点游标里的聚合量（BigInt 转字符串、Set 转数组以便 JSON 化）
+type TokenCursor = TokenAgg & { inAddr: string[]; outAddr: string[] };
+type AggCursor = { tokens: Record<string, TokenCursor>; feeRaw: string; feeCount: number };
+
+function aggToCursor(a: Agg): AggCursor {
+  const tokens: Record<string, TokenCursor> = {};
+  a.tokens.forEach((t, k) => (tokens[k] = { ...tokenSnapshot(t), inAddr: [...t.inAddr], outAddr: [...t.outAddr] }));
+  return { tokens, feeRaw: a.feeRaw.toString(), feeCount: a.feeCount };
+}
+
+// 旧断点可能缺字段：按缺省值恢复
+function aggFromCursor(a: Agg, cursor: unknown) {
+  const c = cursor as Partial<AggCursor> | null | undefined;
+  if (!c) return;
+  a.tokens.clear();
+  a.feeRaw = toBig(c.feeRaw);
+  a.feeCount = Number(c.feeCount || 0);
+  for (const [k, t] of Object.entries<Partial<TokenCursor>>(c.tokens || {})) {
+    a.tokens.set(k, {
+      symbol: String(t.symbol || ""),
+      decimals: Number(t.decimals || 0),
+      contract: String(t.contract || ""),
+      inRaw: toBig(t.inRaw),
+      outRaw: toBig(t.outRaw),
+      inCount: Number(t.inCount || 0),
+      outCount: Number(t.outCount || 0),
+      inAddr: new Set(t.inAddr || []),
+      outAddr: new Set(t.outAddr || []),
+      firstTs: t.firstTs ?? undefined,
+      lastTs: t.lastTs ?? undefined,
+      lastOutTs: t.lastOutTs ?? undefined,
+    });
+  }
+}
+
+function toBig(v: unknown): bigint {
+  try {
+    return BigInt(String(v ?? "0") || "0");
+  } catch {
+    return 0n;
+  }
+}
+
+function touchTimes(a: Times, ts: number, isOut: boolean) {
+  if (!ts) return;
+  if (a.firstTs === undefined || ts < a.firstTs) a.firstTs = ts;
+  if (a.lastTs === undefined || ts > a.lastTs) a.lastTs = ts;
+  if (isOut && (a.lastOutTs === undefined || ts > a.lastOutTs)) a.lastOutTs = ts;
+}
+
+/** 记一笔代币流水：按 from/to 与本地址比较定方向（自转同时计入流入与流出，余额不变） */
+function addFlow(
+  a: Agg,
+  key: string,
+  meta: { symbol: string; decimals: number; contract: string },
+  addr: string,
+  from: string,
+  to: string,
+  raw: bigint,
+  ts: number
+) {
+  const me = addr.toLowerCase();
+  const f = from.toLowerCase();
+  const t = to.toLowerCase();
+  const isIn = t === me;
+  const isOut = f === me;
+  if (!isIn && !isOut) return;
+  let tk = a.tokens.get(key);
+  if (!tk) {
+    tk = { ...meta, inRaw: 0n, outRaw: 0n, inCount: 0, outCount: 0, inAddr: new Set(), outAddr: new Set() };
+    a.tokens.set(key, tk);
+  }
+  touchTimes(tk, ts, isOut);
+  if (isIn) {
+    tk.inRaw += raw;
+    tk.inCount += 1;
+    if (f) tk.inAddr.add(f);
+  }
+  if (isOut) {
+    tk.outRaw += raw;
+    tk.outCount += 1;
+    if (t) tk.outAddr.add(t);
+  }
+}
+
+/** 记一笔手续费：只有本地址发起的交易由本地址付费 */
+function addFee(a: Agg, addr: string, from: string, raw: bigint) {
+  if (from.toLowerCase() !== addr.toLowerCase()) return;
+  a.feeRaw += raw;
+  a.feeCount += 1;
+}
+
+function broadcastCounts(st: Store) {
+  const counts: Record<string, number> = {};
+  const versions: Record<string, number> = {};
+  st.tables.forEach((rows, name) => {
+    counts[name] = rows.length;
+    versions[name] = st.epochs.get(name) || 0;
+  });
+  ctx.postMessage({ event: "counts", store: st.id, counts, epochs: versions });
+}
+
+/* ========== 原始条目 → 行 ========== */
+
+// TRC20 代币精度 / 符号（合约 Base58 → 元数据）：预置 USDT，其余从 TRC20 转账的 token_info 中学习，
+// 供交易表解码 TriggerSmartContract 时缩放数量；未知合约的数量保留原始单位
+const tronTokens = new Map<string, { symbol: string; decimals: number }>([
+  ["TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t", { symbol: "USDT", decimals: 6 }],
+]);
+
+type Mapped = { key: string; row: Row; onNew?: (a: Agg) => void } | null;
+
+// TRON 交易结果：SUCCESS 原样保留，其余（REVERT / OUT_OF_ENERGY / REJECTED …）标记为失败
+function tronStatus(ret: string): string {
+  return !ret || ret === "SUCCESS" ? ret : `失败（${ret}）`;
+}
+
+// TRC10 元数据（代币 ID → 名称 / 精度），由交易翻页随 ingest 传入
+const trc10Meta = new Map<string, Trc10Meta>();
+
+/* —— TRX / TRC10 转账台账：一条交易可能拆成多行（内部交易的 call_value 可含多种代币） —— */
+function mapLedger(addr: string, it: TronTxItem): Mapped[] {
+  const direction = (from: string, to: string) =>
+    from === addr && to === addr ? "自转" : to === addr ? "转入" : from === addr ? "转出" : "";
+  const ledgerRow = (o: {
+    hash: string;
+    source: string;
+    from: string;
+    to: string;
+    raw: string;
+    tokenId: string;
+    status: string;
+    ts: number;
+  }) => {
+    // "_" 或空 = TRX（6 位精度）；其余为 TRC10 代币 ID
+    const isTrx = !o.tokenId || o.tokenId === "_";
+    const meta = isTrx ? undefined : trc10Meta.get(o.tokenId);
+    return {
+      地址: addr,
+      哈希: o.hash,
+      来源: o.source,
+      方向: direction(o.from, o.to),
+      对方地址: o.to === addr ? o.from : o.to,
+      发起地址: o.from,
+      接收地址: o.to,
+      数量: isTrx ? scaleAmount(o.raw, 6) : meta ? scaleAmount(o.raw, meta.precision) : o.raw,
+      代币: isTrx ? "TRX" : meta ? meta.abbr || meta.name : `TRC10#${o.tokenId}`,
+      代币ID: isTrx ? "" : o.tokenId,
+      代币名称: isTrx ? "Tronix" : meta?.name || "",
+      状态: tronStatus(o.status),
+      时间: o.ts ? formatTime(o.ts) : "",
+    };
+  };
+
+  // 内部交易（search_internal=true 时与普通交易混在 data 中）
+  if (it?.internal_tx_id) {
+    const from = tronHexToBase58(it?.from_address || "");
+    const to = tronHexToBase58(it?.to_address || "");
+    const ts = Number(it?.block_timestamp || 0);
+    const status = it?.data?.rejected ? "REJECTED" : "SUCCESS";
+    const cv = it?.data?.call_value || {};
+    const out: Mapped[] = [];
+    for (const [tokenKey, raw] of Object.entries(cv)) {
+      if (!raw || String(raw) === "0") continue;
+      const tokenId = tokenKey === "_" ? "" : decodeTronAssetName(tokenKey);
+      out.push({
+        key: `${it.internal_tx_id}:${tokenKey}`,
+        row: ledgerRow({ hash: String(it?.tx_id || ""), source: "内部交易", from, to, raw: String(raw), tokenId, status, ts }),
+      });
+    }
+    return out;
+  }
+
+  // 普通交易：只取 TRX 转账 / TRC10 转账
+  const txid = String(it?.txID || "");
+  const c0 = it?.raw_data?.contract?.[0] || {};
+  const type = String(c0?.type || "");
+  if (!txid || (type !== "TransferContract" && type !== "TransferAssetContract")) return [];
+  const val = c0?.parameter?.value || {};
+  const isAsset = type === "TransferAssetContract";
+  return [
+    {
+      key: txid,
+      row: ledgerRow({
+        hash: txid,
+        source: isAsset ? "TRC10 转账" : "TRX 转账",
+        from: tronHexToBase58(val?.owner_address || ""),
+        to: tronHexToBase58(val?.to_address || ""),
+        raw: String(val?.amount ?? "0"),
+        tokenId: isAsset ? decodeTronAssetName(val?.asset_name || "") : "",
+        status: it?.ret?.[0]?.contractRet || "",
+        ts: Number(it?.block_timestamp || 0),
+      }),
+    },
+  ];
+}
+
+// EVM 交易手续费 = gasUsed × gasPrice（wei；L2 的 L1 数据费不含在内）
+type GasFields = { gasUsed?: string; gasPrice?: string };
+function gasWeiOf(it: GasFields): bigint {
+  return toBig(it?.gasUsed) * toBig(it?.gasPrice);
+}
+function gasFeeOf(it: GasFields): string {
+  return it?.gasUsed != null && it?.gasPrice != null ? scaleAmount(gasWeiOf(it).toString(), 18) : "";
+}
+
+// 外部交易：isError=1 或 txreceipt_status=0（拜占庭升级后）为失败；内部交易只有 isError
+function evmFailed(it: { isError?: string; txreceipt_status?: string }): boolean {
+  return String(it?.isError ?? "0") === "1" || String(it?.txreceipt_status ?? "") === "0";
+}
+
+// Etherscan 兼容接口的条目：字段都是字符串
+type EtherscanItem = Partial<Record<string, string>>;
+
+function mapItem(
+  mapper: MapperId,
+  addr: string,
+  raw: unknown,
+  accTokens: Set<string>,
+  nativeSymbol: string,
+  countFailed: boolean
+): Mapped {
+  const native = { symbol: nativeSymbol, decimals: 18, contract: "" };
+  switch (mapper) {
+    case "tron-trc20": {
+      const it = raw as TronTrc20Item;
+      if (it?.type === "Approval") return null;
+      const ti = it?.token_info || {};
+      const dec = Number(ti?.decimals || 0) || 0;
+      const id = String(it?.transaction_id || "");
+      const from = it?.from || "";
+      const to = it?.to || "";
+      const rawVal = String(it?.value ?? "0");
+      const symbol = ti?.symbol || "";
+      const ts = Number(it?.block_timestamp || 0);
+      if (ti?.address && symbol) tronTokens.set(tronHexToBase58(ti.address), { symbol, decimals: dec });
+      const key = makeCompositeKey({
+        transaction_id: id,
+        from,
+        to,
+        value: rawVal,
+        decimals: dec,
+        symbol,
+        block_timestamp: ts,
+        token_address: ti?.address || "",
+      });
+      return {
+        key,
+        row: {
+          地址: addr,
+          哈希: id,
+          发起地址: tronHexToBase58(from),
+          接收地址: tronHexToBase58(to),
+          数量: scaleAmount(rawVal, dec),
+          代币: symbol,
+          时间: formatTime(ts),
+        },
+      };
+    }
+    case "tron-tx": {
+      const it = raw as TronTxItem;
+      const txid: string = String(it?.txID || it?.transaction_id || "");
+      if (!txid) return null;
+      const ts = Number(it?.block_timestamp || 0);
+      const ret = it?.ret?.[0]?.contractRet || "";
+      const c0 = it?.raw_data?.contract?.[0] || {};
+      const type: string =
+        String(c0?.type || "") || String(c0?.parameter?.type_url || "").split(".").pop() || "";
+      const val = c0?.parameter?.value || {};
+      const amountSun: string | number | undefined = val?.amount ?? val?.call_value ?? undefined;
+      // 合约调用：解码 transfer / transferFrom / approve，给出真实的代币收款方（approve 为被授权方）与数量
+      const target = tronHexToBase58(val?.to_address || val?.contract_address || "");
+      const call = type === "TriggerSmartContract" ? decodeTrc20Call(val?.data || "") : null;
+      const token = call ? tronTokens.get(target) : undefined;
+      // 费用（sun）：ret[0].fee 为总手续费（含能量费、带宽费与激活账户等固定费用），缺省时用 energy_fee + net_fee
+      const energyFee = toBig(it?.energy_fee);
+      const netFee = toBig(it?.net_fee);
+      const fee = it?.ret?.[0]?.fee != null ? toBig(it.ret[0].fee) : energyFee + netFee;
+      return {
+        key: txid,
+        row: {
+          地址: addr,
+          哈希: txid,
+          类型: type,
+          发起地址: tronHexToBase58(val?.owner_address || ""),
+          接收地址: target,
+          金额TRX: amountSun != null ? scaleAmount(String(amountSun), 6) : "",
+          调用方法: call?.method || "",
+          代币转出地址: call && call.method !== "approve" ? call.from || tronHexToBase58(val?.owner_address || "") : "",
+          代币接收地址: call?.to || "",
+          代币数量: call ? (token ? scaleAmount(call.amount, token.decimals) : call.amount) : "",
+          代币: call ? token?.symbol || "原始单位" : "",
+          状态: tronStatus(ret),
+          手续费TRX: scaleAmount(fee.toString(), 6),
+          能量消耗: String(it?.energy_usage_total ?? it?.energy_usage ?? 0),
+          能量费TRX: scaleAmount(energyFee.toString(), 6),
+          带宽费TRX: scaleAmount(netFee.toString(), 6),
+          时间: ts ? formatTime(ts) : "",
+        },
+        onNew: (a) => addFee(a, addr, tronHexToBase58(val?.owner_address || ""), fee),
+      };
+    }
+    case "eth-erc20": {
+      const it = raw as EtherscanItem;
+      const id = String(it?.hash || "");
+      const from = String(it?.from || "");
+      const to = String(it?.to || "");
+      const rawVal = String(it?.value ?? "0");
+      const dec = Number(it?.tokenDecimal || 0) || 0;
+      const symbol = String(it?.tokenSymbol || "");
+      const ts = Number(it?.timeStamp ? Number(it.timeStamp) * 1000 : 0);
+      const tokenAddr = String(it?.contractAddress || "");
+      const key = makeCompositeKey({
+        transaction_id: id,
+        from,
+        to,
+        value: rawVal,
+        decimals: dec,
+        symbol,
+        block_timestamp: ts,
+        token_address: tokenAddr,
+      });
+      const scaled = scaleAmount(rawVal, dec);
+      return {
+        key,
+        row: {
+          地址: toChecksumAddress(addr),
+          哈希: id,
+          转入地址: toChecksumAddress(from),
+          转出地址: toChecksumAddress(to),
+          数量: scaled,
+          代币: symbol,
+          合约: tokenAddr ? toChecksumAddress(tokenAddr) : "",
+          时间: formatTime(ts),
+          手续费: gasFeeOf(it),
+          // 代币转账来自事件日志，回滚的交易不会产生
+          状态: "成功",
+        },
+        // —— 账户情况（仅统计 accTokens 中的合约；按合约区分，仿冒同名代币不会混入） —— //
+        onNew: (a) => {
+          const k = tokenAddr.toLowerCase();
+          if (!accTokens.has(k)) return;
+          addFlow(a, k, { symbol, decimals: dec, contract: tokenAddr }, addr, from, to, toBig(rawVal), ts);
+        },
+      };
+    }
+    case "eth-normal":
+    case "eth-internal": {
+      const it = raw as EtherscanItem;
+      const id = String(it?.hash || "");
+      const from = String(it?.from || "");
+      const to = String(it?.to || "");
+      const rawVal = String(it?.value ?? "0");
+      const ts = Number(it?.timeStamp ? Number(it.timeStamp) * 1000 : 0);
+      const failed = evmFailed(it);
+      const key = makeCompositeKey({
+        transaction_id: id,
+        from,
+        to,
+        value: rawVal,
+        decimals: 18,
+        symbol: nativeSymbol,
+        block_timestamp: ts,
+        token_address: "",
+      });
+      return {
+        key,
+        row: {
+          地址: toChecksumAddress(addr),
+          哈希: id,
+          转入地址: toChecksumAddress(from),
+          转出地址: toChecksumAddress(to),
+          数量: scaleAmount(rawVal, 18),
+          代币: nativeSymbol,
+          时间: formatTime(ts),
+          手续费: mapper === "eth-normal" ? gasFeeOf(it) : "",
+          状态: failed ? `失败${it?.errCode ? `（${it.errCode}）` : ""}` : "成功",
+        },
+        // 原生币流入/流出（失败交易的金额未转移，缺省不计入）；手续费失败也照付，只按外部交易计（内部交易没有单独的 Gas 费用）
+        onNew: (a) => {
+          if (mapper === "eth-normal") addFee(a, addr, from, gasWeiOf(it));
+          if (failed && !countFailed) return;
+          addFlow(a, "native", native, addr, from, to, toBig(rawVal), ts);
+        },
+      };
+    }
+    case "eth-beacon":
+    case "eth-mined": {
+      const it = raw as EtherscanItem;
+      // 信标链提款：amount 单位为 Gwei；出块奖励：blockReward 单位为 wei。二者都只有流入
+      const isBeacon = mapper === "eth-beacon";
+      const block = String(it?.blockNumber ?? "");
+      const ts = Number(it?.timestamp ?? it?.timeStamp ?? 0) * 1000;
+      // 统一换算为 wei
+      const wei = isBeacon ? toBig(it?.amount) * 1_000_000_000n : toBig(it?.blockReward);
+      const amount = scaleAmount(wei.toString(), 18);
+      const ref = isBeacon ? `withdrawal:${it?.withdrawalIndex ?? ""}` : `block:${block}`;
+      if (ref.endsWith(":")) return null;
+      return {
+        key: ref,
+        row: {
+          地址: toChecksumAddress(addr),
+          类型: isBeacon ? "信标链提款" : "出块奖励",
+          区块: block,
+          验证者索引: isBeacon ? String(it?.validatorIndex ?? "") : "",
+          提款索引: isBeacon ? String(it?.withdrawalIndex ?? "") : "",
+          数量: amount,
+          代币: nativeSymbol,
+          时间: ts ? formatTime(ts) : "",
+        },
+        onNew: (a) => addFlow(a, "native", native, addr, "", addr, wei, ts),
+      };
+    }
+    case "eth-erc721":
+    case "eth-erc1155": {
+      const it = raw as EtherscanItem;
+      // tokennfttx 每条即 1 个 Token；token1155tx 的数量在 tokenValue
+      const is1155 = mapper === "eth-erc1155";
+      const id = String(it?.hash || "");
+      const from = String(it?.from || "");
+      const to = String(it?.to || "");
+      const tokenId = String(it?.tokenID ?? "");
+      const qty = is1155 ? String(it?.tokenValue ?? "0") : "1";
+      const ts = Number(it?.timeStamp ? Number(it.timeStamp) * 1000 : 0);
+      const tokenAddr = String(it?.contractAddress || "");
+      const key = makeCompositeKey({
+        transaction_id: id,
+        from,
+        to,
+        value: `${tokenId}:${qty}`,
+        decimals: 0,
+        symbol: is1155 ? "ERC1155" : "ERC721",
+        block_timestamp: ts,
+        token_address: tokenAddr,
+      });
+      return {
+        key,
+        row: {
+          地址: toChecksumAddress(addr),
+          哈希: id,
+          标准: is1155 ? "ERC-1155" : "ERC-721",
+          转入地址: toChecksumAddress(from),
+          转出地址: toChecksumAddress(to),
+          藏品: String(it?.tokenName || ""),
+          代币: String(it?.tokenSymbol || ""),
+          合约: toChecksumAddress(tokenAddr),
+          TokenID: tokenId,
+          数量: qty,
+          时间: formatTime(ts),
+        },
+      };
+    }
+    case "holding": {
+      // 持仓快照：每个 地址 × 代币 一行（重新查询前由视图清空该地址）
+      const h = raw as HoldingItem;
+      const amount = scaleAmount(String(h?.raw ?? "0"), Number(h?.decimals || 0));
+      const usd = typeof h?.usd === "number" ? h.usd : null;
+      return {
+        key: (h?.contract || "native").toLowerCase(),
+        row: {
+          地址: addr.startsWith("0x") ? toChecksumAddress(addr) : addr,
+          代币: h?.symbol || "",
+          代币名称: h?.name || "",
+          合约: h?.contract || "",
+          数量: amount,
+          "单价(USD)": usd === null ? "" : String(usd),
+          "价值(USD)": usd === null ? "" : (Number(amount) * usd).toFixed(2),
+          快照时间: h?.ts ? formatTime(h.ts) : "",
+        },
+      };
+    }
+  }
+  return null;
+}
+
+/* ========== 操作 ========== */
+
+async function ingest(st: Store, p: IngestParams) {
+  const rows = tableOf(st, p.table);
+  const keys = seenOf(st, p.table, p.addr);
+  const agg = aggOf(st, p.table, p.addr);
+  const pageRows: Row[] = [];
+  const pageKeys: string[] = [];
+  for (const [id, meta] of Object.entries(p.trc10 || {})) trc10Meta.set(id, meta);
+  const accTokens = new Set((p.accTokens || []).map((c) => c.toLowerCase()));
+  for (const it of p.items || []) {
+    const ms =
+      p.mapper === "tron-ledger"
+        ? mapLedger(p.addr, it as TronTxItem)
+        : [mapItem(p.mapper, p.addr, it, accTokens, p.nativeSymbol || "ETH", !!p.countFailed)];
+    for (const m of ms) {
+      if (!m || keys.has(m.key)) continue;
+      keys.add(m.key);
+      pageKeys.push(m.key);
+      pageRows.push(m.row);
+      m.onNew?.(agg);
+    }
+  }
+  for (const r of pageRows) rows.push(r);
+  for (const t of p.also || []) {
+    const extra = tableOf(st, t);
+    for (const r of pageRows) extra.push(r);
+  }
+  if (p.checkpoint) await writeCheckpoint(p.addr, agg, p.checkpoint, pageRows, pageKeys);
+  else if (p.hold) st.held.set(scope(p.table, p.addr), { rows: pageRows, keys: pageKeys });
+  if (pageRows.length) broadcastCounts(st);
+  return { added: pageRows.length, agg: aggSnapshot(agg) };
+}
+
+function writeCheckpoint(addr: string, agg: Agg, c: PageCheckpoint, rows: Row[], keys: string[]) {
+  // 游标与聚合量一起落盘；字符串游标（TronGrid 下一页 URL）放在 url 字段
+  const base = typeof c.cursor === "string" ? { url: c.cursor } : c.cursor || {};
+  const cp = { cursor: { ...base, agg: aggToCursor(agg) }, done: c.done, pages: c.pages };
+  return saveCheckpoint(c.jobId, addr, c.kind, cp, rows, keys).catch(() => {});
+}
+
+async function commit(st: Store, p: { table: string; addr: string; checkpoint: PageCheckpoint }) {
+  const k = scope(p.table, p.addr);
+  const page = st.held.get(k) || { rows: [], keys: [] };
+  st.held.delete(k);
+  await writeCheckpoint(p.addr, aggOf(st, p.table, p.addr), p.checkpoint, page.rows, page.keys);
+}
+
+async function restore(st: Store, p: RestoreParams) {
+  const agg = aggOf(st, p.table, p.addr);
+  const cp = await loadCheckpoint(p.jobId, p.addr, p.kind).catch(() => null);
+  if (!cp) return { checkpoint: null, added: 0, agg: aggSnapshot(agg) };
+  const keys = seenOf(st, p.table, p.addr);
+  for (const k of cp.keys) keys.add(k);
+  for (const t of [p.table, ...(p.also || [])]) {
+    const rows = tableOf(st, t);
+    for (const r of cp.rows) rows.push(r as Row);
+  }
+  const { agg: aggCursor, url, ...rest } = (cp.checkpoint.cursor || {}) as { agg?: unknown; url?: unknown };
+  aggFromCursor(agg, aggCursor);
+  const cursor: Cursor = typeof url === "string" ? url : rest;
+  if (cp.rows.length) broadcastCounts(st);
+  return {
+    checkpoint: { ...cp.checkpoint, cursor },
+    added: cp.rows.length,
+    agg: aggSnapshot(agg),
+  };
+}
+
+function clear(st: Store, p: { tables?: string[]; addr?: string }) {
+  const names = p.tables?.length ? p.tables : [...st.tables.keys()];
+  for (const name of names) {
+    st.epochs.set(name, (st.epochs.get(name) || 0) + 1);
+    if (p.addr) {
+      // 行里的地址可能已格式化（EVM 为校验和大小写），与输入按归一地址比较
+      const addr = normScreenAddress(p.addr);
+      const mine = (k: string) => k.startsWith(`${name}|`) && normScreenAddress(k.slice(name.length + 1)) === addr;
+      st.tables.set(name, tableOf(st, name).filter((r) => normScreenAddress(r.地址) !== addr));
+      for (const m of [st.seen, st.aggs, st.held]) for (const k of [...m.keys()]) if (mine(k)) m.delete(k);
+    } else {
+      st.tables.set(name, []);
+      for (const m of [st.seen, st.aggs, st.held]) for (const k of [...m.keys()]) if (k.startsWith(`${name}|`)) m.delete(k);
+    }
+  }
+  broadcastCounts(st);
+}
+
+// 账户统计：各表的聚合按地址合并（金额 BigInt 相加，对手地址取并集）
+function acctStats(st: Store, p: { tables: string[]; addr?: string }) {
+  const merged = new Map<string, { agg: Agg; parts: AcctAgg["parts"] }>();
+  for (const table of p.tables) {
+    st.aggs.forEach((a, k) => {
+      if (!k.startsWith(`${table}|`)) return;
+      const addr = k.slice(table.length + 1);
+      if (p.addr !== undefined && addr !== p.addr) return;
+      let m = merged.get(addr);
+      if (!m) {
+        m = { agg: { tokens: new Map(), feeRaw: 0n, feeCount: 0 }, parts: {} };
+        merged.set(addr, m);
+      }
+      const into = m.agg;
+      into.feeRaw += a.feeRaw;
+      into.feeCount += a.feeCount;
+      a.tokens.forEach((t, key) => {
+        let tk = into.tokens.get(key);
+        if (!tk) {
+          tk = { ...t, inRaw: 0n, outRaw: 0n, inCount: 0, outCount: 0, inAddr: new Set(), outAddr: new Set() };
+          tk.firstTs = tk.lastTs = tk.lastOutTs = undefined;
+          into.tokens.set(key, tk);
+        }
+        tk.inRaw += t.inRaw;
+        tk.outRaw += t.outRaw;
+        tk.inCount += t.inCount;
+        tk.outCount += t.outCount;
+        t.inAddr.forEach((x) => tk.inAddr.add(x));
+        t.outAddr.forEach((x) => tk.outAddr.add(x));
+        if (t.firstTs !== undefined) touchTimes(tk, t.firstTs, false);
+        if (t.lastTs !== undefined) touchTimes(tk, t.lastTs, false);
+        if (t.lastOutTs !== undefined) touchTimes(tk, t.lastOutTs, true);
+        (m.parts[table] ||= {})[key] = { inRaw: t.inRaw.toString(), outRaw: t.outRaw.toString() };
+      });
+    });
+  }
+  const out: Record<string, AcctAgg> = {};
+  merged.forEach((m, addr) => (out[addr] = { ...aggSnapshot(m.agg), parts: m.parts }));
+  return out;
+}
+
+function chunk<T>(arr: T[], size: number): T[][] {
+  if (size <= 0) return [arr];
+  const out: T[][] = [];
+  for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
+  return out;
+}
+
+/* ========== 名单筛查 ========== */
+
+// 逐行比对对手地址列（同一行里重复出现的地址只记一次），按查询地址累计一跳命中；直接命中按 addresses 逐个查
+function screen(st: Store, p: ScreenParams): ScreenResult {
+  const hops = new Map<string, { addr: string; ins: Set<string>; outs: Set<string> }>();
+  const hopRows: ScreenHitRow[] = [];
+  for (const { table, name } of p.tables) {
+    for (const r of tableOf(st, table)) {
+      const self = normScreenAddress(r.地址);
+      const done = new Set<string>();
+      for (const [col, fixed] of Object.entries(COUNTERPARTY_DIR)) {
+        const v = String(r[col] || "");
+        const k = normScreenAddress(v);
+        if (!k || k === self || done.has(k)) continue;
+        done.add(k);
+        const hits = p.index[k];
+        if (!hits?.length) continue;
+        const dir = fixed ?? (r.方向 === "转出" ? "转出" : "转入");
+        let h = hops.get(self);
+        if (!h) hops.set(self, (h = { addr: r.地址, ins: new Set(), outs: new Set() }));
+        (dir === "转入" ? h.ins : h.outs).add(v);
+        for (const x of hits) {
+          hopRows.push({
+            查询地址: r.地址,
+            命中方式: `一跳（${dir}）`,
+            命中地址: v,
+            名单: x.list,
+            名单类型: SCREEN_KIND_NAMES[x.kind],
+            备注: x.note,
+            来源表: name,
+            哈希: r.哈希 || "-",
+            时间: r.时间 || "-",
+          });
+        }
+      }
+    }
+  }
+  const exposure: Record<string, ScreenExposure> = {};
+  const directRows: ScreenHitRow[] = [];
+  const addrs = new Map<string, string>(p.addresses.map((a) => [normScreenAddress(a), a]));
+  hops.forEach((h, k) => addrs.has(k) || addrs.set(k, h.addr));
+  addrs.forEach((a, k) => {
+    const h = hops.get(k);
+    const e = exposureOf(p.index, a, h?.ins ?? [], h?.outs ?? []);
+    exposure[k] = e;
+    directRows.push(...exposureRows(a, { direct: e.direct, hop: [] }, "查询地址"));
+  });
+  return { hits: [...directRows, ...hopRows], exposure };
+}
+
+// 未命中时也输出一行，注明筛查了哪些名单
+function screenSheetRows(st: Store, p: ScreenParams): object[] {
+  const { hits } = screen(st, p);
+  return hits.length ? hits : [{ 结果: `未命中（已筛查：${p.lists.join(", ") || "无名单"}）` }];
+}
+
+/* ========== 导出 ========== */
+
+// 对手地址列：导出时在其后插入 "<列名>标签"
+function withLabels(rows: Row[], labels?: Record<string, string>): Row[] {
+  if (!labels || !Object.keys(labels).length) return rows;
+  return rows.map((r) => {
+    const out: Row = {};
+    for (const [k, v] of Object.entries(r)) {
+      out[k] = v;
+      if (!(k in COUNTERPARTY_DIR)) continue;
+      // 与 labelStore 的归一一致：EVM 小写
+      const a = String(v || "");
+      out[`${k}标签`] = (a && labels[/^0x/i.test(a) ? a.toLowerCase() : a]) || "";
+    }
+    return out;
+  });
+}
+
+// 名称模板：含占位符则替换；不含且有多片时追加后缀
+function fillName(tpl: string, token: string, n: number, multiple: boolean, suffix: string): string {
+  if (tpl.includes(token)) return tpl.split(token).join(String(n));
+  return multiple ? `${tpl}${suffix}${n}` : tpl;
+}
+
+function exportXlsx(st: Store, id: number, plan: XlsxPlan) {
+  const chunked = plan.tables.map((t) => ({ ...t, parts: chunk(tableOf(st, t.table), plan.chunkRows) }));
+  const maxParts = Math.max(0, ...chunked.map((t) => t.parts.length));
+  const totalSheets = chunked.reduce((n, t) => n + t.parts.length, 0);
+  const wbCount = Math.max(1, Math.ceil(maxParts / plan.maxSheetsPerWb));
+  // 以“生成 sheet”为步进，写文件时也算一步
+  const total = totalSheets + wbCount;
+  let done = 0;
+  const tick = () => ctx.postMessage({ event: "progress", id, done: ++done, total });
+
+  for (let w = 0; w < wbCount; w++) {
+    const wb = XLSX.utils.book_new();
+    const from = w * plan.maxSheetsPerWb;
+    for (const t of chunked) {
+      const slice = t.parts.slice(from, from + plan.maxSheetsPerWb);
+      slice.forEach((part, idx) => {
+        const name = fillName(t.sheetName, "{n}", from + idx + 1, t.parts.length > 1, "_");
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(withLabels(part, plan.labels)), name);
+        tick();
+      });
+    }
+    if (w === 0) {
+      for (const extra of plan.extraSheets || []) {
+        if (extra.rows.length) XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(extra.rows), extra.name);
+      }
+      if (plan.screen) XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(screenSheetRows(st, plan.screen)), "命中名单");
+    }
+    if (!wb.SheetNames.length) XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet([]), "Empty");
+    const buf = XLSX.write(wb, { bookType: "xlsx", type: "array", bookSST: false, compression: true });
+    const blob = new Blob([buf], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
+    const name = `${fillName(plan.fileName, "{n}", w + 1, wbCount > 1, "_Part")}.xlsx`;
+    ctx.postMessage({ event: "file", id, name, blob });
+    tick(); // 写文件完成也记一步
+  }
+}
+
+function exportCsv(st: Store, id: number, plan: CsvPlan) {
+  const chunked = plan.tables.map((t) => ({ ...t, parts: chunk(tableOf(st, t.table), plan.chunkRows) }));
+  const total = chunked.reduce((n, t) => n + t.parts.length, 0);
+  let done = 0;
+  for (const t of chunked) {
+    t.parts.forEach((part, i) => {
+      const csv = XLSX.utils.sheet_to_csv(XLSX.utils.json_to_sheet(withLabels(part, plan.labels)));
+      const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+      const name = `${fillName(t.fileName, "{p}", i + 1, t.parts.length > 1, "_p")}.csv`;
+      ctx.postMessage({ event: "file", id, name, blob });
+      ctx.postMessage({ event: "progress", id, done: ++done, total });
+    });
+  }
+  if (plan.screen) {
+    const csv = XLSX.utils.sheet_to_csv(XLSX.utils.json_to_sheet(screenSheetRows(st, plan.screen)));
+    ctx.postMessage({ event: "file", id, name: `${plan.screen.fileName}.csv`, blob: new Blob([csv], { type: "text/csv;charset=utf-8;" }) });
+  }
+}
+
+/* ========== 调度会话与翻页抓取 ========== */
+
+// 会话按 (store, Provider)：视图“停止”只中止自己的请求
+const sessions = new Map<string, SchedulerSession>();
+
+function sessionOf(st: Store, provider: string): SchedulerSession {
+  const k = `${st.id}|${provider}`;
+  let s = sessions.get(k);
+  if (!s) {
+    s = createSession(provider);
+    sessions.set(k, s);
+  }
+  return s;
+}
+
+function sessionsOf(st: Store): SchedulerSession[] {
+  return [...sessions.entries()].filter(([k]) => k.startsWith(`${st.id}|`)).map(([, s]) => s);
+}
+
+function crawlCtx(st: Store, id: number, provider: string): CrawlCtx {
+  const session = sessionOf(st, provider);
+  return {
+    request: (spec) => session.request(specOf(spec)),
+    aborted: () => session.aborted(),
+    pause: (ms) => session.pause(ms),
+    ingest: (p) => ingest(st, p),
+    commit: (p) => commit(st, p),
+    restore: (p) => restore(st, p),
+    page: (page) => ctx.postMessage({ event: "page", id, page }),
+  };
+}
+
+function crawl(st: Store, id: number, p: CrawlParams) {
+  switch (p.kind) {
+    case "tron-trc20":
+      return crawlTrc20(crawlCtx(st, id, "trongrid"), p);
+    case "tron-tx":
+      return crawlTronTx(crawlCtx(st, id, "trongrid"), p);
+    case "evm-cursor":
+      return crawlCursor(crawlCtx(st, id, p.api.provider), p);
+    case "evm-mined":
+      return crawlMined(crawlCtx(st, id, p.api.provider), p);
+  }
+}
+
+// Key 状态变化合并后推送给主线程（KeyHealthTable 展示用）
+let keysQueued = false;
+subscribeKeyPool(() => {
+  if (keysQueued) return;
+  keysQueued = true;
+  setTimeout(() => {
+    keysQueued = false;
+    ctx.postMessage({ event: "keys", state: keyPoolState() });
+  }, 100);
+});
+
+/* ========== 消息分发 ========== */
+
+ctx.onmessage = async (ev: MessageEvent) => {
+  const msg = ev.data || {};
+  const { id, op } = msg;
+  const st = storeOf(Number(msg.store) || 0);
+  try {
+    let result: unknown;
+    switch (op) {
+      case "ingest":
+        result = await ingest(st, msg as IngestParams);
+        break;
+      case "commit":
+        await commit(st, msg);
+        break;
+      case "restore":
+        result = await restore(st, msg as RestoreParams);
+        break;
+      case "clear":
+        clear(st, msg);
+        break;
+      case "window":
+        result = tableOf(st, msg.table).slice(msg.offset, msg.offset + msg.limit);
+        break;
+      case "acctStats":
+        result = acctStats(st, msg);
+        break;
+      case "screen":
+        result = screen(st, msg as ScreenParams);
+        break;
+      case "exportXlsx":
+        exportXlsx(st, id, msg.plan);
+        break;
+      case "exportCsv":
+        exportCsv(st, id, msg.plan);
+        break;
+      case "request":
+        result = await sessionOf(st, (msg.spec as NetSpec).provider).request(specOf(msg.spec as NetSpec));
+        break;
+      case "crawl":
+        result = await crawl(st, id, msg.params as CrawlParams);
+        break;
+      case "tronStat":
+        result = await tronTokenStat(crawlCtx(st, id, "trongrid"), msg.params as TronStatParams);
+        break;
+      case "tronFees":
+        result = await tronFees(crawlCtx(st, id, "trongrid"), msg.params as TronFeesParams);
+        break;
+      case "evmHoldings": {
+        const params = msg.params as EvmHoldingsParams;
+        result = await evmHoldings(crawlCtx(st, id, params.api.provider), params);
+        break;
+      }
+      case "budget":
+        setProviderBudget(msg.provider, Number(msg.qps));
+        break;
+      case "abort":
+        sessionsOf(st).forEach((s) => s.abort());
+        break;
+      case "reset":
+        sessionsOf(st).forEach((s) => s.reset());
+        break;
+      case "dispose":
+        // 视图卸载：中止其请求并丢弃数据
+        sessionsOf(st).forEach((s) => s.abort());
+        for (const k of [...sessions.keys()]) if (k.startsWith(`${st.id}|`)) sessions.delete(k);
+        stores.delete(st.id);
+        break;
+      default:
+        throw new Error(`unknown op: ${op}`);
+    }
+    ctx.postMessage({ id, ok: true, result });
+  } catch (e) {
+    ctx.postMessage({ id, ok: false, error: String(e instanceof Error ? e.message : e) });
+  }
+};
@@ -0,0 +1,406 @@
+/* src/workers/tronCrawl.ts */
+import { decodeTronAssetName, tronHexToBase58 } from "../shared/utils";
+import {
+  isTrc10Id,
+  TRON_STAT_TRX,
+  tronGridSpec,
+  tronGridUrl,
+  type TronGridApi,
+  type TronTrc20Item,
+  type TronTxItem,
+} from "../shared/apis";
+import type {
+  CrawlParams,
+  CrawlResult,
+  TimeWindowMs,
+  Trc10Meta,
+  TronFeesParams,
+  TronFeesResult,
+  TronStatParams,
+  TronStatResult,
+} from "../shared/rowStore";
+import { failOf, pageGap, type CrawlCtx } from "./crawl";
+
+/* =========================
+ * TronGrid 翻页（行存储 Worker 中运行）
+ * - /v1/accounts/{addr}/transactions[/trc20]：links.next 优先，否则带 fingerprint 续页
+ * - 时间窗口：首页与 fingerprint 续页都要带上；links.next 由 TronGrid 原样带回
+ * ========================= */
+
+type TronPage = { data?: unknown[]; meta?: { fingerprint?: string; links?: { next?: string } } };
+
+function pageUrl(api: TronGridApi, path: string, params: Record<string, string>, win: TimeWindowMs, fingerprint?: string) {
+  const sp = new URLSearchParams(params);
+  if (win.fromMs !== undefined) sp.set("min_timestamp", String(win.fromMs));
+  if (win.toMs !== undefined) sp.set("max_timestamp", String(win.toMs));
+  if (fingerprint) sp.set("fingerprint", fingerprint);
+  return `${tronGridUrl(api, path)}?${sp.toString()}`;
+}
+
+function nextUrl(api: TronGridApi, path: string, params: Record<string, string>, win: TimeWindowMs, json: TronPage) {
+  const next = json.meta?.links?.next;
+  if (next) return tronGridUrl(api, next);
+  const fingerprint = json.meta?.fingerprint;
+  return fingerprint ? pageUrl(api, path, params, win, fingerprint) : null;
+}
+
+function dataOf(json: unknown): unknown[] {
+  const d = (json as TronPage | null)?.data;
+  return Array.isArray(d) ? d : [];
+}
+
+// 断点游标 = 下一页 URL
+const urlCursor = (c: unknown) => (typeof c === "string" ? c : null);
+
+/* ========== TRC20 转账 ========== */
+
+export async function crawlTrc20(c: CrawlCtx, p: Extract<CrawlParams, { kind: "tron-trc20" }>): Promise<CrawlResult> {
+  const path = `/v1/accounts/${p.addr}/transactions/trc20`;
+  const params: Record<string, string> = {
+    only_confirmed: "true",
+    limit: "200",
+    order_by: "block_timestamp,desc",
+    search_internal: "false",
+  };
+  if (p.contract.trim()) params.contract_address = p.contract.trim();
+  let url: string | null = pageUrl(p.api, path, params, p.window);
+  let count = 0;
+  let page = 0;
+
+  // 断点恢复：拼回已落盘的行与去重 Key，从保存的下一页继续
+  if (p.jobId) {
+    const r = await c.restore({ table: "trc20", addr: p.addr, jobId: p.jobId, kind: "trc20" }).catch(() => null);
+    if (r?.checkpoint) {
+      count = r.added;
+      page = r.checkpoint.pages;
+      url = r.checkpoint.done ? null : urlCursor(r.checkpoint.cursor);
+      c.page({ pages: page, count, added: r.added, restored: true });
+    }
+  }
+
+  while (!c.aborted() && url) {
+    page += 1;
+    const res = await c.request(tronGridSpec(p.api, url));
+    if (!res.ok) return { ...failOf(res), count, pages: page - 1, notes: [] };
+    const data = dataOf(res.json);
+    if (!data.length) {
+      if (p.jobId) {
+        const checkpoint = { jobId: p.jobId, kind: "trc20", cursor: null, done: true, pages: page - 1 };
+        await c.ingest({ table: "trc20", addr: p.addr, mapper: "tron-trc20", items: [], checkpoint }).catch(() => null);
+      }
+      return { end: "done", message: "", count, pages: page - 1, notes: [] };
+    }
+
+    url = nextUrl(p.api, path, params, p.window, res.json as TronPage);
+    const checkpoint = p.jobId ? { jobId: p.jobId, kind: "trc20", cursor: url, done: !url, pages: page } : undefined;
+    const { added } = await c.ingest({ table: "trc20", addr: p.addr, mapper: "tron-trc20", items: data, checkpoint });
+    count += added;
+    c.page({ pages: page, count, added });
+    if (!url) break;
+    await c.pause(pageGap(data.length, p.pauseMs));
+  }
+
+  return { end: url ? "aborted" : "done", message: "", count, pages: page, notes: [] };
+}
+
+/* ========== TRC10 元数据（名称 / 精度），按代币 ID 缓存 ========== */
+
+// 键为 节点|代币 ID。只有请求成功且 data 为空（确实查无此币）才记 null 不再重试；
+// 请求失败 / 超时 / 中止不入缓存，本次数量保留原始单位，下次再查
+const trc10Cache = new Map<string, Trc10Meta | null>();
+
+async function resolveTrc10(c: CrawlCtx, api: TronGridApi, items: unknown[]): Promise<Record<string, Trc10Meta>> {
+  const ids = new Set<string>();
+  for (const it of items as TronTxItem[]) {
+    if (it?.internal_tx_id) {
+      Object.keys(it.data?.call_value || {}).forEach((k) => k !== "_" && ids.add(decodeTronAssetName(k)));
+      continue;
+    }
+    const c0 = it?.raw_data?.contract?.[0];
+    if (c0?.type === "TransferAssetContract") ids.add(decodeTronAssetName(c0.parameter?.value?.asset_name || ""));
+  }
+  const out: Record<string, Trc10Meta> = {};
+  for (const id of ids) {
+    if (!id || c.aborted()) continue;
+    const meta = await trc10MetaOf(c, api, id);
+    if (meta) out[id] = meta;
+  }
+  return out;
+}
+
+async function trc10MetaOf(c: CrawlCtx, api: TronGridApi, id: string): Promise<Trc10Meta | undefined> {
+  const key = `${api.endpoint}|${id}`;
+  if (!trc10Cache.has(key)) {
+    const res = await c.request(tronGridSpec(api, tronGridUrl(api, `/v1/assets/${encodeURIComponent(id)}`)));
+    const list = res.ok ? (res.json as TronPage | null)?.data : undefined;
+    if (Array.isArray(list)) {
+      const d = list[0] as { name?: string; abbr?: string; precision?: number } | undefined;
+      trc10Cache.set(key, d ? { name: String(d.name || ""), abbr: String(d.abbr || ""), precision: Number(d.precision || 0) } : null);
+    }
+  }
+  return trc10Cache.get(key) ?? undefined;
+}
+
+/* ========== 交易列表（含内部交易；同时写入 TRX / TRC10 转账台账） ========== */
+
+export async function crawlTronTx(c: CrawlCtx, p: Extract<CrawlParams, { kind: "tron-tx" }>): Promise<CrawlResult> {
+  const path = `/v1/accounts/${p.addr}/transactions`;
+  const params: Record<string, string> = {
+    only_confirmed: "true",
+    search_internal: "true",
+    limit: "200",
+    order_by: "block_timestamp,desc",
+  };
+  let url: string | null = pageUrl(p.api, path, params, p.window);
+  let count = 0;
+  let page = 0;
+
+  if (p.jobId) {
+    // 台账与交易表共用交易表的游标（台账先写，最多领先一页，重复的由去重 Key 过滤）
+    await c.restore({ table: "ledger", addr: p.addr, jobId: p.jobId, kind: "ledger" }).catch(() => null);
+    const r = await c.restore({ table: "tx", addr: p.addr, jobId: p.jobId, kind: "tx" }).catch(() => null);
+    if (r?.checkpoint) {
+      count = r.added;
+      page = r.checkpoint.pages;
+      url = r.checkpoint.done ? null : urlCursor(r.checkpoint.cursor);
+      c.page({ pages: page, count, added: r.added, restored: true });
+    }
+  }
+
+  while (!c.aborted() && url) {
+    page += 1;
+    const res = await c.request(tronGridSpec(p.api, url));
+    if (!res.ok) return { ...failOf(res), count, pages: page - 1, notes: [] };
+    const data = dataOf(res.json);
+    if (!data.length) {
+      if (p.jobId) {
+        const checkpoint = { jobId: p.jobId, kind: "tx", cursor: null, done: true, pages: page - 1 };
+        await c
+          .ingest({ table: "ledger", addr: p.addr, mapper: "tron-ledger", items: [], checkpoint: { ...checkpoint, kind: "ledger" } })
+          .catch(() => null);
+        await c.ingest({ table: "tx", addr: p.addr, mapper: "tron-tx", items: [], checkpoint }).catch(() => null);
+      }
+      return { end: "done", message: "", count, pages: page - 1, notes: [] };
+    }
+
+    url = nextUrl(p.api, path, params, p.window, res.json as TronPage);
+    const checkpoint = p.jobId ? { jobId: p.jobId, kind: "tx", cursor: url, done: !url, pages: page } : undefined;
+    const trc10 = await resolveTrc10(c, p.api, data);
+    await c.ingest({
+      table: "ledger",
+      addr: p.addr,
+      mapper: "tron-ledger",
+      items: data,
+      trc10,
+      checkpoint: checkpoint && { ...checkpoint, kind: "ledger" },
+    });
+    const { added } = await c.ingest({ table: "tx", addr: p.addr, mapper: "tron-tx", items: data, checkpoint });
+    count += added;
+    c.page({ pages: page, count, added });
+    if (!url) break;
+    await c.pause(p.pauseMs);
+  }
+
+  return { end: url ? "aborted" : "done", message: "", count, pages: page, notes: [] };
+}
+
+/* ========== 单个代币的账户聚合（BigInt 累计，不写行）：TRC20 合约，或 TRX / TRC10 代币 ID ========== */
+
+// 流入 / 流出累计；from / to 为 Base58 地址
+function flowAcc(addr: string) {
+  let inRaw = 0n, outRaw = 0n;
+  let inCount = 0, outCount = 0;
+  const inAddrSet = new Set<string>();
+  const outAddrSet = new Set<string>();
+  let tsMin = Number.POSITIVE_INFINITY;
+  let tsMax = 0;
+  let lastOutTs = 0;
+  return {
+    seen(ts: number) {
+      if (ts > 0) {
+        if (ts < tsMin) tsMin = ts;
+        if (ts > tsMax) tsMax = ts;
+      }
+    },
+    add(from: string, to: string, raw: bigint, ts: number) {
+      if (to === addr) {
+        inRaw += raw;
+        inCount += 1;
+        if (from) inAddrSet.add(from);
+      }
+      if (from === addr) {
+        outRaw += raw;
+        outCount += 1;
+        if (to) outAddrSet.add(to);
+        if (ts > lastOutTs) lastOutTs = ts;
+      }
+    },
+    snapshot: (symbol: string, decimals: number, contract: string): TronStatResult["stat"] => ({
+      symbol,
+      decimals,
+      contract,
+      inRaw: inRaw.toString(),
+      outRaw: outRaw.toString(),
+      inCount,
+      outCount,
+      inAddrCount: inAddrSet.size,
+      outAddrCount: outAddrSet.size,
+      firstTs: Number.isFinite(tsMin) ? tsMin : undefined,
+      lastTs: tsMax > 0 ? tsMax : undefined,
+      lastOutTs: lastOutTs > 0 ? lastOutTs : undefined,
+    }),
+  };
+}
+
+export async function tronTokenStat(c: CrawlCtx, p: TronStatParams): Promise<TronStatResult> {
+  if (p.contract === TRON_STAT_TRX || isTrc10Id(p.contract)) return tronAssetStat(c, p);
+  const path = `/v1/accounts/${p.addr}/transactions/trc20`;
+  const params: Record<string, string> = {
+    only_confirmed: "true",
+    limit: "200",
+    order_by: "block_timestamp,desc",
+    search_internal: "false",
+    contract_address: p.contract,
+  };
+  let url: string | null = pageUrl(p.api, path, params, p.window);
+
+  let decimals = 6;
+  let symbol = "";
+  const acc = flowAcc(p.addr);
+  const result = (end: TronStatResult["end"], message = ""): TronStatResult => ({
+    end,
+    message,
+    stat: acc.snapshot(symbol, decimals, p.contract),
+  });
+
+  while (url) {
+    if (c.aborted()) return result("aborted");
+    const res = await c.request(tronGridSpec(p.api, url));
+    if (!res.ok) {
+      const f = failOf(res);
+      return result(f.end, f.message);
+    }
+    const list = dataOf(res.json) as TronTrc20Item[];
+    if (!list.length) break;
+
+    // TRC20 转账来自 Transfer 事件：失败 / 回滚的交易不产生事件，不会计入（countFailed 对 TRC20 无影响）
+    for (const it of list) {
+      if (it?.type === "Approval") continue;
+      const ti = it?.token_info || {};
+      if (typeof ti.decimals === "number") decimals = ti.decimals;
+      if (!symbol && ti.symbol) symbol = String(ti.symbol);
+      const ts = Number(it?.block_timestamp || 0);
+      acc.seen(ts);
+      acc.add(it?.from || "", it?.to || "", BigInt(String(it?.value ?? "0")), ts);
+    }
+    url = nextUrl(p.api, path, params, p.window, res.json as TronPage);
+  }
+  return result("done");
+}
+
+/*
+ * TRX / TRC10：翻 /v1/accounts/{addr}/transactions（含内部交易），只取该代币的转账。
+ * 失败交易（contractRet 非 SUCCESS / 内部交易 rejected）缺省不计入流入流出，countFailed 时计入
+ */
+async function tronAssetStat(c: CrawlCtx, p: TronStatParams): Promise<TronStatResult> {
+  const isTrx = p.contract === TRON_STAT_TRX;
+  const path = `/v1/accounts/${p.addr}/transactions`;
+  const params: Record<string, string> = {
+    only_confirmed: "true",
+    search_internal: "true",
+    limit: "200",
+    order_by: "block_timestamp,desc",
+  };
+  let url: string | null = pageUrl(p.api, path, params, p.window);
+
+  let meta: Trc10Meta | undefined;
+  const acc = flowAcc(p.addr);
+  const result = (end: TronStatResult["end"], message = ""): TronStatResult => ({
+    end,
+    message,
+    stat: isTrx
+      ? acc.snapshot("TRX", 6, p.contract)
+      : acc.snapshot(meta?.abbr || meta?.name || `TRC10#${p.contract}`, meta?.precision ?? 0, p.contract),
+  });
+
+  while (url) {
+    if (c.aborted()) return result("aborted");
+    const res = await c.request(tronGridSpec(p.api, url));
+    if (!res.ok) {
+      const f = failOf(res);
+      return result(f.end, f.message);
+    }
+    const list = dataOf(res.json) as TronTxItem[];
+    if (!list.length) break;
+    if (!isTrx && !meta) meta = await trc10MetaOf(c, p.api, p.contract);
+
+    for (const it of list) {
+      const ts = Number(it?.block_timestamp || 0);
+      if (it?.internal_tx_id) {
+        // call_value 的键："_" 为 TRX，其余为（可能 hex 编码的）TRC10 代币 ID
+        const cv = it.data?.call_value || {};
+        const hitKey = Object.keys(cv).find((k) => (isTrx ? k === "_" : k !== "_" && decodeTronAssetName(k) === p.contract));
+        const raw = hitKey ? cv[hitKey] : undefined;
+        if (!raw || String(raw) === "0") continue;
+        acc.seen(ts);
+        if (it.data?.rejected && !p.countFailed) continue;
+        acc.add(tronHexToBase58(it.from_address || ""), tronHexToBase58(it.to_address || ""), BigInt(String(raw)), ts);
+        continue;
+      }
+      const c0 = it?.raw_data?.contract?.[0];
+      const v = c0?.parameter?.value || {};
+      const hit = isTrx
+        ? c0?.type === "TransferContract"
+        : c0?.type === "TransferAssetContract" && decodeTronAssetName(v.asset_name || "") === p.contract;
+      if (!hit) continue;
+      acc.seen(ts);
+      const ret = it?.ret?.[0]?.contractRet;
+      if (ret && ret !== "SUCCESS" && !p.countFailed) continue;
+      acc.add(tronHexToBase58(v.owner_address || ""), tronHexToBase58(v.to_address || ""), BigInt(String(v.amount ?? 0)), ts);
+    }
+    url = nextUrl(p.api, path, params, p.window, res.json as TronPage);
+  }
+  return result("done");
+}
+
+/* ========== 手续费合计：翻 only_from 的交易（本地址发起 = 本地址付费），累计 ret[0].fee 与能量消耗 ========== */
+
+export async function tronFees(c: CrawlCtx, p: TronFeesParams): Promise<TronFeesResult> {
+  const path = `/v1/accounts/${p.addr}/transactions`;
+  const params: Record<string, string> = { only_from: "true", only_confirmed: "true", limit: "200", order_by: "block_timestamp,desc" };
+  let url: string | null = pageUrl(p.api, path, params, p.window);
+  let feeRaw = 0n;
+  let count = 0;
+  let energy = 0;
+  const result = (end: TronFeesResult["end"], message = ""): TronFeesResult => ({
+    end,
+    message,
+    feeRaw: feeRaw.toString(),
+    count,
+    energy,
+  });
+
+  while (url) {
+    if (c.aborted()) return result("aborted");
+    const res = await c.request(tronGridSpec(p.api, url));
+    if (!res.ok) {
+      const f = failOf(res);
+      return result(f.end, f.message);
+    }
+    const list = dataOf(res.json) as TronTxItem[];
+    if (!list.length) break;
+    for (const it of list) {
+      // 内部交易没有单独的手续费
+      if (it?.internal_tx_id) continue;
+      const fee =
+        it?.ret?.[0]?.fee != null
+          ? BigInt(String(it.ret[0].fee))
+          : BigInt(String(it?.energy_fee ?? 0)) + BigInt(String(it?.net_fee ?? 0));
+      feeRaw += fee;
+      if (fee > 0n) count += 1;
+      energy += Number(it?.energy_usage_total ?? it?.energy_usage ?? 0) || 0;
+    }
+    url = nextUrl(p.api, path, params, p.window, res.json as TronPage);
+  }
+  return result("done");
+}